@@ -1,16 +1,81 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Icons, DEMO_VIDEO_URL } from './constants';
-import VideoPlayer from './components/VideoPlayer';
-import { AppStatus, ParsedVideoData } from './types';
-import { parseVideoInput } from './services/parserService';
+import VideoPlayer, { VideoPlayerHandle } from './components/VideoPlayer';
+import PartPicker from './components/PartPicker';
+import AISummaryCard from './components/AISummaryCard';
+import FrameAnalysisCard from './components/FrameAnalysisCard';
+import AudioExtractCard from './components/AudioExtractCard';
+import StoryboardCard from './components/StoryboardCard';
+import ChapterList, { useBookmarks } from './components/ChapterList';
+import NotesPanel from './components/NotesPanel';
+import MediaInspectorCard from './components/MediaInspectorCard';
+import { AISummary, AppStatus, Danmaku, HistoryEntry, MediaInfo, ParsedVideoData, ThumbnailCue, VideoPart, VideoSource } from './types';
+import { containingListUrl, isVideoListInput, loadDanmaku, parseVideoInput, selectVideoPart } from './services/parserService';
+import { describeSource } from './services/formatters';
+import { downloadKey, queueDownload } from './services/downloadManager';
+import DownloadPanel, { useDownloads } from './components/DownloadPanel';
+import HistoryPanel from './components/HistoryPanel';
+import BatchPanel, { BatchRequest } from './components/BatchPanel';
+import VideoListPanel from './components/VideoListPanel';
+import SettingsPanel, { useSettings } from './components/SettingsPanel';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import { ParseError, toParseError } from './services/errors';
+import { historyEntryKey, historyStore } from './services/historyService';
+import { danmakuToAss } from './services/danmaku/ass';
+import { saveBlob } from './services/fileService';
+import { safeFilename } from './services/formatters';
+import { getSettings } from './services/settings';
+import { createFakeGeminiClient } from './services/geminiFake';
+import { addBookmark, bookmarkKey } from './services/bookmarks';
+import { videoChapters } from './services/chapterService';
+import { releaseThumbnails } from './services/thumbnailService';
+import { LOCAL_FILE_ACCEPT, openLocalFile } from './services/localFileService';
+import { DeepLink, deepLinkHref, readDeepLink, sourceIndexFor } from './services/deepLink';
 
 const App = () => {
   const [darkMode, setDarkMode] = useState(true);
   const [inputUrl, setInputUrl] = useState('');
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [data, setData] = useState<ParsedVideoData | null>(null);
-  const [errorMsg, setErrorMsg] = useState('');
-  const [downloadingUrl, setDownloadingUrl] = useState<string | null>(null);
+  const [parseError, setParseError] = useState<ParseError | null>(null);
+  const [loadingPartCid, setLoadingPartCid] = useState<number | null>(null);
+  const [sourceIndex, setSourceIndex] = useState(0);
+  const downloads = useDownloads();
+  const playerRef = useRef<VideoPlayerHandle>(null);
+  // Blob URL of the fully cached native video, if any
+  const [cachedUrl, setCachedUrl] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  // History entry the shown result belongs to; later changes to `data` are saved into it
+  const [historyKey, setHistoryKey] = useState<string | null>(null);
+  const [refreshingSources, setRefreshingSources] = useState(false);
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
+  // Bullet comments of the current part; null when the platform has none
+  const [danmaku, setDanmaku] = useState<Danmaku[] | null>(null);
+  // Container details of the cached video, from the media inspector
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null);
+  // Seek-bar preview track of the current part, e.g. from a generated storyboard
+  const [thumbnails, setThumbnails] = useState<ThumbnailCue[] | null>(null);
+  // Input the shown result can be shared by, kept in the address bar; null for local files
+  const [link, setLink] = useState<string | null>(null);
+  // Where a player opened from a link starts
+  const [startTime, setStartTime] = useState<number | undefined>(undefined);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Bumped by every open, so a slow parse can't replace a video opened after it
+  const openRunRef = useRef(0);
+  // List link (uploads, favourites...) shown for picking videos instead of a single result
+  const [listUrl, setListUrl] = useState<string | null>(null);
+  // Videos picked from a list, handed to the batch panel
+  const [batchRequest, setBatchRequest] = useState<BatchRequest | null>(null);
+  // Whether files are being dragged over the page
+  const [dragging, setDragging] = useState(false);
+  // Offline stand-in for Gemini when chosen in the settings; undefined uses the configured API
+  const aiBackend = useSettings().aiBackend;
+  const geminiClient = useMemo(() => (aiBackend === 'fake' ? createFakeGeminiClient() : undefined), [aiBackend]);
+  // e.g. the playlist of a YouTube watch link with `list=`
+  const parentList = link ? containingListUrl(link) : null;
+  const bookmarks = useBookmarks(data ? bookmarkKey(data) : '');
+  const chapters = data ? [...videoChapters(data), ...bookmarks] : [];
 
   // Initialize Theme and Body Class
   useEffect(() => {
@@ -23,63 +88,302 @@ const App = () => {
     }
   }, [darkMode]);
 
-  const handleParse = async () => {
-    if (!inputUrl.trim()) return;
+  useEffect(() => {
+    if (historyKey && data) historyStore.update(historyKey, data);
+  }, [historyKey, data]);
+
+  useEffect(() => {
+    setDanmaku(null);
+    if (!data || data.playerType !== 'native') return;
+    let cancelled = false;
+    loadDanmaku(data)
+      .then(list => { if (!cancelled) setDanmaku(list); })
+      .catch(e => console.warn("Failed to load danmaku", e));
+    return () => { cancelled = true; };
+  }, [data?.platform, data?.id, data?.currentCid, data?.playerType]);
+
+  useEffect(() => {
+    setThumbnails(null);
+  }, [data?.platform, data?.id, data?.currentCid]);
+
+  useEffect(() => {
+    if (!thumbnails) return;
+    return () => releaseThumbnails(thumbnails);
+  }, [thumbnails]);
+
+  // Mirrors the shown video in the address bar: a new video is a new history entry, a quality change is not
+  useEffect(() => {
+    if (status !== AppStatus.SUCCESS) return;
+    const current = readDeepLink();
+    if (!link) {
+      if (current) window.history.pushState(null, '', window.location.pathname);
+      return;
+    }
+    const source = sourceIndex > 0 ? data?.sources[sourceIndex]?.label : undefined;
+    if (current?.url === link) {
+      window.history.replaceState(null, '', deepLinkHref({ url: link, time: current.time, source }));
+    } else {
+      window.history.pushState(null, '', deepLinkHref({ url: link, source }));
+    }
+  }, [status, link, sourceIndex]);
+
+  // Opens the link the page was loaded with, and follows back/forward between videos
+  useEffect(() => {
+    const openFromLocation = () => {
+      const target = readDeepLink();
+      if (target) {
+        setMode('single');
+        openInput(target.url, target);
+      } else {
+        openRunRef.current++;
+        setInputUrl('');
+        setData(null);
+        setLink(null);
+        setListUrl(null);
+        setParseError(null);
+        setStatus(AppStatus.IDLE);
+      }
+    };
+    if (readDeepLink()) openFromLocation();
+    window.addEventListener('popstate', openFromLocation);
+    return () => window.removeEventListener('popstate', openFromLocation);
+  }, []);
+
+  // Object URL of an opened local file, released when another video replaces it
+  const localUrl = data?.platform === 'local' ? data.sources[0]?.url : undefined;
+  useEffect(() => {
+    if (!localUrl) return;
+    return () => URL.revokeObjectURL(localUrl);
+  }, [localUrl]);
+
+  // Video files can be dropped anywhere on the page
+  useEffect(() => {
+    let depth = 0;
+    const hasFiles = (e: DragEvent) => !!e.dataTransfer?.types.includes('Files');
+    const onEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth++;
+      setDragging(true);
+    };
+    const onLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setDragging(false);
+    };
+    const onOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth = 0;
+      setDragging(false);
+      const file = e.dataTransfer!.files[0];
+      if (file) handleOpenFile(file);
+    };
+    window.addEventListener('dragenter', onEnter);
+    window.addEventListener('dragleave', onLeave);
+    window.addEventListener('dragover', onOver);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragenter', onEnter);
+      window.removeEventListener('dragleave', onLeave);
+      window.removeEventListener('dragover', onOver);
+      window.removeEventListener('drop', onDrop);
+    };
+  }, []);
+
+  const handleExportDanmaku = () => {
+    if (!data || !danmaku) return;
+    const source = data.sources[sourceIndex] || data.sources[0];
+    const { opacity, fontScale } = getSettings().danmaku;
+    const ass = danmakuToAss(danmaku, { title: data.title, width: source?.width, height: source?.height, opacity, fontScale });
+    saveBlob(new Blob([ass], { type: 'text/x-ssa;charset=utf-8' }), `${safeFilename(data.title)}.ass`);
+  };
+
+  const handleParse = () => openInput(inputUrl);
 
+  // Parses an input; a link can also ask for a start time and a source
+  const openInput = async (input: string, target?: Pick<DeepLink, 'time' | 'source'>) => {
+    if (!input.trim()) return;
+    const run = ++openRunRef.current;
+
+    setInputUrl(input);
     setStatus(AppStatus.PARSING);
     setData(null);
-    setErrorMsg('');
+    setHistoryKey(null);
+    setSourceIndex(0);
+    setStartTime(target?.time);
+    setParseError(null);
+    setListUrl(null);
+
+    // Lists are paged by their own panel
+    if (isVideoListInput(input)) {
+        setListUrl(input.trim());
+        setLink(input.trim());
+        setStatus(AppStatus.SUCCESS);
+        return;
+    }
 
     try {
-        const result = await parseVideoInput(inputUrl);
+        const result = await parseVideoInput(input);
+        if (run !== openRunRef.current) return;
+        setSourceIndex(result.playerType === 'native' ? sourceIndexFor(result.sources, target?.source) : 0);
         setData(result);
+        setHistoryKey(historyStore.record(input, result));
+        setLink(input.trim());
         setStatus(AppStatus.SUCCESS);
     } catch (e) {
+        if (run !== openRunRef.current) return;
         console.error(e);
-        if (inputUrl.includes('demo')) {
-            setData({
+        if (input.includes('demo')) {
+            const demo: ParsedVideoData = {
                 id: 'demo_123',
                 title: '演示视频: Big Buck Bunny (1080P High Quality)',
                 platform: 'direct',
                 playerType: 'native',
-                sources: [{ url: DEMO_VIDEO_URL, format: 'MP4', quality: '1080P', size: '24MB', isDownloadable: true }]
-            });
+                sources: [{ url: DEMO_VIDEO_URL, format: 'MP4', label: '1080P', width: 1920, height: 1080, codec: 'avc1', mime: 'video/mp4', isDownloadable: true }]
+            };
+            setData(demo);
+            setHistoryKey(historyStore.record(input, demo));
+            setLink(input.trim());
             setStatus(AppStatus.SUCCESS);
         } else {
             setStatus(AppStatus.ERROR);
-            setErrorMsg("无法解析该链接，请确认格式正确 (支持: B站 BV/av/b23.tv, YouTube, 直链MP4)");
+            setParseError(toParseError(e));
         }
     }
   };
 
+  // Local files are not written to history: the object URL dies with the page
+  const handleOpenFile = async (file: File) => {
+    const run = ++openRunRef.current;
+    setMode('single');
+    setStatus(AppStatus.PARSING);
+    setData(null);
+    setHistoryKey(null);
+    setSourceIndex(0);
+    setStartTime(undefined);
+    setParseError(null);
+    setListUrl(null);
+
+    try {
+        const result = await openLocalFile(file);
+        if (run !== openRunRef.current) {
+            URL.revokeObjectURL(result.sources[0].url);
+            return;
+        }
+        setData(result);
+        setInputUrl('');
+        setLink(null);
+        setStatus(AppStatus.SUCCESS);
+    } catch (e) {
+        if (run !== openRunRef.current) return;
+        console.error(e);
+        setStatus(AppStatus.ERROR);
+        setParseError(toParseError(e));
+    }
+  };
+
+  const handleSelectPart = async (part: VideoPart) => {
+    if (!data || loadingPartCid != null) return;
+    // Another video opened while the part loads wins, so its history entry isn't overwritten
+    const run = ++openRunRef.current;
+    setLoadingPartCid(part.cid);
+    setStartTime(undefined);
+    try {
+        const next = await selectVideoPart(data, part);
+        if (run !== openRunRef.current) return;
+        setData(next);
+        setSourceIndex(0);
+    } catch (e) {
+        console.error("Failed to switch part", e);
+    } finally {
+        setLoadingPartCid(null);
+    }
+  };
+
+  // Shows a saved result right away; stream URLs are only re-resolved if they may have expired
+  const handleOpenHistory = async (entry: HistoryEntry) => {
+    openRunRef.current++;
+    setHistoryOpen(false);
+    setInputUrl(entry.input);
+    setParseError(null);
+    setSourceIndex(0);
+    setStartTime(undefined);
+    setData(entry.data);
+    setHistoryKey(entry.key);
+    setLink(entry.input);
+    setListUrl(null);
+    setStatus(AppStatus.SUCCESS);
+
+    if (!historyStore.needsRefresh(entry.key)) return;
+    setRefreshingSources(true);
+    try {
+        const fresh = await historyStore.restore(entry.key);
+        // Ignore the result if another video was opened meanwhile
+        setData(prev => (prev === entry.data ? fresh : prev));
+    } catch (e) {
+        console.error("Failed to refresh sources", e);
+    } finally {
+        setRefreshingSources(false);
+    }
+  };
+
+  const handleOpenBatchResult = (input: string, result: ParsedVideoData) => {
+    openRunRef.current++;
+    setParseError(null);
+    setSourceIndex(0);
+    setStartTime(undefined);
+    setData(result);
+    setLink(input.trim());
+    setListUrl(null);
+    // Batch parses are recorded as they finish
+    const key = historyEntryKey(result);
+    setHistoryKey(historyStore.get(key) ? key : null);
+    setInputUrl(input);
+    setStatus(AppStatus.SUCCESS);
+  };
+
+  const handleParseList = (inputs: string[], download: boolean) => {
+    setBatchRequest({ inputs, download });
+    setMode('batch');
+  };
+
+  const handleSummary = (videoId: string, aiSummary: AISummary) => {
+    setData(prev => (prev && prev.id === videoId ? { ...prev, aiSummary } : prev));
+  };
+
+  // Link to the shown video at the player's current position and quality
+  const handleCopyLink = async () => {
+    if (!link || !data) return;
+    const time = playerRef.current?.getVideoElement()?.currentTime;
+    const source = sourceIndex > 0 ? data.sources[sourceIndex]?.label : undefined;
+    try {
+        await navigator.clipboard.writeText(deepLinkHref({ url: link, time, source }));
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+    } catch (e) {
+        console.error("Failed to copy link", e);
+        alert('无法写入剪贴板，请检查浏览器权限');
+    }
+  };
+
   const handleDemoClick = () => {
       setInputUrl("https://www.bilibili.com/video/BV1GJ411x7h7"); 
   };
 
-  const forceDownload = async (url: string, filename: string) => {
-    if (downloadingUrl) return;
-    setDownloadingUrl(url);
-    
+  const handleDownload = async (source: VideoSource, title: string) => {
+    if (source.external) {
+        window.open(source.url, '_blank');
+        return;
+    }
+
     try {
-        const response = await fetch(url, { referrerPolicy: 'no-referrer' });
-        if (!response.ok) throw new Error('Download failed');
-        
-        const blob = await response.blob();
-        const blobUrl = URL.createObjectURL(blob);
-        
-        const link = document.createElement('a');
-        link.href = blobUrl;
-        link.download = filename || `video_${Date.now()}.mp4`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        
-        setTimeout(() => URL.revokeObjectURL(blobUrl), 1000);
+        await queueDownload(source, title);
     } catch (e) {
-        console.error("Force download failed, falling back to new tab", e);
-        window.open(url, '_blank');
-    } finally {
-        setDownloadingUrl(null);
+        console.error("Failed to queue download", e);
+        alert(`无法创建下载任务: ${(e as Error).message}`);
     }
   };
 
@@ -108,63 +412,117 @@ const App = () => {
                   </p>
               </div>
           </div>
-          <button
-            onClick={() => setDarkMode(!darkMode)}
-            className="w-10 h-10 rounded-full glass-panel flex items-center justify-center hover:bg-white/20 transition-all text-slate-600 dark:text-slate-300 shadow-lg ring-1 ring-white/10"
-          >
-            {darkMode ? <Icons.Sun className="w-5 h-5" /> : <Icons.Moon className="w-5 h-5" />}
-          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setHistoryOpen(true)}
+              title="解析记录"
+              className="w-10 h-10 rounded-full glass-panel flex items-center justify-center hover:bg-white/20 transition-all text-slate-600 dark:text-slate-300 shadow-lg ring-1 ring-white/10"
+            >
+              <Icons.History className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setSettingsOpen(true)}
+              title="设置"
+              className="w-10 h-10 rounded-full glass-panel flex items-center justify-center hover:bg-white/20 transition-all text-slate-600 dark:text-slate-300 shadow-lg ring-1 ring-white/10"
+            >
+              <Icons.Settings className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setDarkMode(!darkMode)}
+              className="w-10 h-10 rounded-full glass-panel flex items-center justify-center hover:bg-white/20 transition-all text-slate-600 dark:text-slate-300 shadow-lg ring-1 ring-white/10"
+            >
+              {darkMode ? <Icons.Sun className="w-5 h-5" /> : <Icons.Moon className="w-5 h-5" />}
+            </button>
+          </div>
         </header>
 
         {/* Hero / Input Section */}
-        <div className="w-full max-w-3xl flex flex-col gap-8 animate-fade-in-up mb-8">
+        <div className={`w-full ${mode === 'batch' ? 'max-w-5xl' : 'max-w-3xl'} flex flex-col gap-8 animate-fade-in-up mb-8`}>
           <div className="text-center space-y-4 mb-2">
                <h2 className="text-4xl md:text-5xl font-extrabold text-slate-800 dark:text-white drop-shadow-sm tracking-tight">
                   全能视频解析
                </h2>
                <p className="text-lg text-slate-600 dark:text-slate-300 max-w-lg mx-auto leading-relaxed opacity-90">
                   支持 <span className="font-semibold text-primary-600 dark:text-primary-400">B站</span>、
-                  <span className="font-semibold text-red-500 dark:text-red-400">YouTube</span> 及任意直链。
+                  <span className="font-semibold text-red-500 dark:text-red-400">YouTube</span>、任意直链及本地文件。
                   <br/>极速下载 · 4K画质 · 智能截帧
                </p>
           </div>
 
-          <div className="relative mx-auto w-full group">
-              {/* Clean Glass Input Container */}
-              <div className="relative flex items-center glass-panel rounded-2xl p-2 shadow-2xl ring-1 ring-white/20 transition-all duration-300 hover:ring-primary-500/30 focus-within:ring-primary-500/50 focus-within:shadow-primary-500/10">
-                  <div className="pl-4 pr-3 text-slate-400">
-                      <Icons.Search className="w-6 h-6" />
-                  </div>
-                  <input
-                      type="text"
-                      value={inputUrl}
-                      onChange={(e) => setInputUrl(e.target.value)}
-                      placeholder="粘贴视频链接 (Bilibili, YouTube, MP4...)"
-                      className="flex-1 bg-transparent border-none outline-none px-2 py-4 text-lg text-slate-800 dark:text-white placeholder-slate-400 font-medium"
-                      onKeyDown={(e) => e.key === 'Enter' && handleParse()}
-                  />
+          {/* Mode Switch */}
+          <div className="mx-auto flex p-1 rounded-xl glass-panel ring-1 ring-white/10 text-sm font-bold">
+              {(['single', 'batch'] as const).map(m => (
                   <button
-                      onClick={handleParse}
-                      disabled={status === AppStatus.PARSING}
-                      className="px-8 py-3 bg-slate-900 dark:bg-white hover:bg-slate-800 dark:hover:bg-gray-100 text-white dark:text-slate-900 rounded-xl font-bold transition-all shadow-lg hover:shadow-xl hover:-translate-y-0.5 disabled:opacity-70 disabled:cursor-not-allowed disabled:transform-none flex items-center gap-2"
+                      key={m}
+                      onClick={() => setMode(m)}
+                      className={`px-5 py-1.5 rounded-lg transition-colors ${mode === m ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900 shadow' : 'text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-white'}`}
                   >
-                      {status === AppStatus.PARSING ? (
-                          <Icons.Loader className="animate-spin w-5 h-5" />
-                      ) : (
-                          <span>解析</span>
-                      )}
+                      {m === 'single' ? '单个解析' : '批量解析'}
                   </button>
-              </div>
+              ))}
           </div>
+
+          {/* Kept mounted so the batch table survives switching modes */}
+          <div className={mode === 'batch' ? '' : 'hidden'}>
+              <BatchPanel onOpen={handleOpenBatchResult} request={batchRequest} />
+          </div>
+
+          {mode === 'single' && (
+              <div className="relative mx-auto w-full group">
+                  {/* Clean Glass Input Container */}
+                  <div className="relative flex items-center glass-panel rounded-2xl p-2 shadow-2xl ring-1 ring-white/20 transition-all duration-300 hover:ring-primary-500/30 focus-within:ring-primary-500/50 focus-within:shadow-primary-500/10">
+                      <div className="pl-4 pr-3 text-slate-400">
+                          <Icons.Search className="w-6 h-6" />
+                      </div>
+                      <input
+                          type="text"
+                          value={inputUrl}
+                          onChange={(e) => setInputUrl(e.target.value)}
+                          placeholder="粘贴视频链接 (Bilibili, YouTube, MP4, M3U8, MPD...)，或 UP主空间 / 收藏夹 / 播放列表链接"
+                          className="flex-1 bg-transparent border-none outline-none px-2 py-4 text-lg text-slate-800 dark:text-white placeholder-slate-400 font-medium"
+                          onKeyDown={(e) => e.key === 'Enter' && handleParse()}
+                      />
+                      <label
+                          title="打开本地视频 (也可直接拖入页面)"
+                          className={`mr-2 w-11 h-11 shrink-0 rounded-xl flex items-center justify-center text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-300 hover:bg-white/30 dark:hover:bg-white/10 transition-colors ${status === AppStatus.PARSING ? 'pointer-events-none opacity-50' : 'cursor-pointer'}`}
+                      >
+                          <Icons.FolderOpen className="w-5 h-5" />
+                          <input
+                              type="file"
+                              accept={LOCAL_FILE_ACCEPT}
+                              className="hidden"
+                              onChange={(e) => { const file = e.target.files?.[0]; if (file) handleOpenFile(file); e.target.value = ''; }}
+                          />
+                      </label>
+                      <button
+                          onClick={handleParse}
+                          disabled={status === AppStatus.PARSING}
+                          className="px-8 py-3 bg-slate-900 dark:bg-white hover:bg-slate-800 dark:hover:bg-gray-100 text-white dark:text-slate-900 rounded-xl font-bold transition-all shadow-lg hover:shadow-xl hover:-translate-y-0.5 disabled:opacity-70 disabled:cursor-not-allowed disabled:transform-none flex items-center gap-2"
+                      >
+                          {status === AppStatus.PARSING ? (
+                              <Icons.Loader className="animate-spin w-5 h-5" />
+                          ) : (
+                              <span>解析</span>
+                          )}
+                      </button>
+                  </div>
+              </div>
+          )}
           
-          {status === AppStatus.ERROR && (
-              <div className="mx-auto animate-fade-in-up bg-red-500/5 backdrop-blur-md border border-red-500/20 text-red-600 dark:text-red-300 px-6 py-3 rounded-xl flex items-center gap-2 shadow-lg">
-                  <Icons.AlertTriangle className="w-5 h-5" />
-                  <span>{errorMsg}</span>
+          {mode === 'single' && status === AppStatus.ERROR && parseError && (
+              <div className="w-full animate-fade-in-up bg-red-500/5 backdrop-blur-md border border-red-500/20 px-6 py-4 rounded-xl shadow-lg">
+                  <div className="flex items-start gap-3 text-red-600 dark:text-red-300">
+                      <Icons.AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
+                      <div>
+                          <p className="font-bold">{parseError.userMessage}</p>
+                          <p className="text-sm opacity-80 mt-1">{parseError.action}</p>
+                      </div>
+                  </div>
+                  {parseError.trace && <DiagnosticsPanel steps={parseError.trace} className="mt-4" />}
               </div>
           )}
 
-          {status === AppStatus.IDLE && (
+          {mode === 'single' && status === AppStatus.IDLE && (
               <div className="text-center animate-fade-in-up delay-100">
                   <button 
                       onClick={handleDemoClick}
@@ -177,6 +535,12 @@ const App = () => {
           )}
         </div>
 
+        {mode === 'single' && status === AppStatus.SUCCESS && listUrl && (
+          <div className="w-full max-w-5xl animate-fade-in-up">
+              <VideoListPanel key={listUrl} url={listUrl} onParse={handleParseList} />
+          </div>
+        )}
+
         {/* Results Section */}
         {status === AppStatus.SUCCESS && data && (
           <div className="w-full mt-8 grid grid-cols-1 lg:grid-cols-12 gap-8 animate-fade-in-up">
@@ -185,11 +549,36 @@ const App = () => {
                   {/* Player Container */}
                   <div className="relative rounded-3xl overflow-hidden shadow-2xl ring-1 ring-white/10 bg-black/40 backdrop-blur-sm group">
                       <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent pointer-events-none z-10"></div>
-                      <VideoPlayer 
-                          url={data.sources[0].url} 
-                          poster={data.thumbnailUrl} 
-                          playerType={data.playerType} 
-                      />
+                      {refreshingSources ? (
+                          <div className="aspect-video flex flex-col items-center justify-center gap-3 text-slate-300 text-sm">
+                              <Icons.Loader className="w-8 h-8 animate-spin" />
+                              播放地址已过期，正在重新获取...
+                          </div>
+                      ) : (
+                          <VideoPlayer 
+                              // A different video or part starts with a fresh player, e.g. without the previous local subtitles
+                              key={`${historyEntryKey(data)}:${data.currentCid ?? ''}`}
+                              ref={playerRef}
+                              url={(data.sources[sourceIndex] || data.sources[0]).url} 
+                              poster={data.thumbnailUrl} 
+                              playerType={data.playerType} 
+                              sources={data.playerType === 'native' ? data.sources : undefined}
+                              activeSourceIndex={sourceIndex}
+                              onSourceChange={setSourceIndex}
+                              onCacheChange={setCachedUrl}
+                              danmaku={danmaku}
+                              onExportDanmaku={handleExportDanmaku}
+                              subtitles={data.subtitles}
+                              title={data.title}
+                              videoId={data.id}
+                              chapters={chapters}
+                              onAddBookmark={(time) => addBookmark(bookmarkKey(data), time)}
+                              thumbnails={thumbnails}
+                              startTime={startTime}
+                              keyframes={mediaInfo?.keyframes}
+                              frameRate={mediaInfo?.tracks.find(t => t.kind === 'video')?.frameRate}
+                          />
+                      )}
                   </div>
                   
                   {/* Info Card */}
@@ -201,11 +590,33 @@ const App = () => {
                                   <span className="px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-slate-200">
                                       {data.platform}
                                   </span>
+                                  {data.author && (
+                                      <span className="text-sm font-medium text-slate-600 dark:text-slate-300">{data.author}</span>
+                                  )}
                                   {data.duration && (
                                       <span className="flex items-center gap-1 text-sm text-slate-500 dark:text-slate-400">
                                           <Icons.Play className="w-3 h-3" /> {data.duration}
                                       </span>
                                   )}
+                                  {link && (
+                                      <button
+                                          onClick={handleCopyLink}
+                                          title={data.playerType === 'native' ? '复制从当前播放位置开始的分享链接' : '复制分享链接'}
+                                          className="flex items-center gap-1 text-sm text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-300 transition-colors"
+                                      >
+                                          <Icons.Link className="w-3.5 h-3.5" />
+                                          {linkCopied ? '已复制' : data.playerType === 'native' ? '复制当前时间链接' : '复制链接'}
+                                      </button>
+                                  )}
+                                  {parentList && (
+                                      <button
+                                          onClick={() => openInput(parentList)}
+                                          className="flex items-center gap-1 text-sm text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-300 transition-colors"
+                                      >
+                                          <Icons.List className="w-3.5 h-3.5" />
+                                          查看所在播放列表
+                                      </button>
+                                  )}
                               </div>
                               {data.description && (
                                   <div className="p-4 rounded-2xl bg-slate-100/50 dark:bg-black/20 border border-slate-200/50 dark:border-white/5 text-slate-600 dark:text-slate-300 text-sm leading-relaxed max-h-40 overflow-y-auto custom-scrollbar">
@@ -215,10 +626,51 @@ const App = () => {
                           </div>
                       </div>
                   </div>
+
+                  {data.playerType === 'native' && (
+                      <ChapterList
+                          chapters={chapters}
+                          bookmarkKey={bookmarkKey(data)}
+                          onSeek={(time) => playerRef.current?.seek(time)}
+                      />
+                  )}
+
+                  {/* Frame-grounded scene analysis */}
+                  {data.playerType === 'native' && (
+                      <FrameAnalysisCard
+                          video={data}
+                          cachedUrl={cachedUrl}
+                          onSeek={(time) => playerRef.current?.seek(time)}
+                          client={geminiClient}
+                      />
+                  )}
+
+                  {data.playerType === 'native' && (
+                      <StoryboardCard video={data} cachedUrl={cachedUrl} onPreviewTrack={setThumbnails} />
+                  )}
               </div>
 
               {/* Right: Sidebar Options (4 cols) */}
               <div className="lg:col-span-4 space-y-6">
+
+                  {/* Part / Episode Picker */}
+                  <PartPicker
+                      parts={data.parts}
+                      episodes={data.episodes}
+                      collectionTitle={data.collectionTitle}
+                      currentCid={data.currentCid}
+                      loadingCid={loadingPartCid}
+                      onSelect={handleSelectPart}
+                  />
+
+                  {data.playerType === 'native' && (
+                      <NotesPanel
+                          video={data}
+                          notesKey={historyEntryKey(data)}
+                          getVideo={() => playerRef.current?.getVideoElement() ?? null}
+                          onSeek={(time) => playerRef.current?.seek(time)}
+                      />
+                  )}
                   
                   {/* Download Card */}
                   <div className="glass-panel rounded-3xl p-6 shadow-xl flex flex-col h-full max-h-[600px]">
@@ -237,43 +689,91 @@ const App = () => {
                       )}
 
                       <div className="space-y-3 overflow-y-auto pr-2 custom-scrollbar flex-1">
-                          {data.sources.map((source, idx) => (
-                              <div key={idx} className="relative group overflow-hidden rounded-xl bg-white/40 dark:bg-white/5 border border-white/40 dark:border-white/10 hover:bg-white/60 dark:hover:bg-white/10 transition-all p-4">
-                                  <div className="flex items-center justify-between relative z-10">
-                                      <div>
-                                          <div className="font-bold text-sm text-slate-800 dark:text-slate-200 flex items-center gap-2">
-                                              <span className="px-1.5 py-0.5 rounded-md bg-slate-200 dark:bg-slate-700 text-[10px] tracking-wide text-slate-600 dark:text-slate-300">
-                                                  {source.format}
-                                              </span>
-                                              {source.quality}
+                          {[...data.sources, ...(data.audio || [])].map((source, idx) => {
+                              // Audio-only streams follow the video sources and can't be played on their own
+                              const isAudio = idx >= data.sources.length;
+                              const isPlayable = data.playerType === 'native' && !isAudio;
+                              const isActive = isPlayable && idx === sourceIndex;
+                              const details = describeSource(source);
+                              const download = downloads.find(d => d.job.url === downloadKey(source) && d.job.status !== 'completed');
+                              const isDownloading = download?.job.status === 'downloading' || download?.job.status === 'queued' || download?.job.status === 'assembling';
+                              return (
+                                  <React.Fragment key={idx}>
+                                  {idx === data.sources.length && (
+                                      <p className="pt-2 text-xs font-bold text-slate-500 dark:text-slate-400">仅音频</p>
+                                  )}
+                                  <div 
+                                      onClick={() => isPlayable && setSourceIndex(idx)}
+                                      className={`relative group overflow-hidden rounded-xl border transition-all p-4 ${isActive ? 'bg-primary-500/10 border-primary-500/30' : 'bg-white/40 dark:bg-white/5 border-white/40 dark:border-white/10 hover:bg-white/60 dark:hover:bg-white/10'} ${isPlayable ? 'cursor-pointer' : ''}`}
+                                  >
+                                      <div className="flex items-center justify-between relative z-10">
+                                          <div>
+                                              <div className="font-bold text-sm text-slate-800 dark:text-slate-200 flex items-center gap-2">
+                                                  <span className="px-1.5 py-0.5 rounded-md bg-slate-200 dark:bg-slate-700 text-[10px] tracking-wide text-slate-600 dark:text-slate-300">
+                                                      {source.format}
+                                                  </span>
+                                                  {source.label}
+                                                  {isActive && <Icons.Play className="w-3 h-3 fill-current text-primary-500" />}
+                                              </div>
+                                              {details && (
+                                                  <div className="text-xs text-slate-500 dark:text-slate-400 mt-1 font-mono opacity-80">{details}</div>
+                                              )}
                                           </div>
-                                          <div className="text-xs text-slate-500 dark:text-slate-400 mt-1 font-mono opacity-80">{source.size}</div>
+                                          
+                                          {/* A local file is already on disk */}
+                                          {source.isDownloadable && data.platform !== 'local' ? (
+                                              <button 
+                                                  onClick={(e) => { e.stopPropagation(); handleDownload(source, data.title); }}
+                                                  disabled={isDownloading}
+                                                  className="w-10 h-10 flex items-center justify-center rounded-full bg-slate-900 dark:bg-white text-white dark:text-slate-900 hover:scale-110 transition-transform shadow-lg disabled:opacity-50 disabled:scale-100"
+                                                  title={source.external ? '打开原始链接' : '下载'}
+                                              >
+                                                  {isDownloading ? (
+                                                      <span className="text-[10px] font-bold font-mono">{Math.round(download!.progress * 100)}%</span>
+                                                  ) : (
+                                                      <Icons.Download className="w-5 h-5" />
+                                                  )}
+                                              </button>
+                                          ) : (
+                                              <button className="text-slate-300 dark:text-slate-600 cursor-not-allowed">
+                                                  <Icons.Play className="w-5 h-5" />
+                                              </button>
+                                          )}
                                       </div>
-                                      
-                                      {source.isDownloadable ? (
-                                          <button 
-                                              onClick={() => forceDownload(source.url, `${data.title}.mp4`)}
-                                              disabled={downloadingUrl === source.url}
-                                              className="w-10 h-10 flex items-center justify-center rounded-full bg-slate-900 dark:bg-white text-white dark:text-slate-900 hover:scale-110 transition-transform shadow-lg disabled:opacity-50 disabled:scale-100"
-                                              title="下载"
-                                          >
-                                              {downloadingUrl === source.url ? (
-                                                  <Icons.Loader className="w-5 h-5 animate-spin"/>
-                                              ) : (
-                                                  <Icons.Download className="w-5 h-5" />
-                                              )}
-                                          </button>
-                                      ) : (
-                                          <button className="text-slate-300 dark:text-slate-600 cursor-not-allowed">
-                                              <Icons.Play className="w-5 h-5" />
-                                          </button>
-                                      )}
                                   </div>
-                              </div>
-                          ))}
+                                  </React.Fragment>
+                              );
+                          })}
                       </div>
                   </div>
 
+                  {data.playerType === 'native' && (
+                      <MediaInspectorCard
+                          video={data}
+                          source={data.sources[sourceIndex]}
+                          cachedUrl={cachedUrl}
+                          onInfo={setMediaInfo}
+                          onSeek={(time) => playerRef.current?.seek(time)}
+                      />
+                  )}
+
+                  <AudioExtractCard
+                      key={`${historyEntryKey(data)}:${data.currentCid ?? ''}`}
+                      video={data}
+                      activeSourceIndex={sourceIndex}
+                      cachedUrl={cachedUrl}
+                  />
+
+                  {/* AI Analysis Card */}
+                  <AISummaryCard
+                      key={data.id}
+                      video={data}
+                      onSummary={(summary) => handleSummary(data.id, summary)}
+                      client={geminiClient}
+                  />
+
+                  {data.trace && <DiagnosticsPanel steps={data.trace} />}
+
                   {/* Tips Card */}
                   <div className="glass-panel rounded-3xl p-6 shadow-xl">
                       <h3 className="font-bold text-sm mb-3 text-slate-700 dark:text-slate-200 flex items-center gap-2">
@@ -296,6 +796,23 @@ const App = () => {
           </div>
         )}
         
+        {dragging && (
+          <div className="fixed inset-4 z-50 rounded-3xl border-2 border-dashed border-primary-400/70 bg-slate-900/60 backdrop-blur-sm flex flex-col items-center justify-center gap-3 text-white pointer-events-none animate-fade-in-up">
+            <Icons.FolderOpen className="w-12 h-12 text-primary-300" />
+            <p className="text-xl font-bold">松开以打开本地视频</p>
+            <p className="text-sm text-slate-300">文件只在浏览器中读取，不会上传</p>
+          </div>
+        )}
+
+        <DownloadPanel />
+        <HistoryPanel
+          open={historyOpen}
+          onClose={() => setHistoryOpen(false)}
+          onOpen={handleOpenHistory}
+          activeKey={historyKey}
+        />
+        <SettingsPanel open={settingsOpen} onClose={() => setSettingsOpen(false)} />
+
         {/* Footer */}
         <footer className="mt-20 py-8 text-center text-xs text-slate-400 dark:text-slate-500 font-medium tracking-wide">
           <p>© 2024 VidParse Pro · Pure Glass Design</p>
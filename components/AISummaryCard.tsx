@@ -0,0 +1,126 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Icons } from '../constants';
+import { AISummary, ParsedVideoData } from '../types';
+import { GeminiClient, analyzeVideoMetadata } from '../services/geminiService';
+
+interface AISummaryCardProps {
+  video: ParsedVideoData;
+  // Called with a fresh, non-demo result so it can be stored on the parsed data
+  onSummary?: (summary: AISummary) => void;
+  // Overrides the configured Gemini client, e.g. with the offline fake
+  client?: GeminiClient;
+}
+
+type CardState = 'loading' | 'success' | 'error';
+
+const AISummaryCard: React.FC<AISummaryCardProps> = ({ video, onSummary, client }) => {
+  const [state, setState] = useState<CardState>(video.aiSummary ? 'success' : 'loading');
+  const [summary, setSummary] = useState<AISummary | null>(video.aiSummary || null);
+  const [error, setError] = useState('');
+  const requestRef = useRef(0);
+  // Latest props for re-analysis, which may run after a part switch or a description update
+  const latestRef = useRef({ video, onSummary, client });
+  latestRef.current = { video, onSummary, client };
+
+  // Only a different video or backend warrants a new request, not every update of the parsed data
+  const analyze = useCallback(async () => {
+    const { video, client } = latestRef.current;
+    const request = ++requestRef.current;
+    setState('loading');
+    setError('');
+    try {
+      const result = await analyzeVideoMetadata(video, { client });
+      if (request !== requestRef.current) return;
+      setSummary(result);
+      setState('success');
+      // Demo results are shown but never stored as the video's summary
+      if (!result.isMock) latestRef.current.onSummary?.(result);
+    } catch (e) {
+      if (request !== requestRef.current) return;
+      console.error("Gemini Analysis Failed:", e);
+      setError((e as Error).message || String(e));
+      setState('error');
+    }
+  }, [video.id, video.platform, client]);
+
+  useEffect(() => {
+    if (video.aiSummary) {
+      setSummary(video.aiSummary);
+      setState('success');
+      return;
+    }
+    analyze();
+    return () => { requestRef.current++; };
+  }, [analyze]);
+
+  return (
+    <div className="glass-panel rounded-3xl p-6 shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+          <div className="p-2 rounded-lg bg-purple-500/10 text-purple-600 dark:text-purple-400">
+            <Icons.Bot className="w-5 h-5" />
+          </div>
+          AI 分析
+        </h3>
+        {state !== 'loading' && (
+          <button
+            onClick={analyze}
+            className="text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-300 transition-colors"
+          >
+            重新分析
+          </button>
+        )}
+      </div>
+
+      {state === 'loading' && (
+        <div className="flex items-center gap-3 text-sm text-slate-500 dark:text-slate-400 py-4">
+          <Icons.Loader className="w-5 h-5 animate-spin" />
+          正在分析视频信息...
+        </div>
+      )}
+
+      {state === 'error' && (
+        <div className="text-sm text-red-600 dark:text-red-300 bg-red-500/5 border border-red-500/20 rounded-xl p-4 flex flex-col gap-3">
+          <div className="flex gap-2">
+            <Icons.AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+            <p>分析失败：{error}</p>
+          </div>
+          <button
+            onClick={analyze}
+            className="self-start px-4 py-1.5 rounded-lg bg-red-500/10 hover:bg-red-500/20 font-bold text-xs transition-colors"
+          >
+            重试
+          </button>
+        </div>
+      )}
+
+      {state === 'success' && summary && (
+        <div className="space-y-4">
+          {summary.isMock && (
+            <div className="text-xs font-medium text-amber-700 dark:text-amber-300 bg-amber-500/10 border border-amber-500/20 p-3 rounded-xl flex gap-2">
+              <Icons.AlertTriangle className="w-4 h-4 shrink-0" />
+              <p>
+                {client
+                  ? '以下数据由本地模拟客户端生成，未请求 Gemini，并非对该视频的真实分析。'
+                  : '未配置 Gemini API Key，以下为演示数据，并非对该视频的真实分析。'}
+              </p>
+            </div>
+          )}
+          <p className={`text-sm leading-relaxed text-slate-700 dark:text-slate-300 ${summary.isMock ? 'opacity-60' : ''}`}>{summary.summary}</p>
+          <div className="flex flex-wrap gap-2">
+            {summary.tags.map(tag => (
+              <span key={tag} className="px-2.5 py-1 rounded-full text-xs font-medium bg-primary-500/10 text-primary-700 dark:text-primary-300">
+                #{tag}
+              </span>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            情感倾向：<span className="font-semibold text-slate-700 dark:text-slate-200">{summary.sentiment}</span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AISummaryCard;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Icons } from '../constants';
+import { ParsedVideoData, VideoSource } from '../types';
+import { AudioFormat, extractAudio, fetchCover, fetchMedia, LOUDNESS_TARGETS } from '../services/audioService';
+import { saveBlob } from '../services/fileService';
+import { safeFilename } from '../services/formatters';
+
+interface AudioExtractCardProps {
+  video: ParsedVideoData;
+  // Source playing in the player, and its cached Blob URL if the whole file is loaded
+  activeSourceIndex: number;
+  cachedUrl: string | null;
+}
+
+type Phase = 'download' | 'remux' | 'decode' | 'encode';
+
+const PHASE_LABELS: Record<Phase, string> = {
+  download: '正在下载视频',
+  remux: '正在分离音轨',
+  decode: '正在解码音频',
+  encode: '正在编码',
+};
+
+// Only single-file MP4s can be taken apart in the browser
+const isProgressiveMp4 = (source: VideoSource) =>
+  !!source.isDownloadable && !source.external && !source.manifest && (source.mime === 'video/mp4' || source.format === 'MP4');
+
+const AudioExtractCard: React.FC<AudioExtractCardProps> = ({ video, activeSourceIndex, cachedUrl }) => {
+  const candidates = video.sources.map((source, index) => ({ source, index })).filter(({ source }) => isProgressiveMp4(source));
+  // Audio is the same in every quality, so the smallest file is the quickest to fetch
+  const defaultIndex = candidates.some(c => c.index === activeSourceIndex) && cachedUrl
+    ? activeSourceIndex
+    : candidates[candidates.length - 1]?.index;
+
+  const [sourceIndex, setSourceIndex] = useState<number | undefined>(defaultIndex);
+  const [format, setFormat] = useState<AudioFormat>('m4a');
+  const [normalize, setNormalize] = useState<number | undefined>(undefined);
+  const [embedTags, setEmbedTags] = useState(true);
+  const [phase, setPhase] = useState<Phase | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  if (video.playerType !== 'native' || candidates.length === 0) return null;
+  const selected = candidates.find(c => c.index === sourceIndex) || candidates[0];
+
+  const handleExtract = async () => {
+    setError(null);
+    setProgress(0);
+    setPhase('download');
+    try {
+      const useCache = selected.index === activeSourceIndex && cachedUrl;
+      const [mp4, cover] = await Promise.all([
+        fetchMedia(useCache ? cachedUrl! : selected.source.url, setProgress),
+        embedTags && video.thumbnailUrl ? fetchCover(video.thumbnailUrl) : Promise.resolve(undefined),
+      ]);
+      const blob = await extractAudio(mp4, {
+        format,
+        normalize,
+        tags: embedTags ? { title: video.title, comment: video.sourceUrl, cover } : {},
+        onPhase: setPhase,
+      });
+      saveBlob(blob, `${safeFilename(video.title)}.${format}`);
+    } catch (e) {
+      console.error("Audio extraction failed", e);
+      setError((e as Error).message || '提取失败');
+    } finally {
+      setPhase(null);
+    }
+  };
+
+  const busy = phase != null;
+  const choice = (active: boolean) =>
+    `flex-1 py-2 rounded-lg text-xs font-bold transition-colors border ${active ? 'bg-primary-500 border-primary-500 text-white' : 'border-slate-200/50 dark:border-white/10 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10'}`;
+  const inputClass = 'w-full bg-white/50 dark:bg-black/20 border border-slate-200/50 dark:border-white/10 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-primary-500/40';
+
+  return (
+    <div className="glass-panel rounded-3xl p-6 shadow-xl">
+      <h3 className="text-lg font-bold mb-4 flex items-center gap-2 text-slate-800 dark:text-white">
+        <div className="p-2 rounded-lg bg-pink-500/10 text-pink-600 dark:text-pink-400">
+          <Icons.Music className="w-5 h-5" />
+        </div>
+        音频提取
+      </h3>
+
+      <div className="space-y-4">
+        {candidates.length > 1 && (
+          <label className="block text-xs text-slate-500 dark:text-slate-400">
+            来源
+            <select
+              value={selected.index}
+              onChange={(e) => setSourceIndex(parseInt(e.target.value, 10))}
+              disabled={busy}
+              className={`${inputClass} mt-1`}
+            >
+              {candidates.map(({ source, index }) => (
+                <option key={index} value={index}>
+                  {source.label}{index === activeSourceIndex && cachedUrl ? ' (已缓存)' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={() => setFormat('m4a')} disabled={busy} className={choice(format === 'm4a')}>M4A · 原始音质</button>
+          <button onClick={() => setFormat('wav')} disabled={busy} className={choice(format === 'wav')}>WAV · 无损 PCM</button>
+        </div>
+
+        <label className="block text-xs text-slate-500 dark:text-slate-400">
+          响度标准化
+          <select
+            value={normalize ?? ''}
+            onChange={(e) => setNormalize(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+            disabled={busy}
+            className={`${inputClass} mt-1`}
+          >
+            <option value="">不调整</option>
+            {LOUDNESS_TARGETS.map(t => <option key={t.lufs} value={t.lufs}>{t.label}</option>)}
+          </select>
+          {normalize != null && format === 'm4a' && (
+            <span className="block mt-1 text-[11px]">M4A 不重新编码，以 ReplayGain 标签写入增益</span>
+          )}
+        </label>
+
+        <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={embedTags} onChange={(e) => setEmbedTags(e.target.checked)} disabled={busy} className="accent-primary-500" />
+          写入标题与封面
+        </label>
+
+        {busy ? (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+              <span>{PHASE_LABELS[phase!]}</span>
+              {phase === 'download' && <span className="font-mono">{Math.round(progress * 100)}%</span>}
+            </div>
+            <div className="h-1.5 bg-slate-200 dark:bg-white/10 rounded-full overflow-hidden">
+              <div
+                className={`h-full bg-gradient-to-r from-primary-500 to-purple-500 transition-all duration-300 ${phase === 'download' ? '' : 'animate-pulse'}`}
+                style={{ width: phase === 'download' ? `${progress * 100}%` : '100%' }}
+              ></div>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={handleExtract}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-slate-900 dark:bg-white hover:bg-slate-800 dark:hover:bg-slate-200 text-white dark:text-slate-900 rounded-xl font-bold transition-all shadow-lg"
+          >
+            <Icons.Download className="w-4 h-4" />
+            提取音频
+          </button>
+        )}
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default AudioExtractCard;
@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Icons } from '../constants';
+import { BatchItem, BatchStatus, ParsedVideoData } from '../types';
+import { batchToCsv, bestDownloadableSource, extractUrls, parseBatch } from '../services/batchService';
+import { queueDownload } from '../services/downloadManager';
+import { historyStore } from '../services/historyService';
+import { saveBlob } from '../services/fileService';
+
+// Links handed over from elsewhere (e.g. a video list) to parse right away
+export interface BatchRequest {
+  inputs: string[];
+  // Queue the best downloadable source of every parsed video
+  download: boolean;
+}
+
+interface BatchPanelProps {
+  // Shows one parsed row in the regular result view
+  onOpen: (input: string, data: ParsedVideoData) => void;
+  request?: BatchRequest | null;
+}
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  pending: '等待中',
+  parsing: '解析中',
+  done: '成功',
+  error: '失败',
+};
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  pending: 'bg-slate-200/60 dark:bg-white/10 text-slate-500 dark:text-slate-400',
+  parsing: 'bg-primary-500/10 text-primary-600 dark:text-primary-300',
+  done: 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400',
+  error: 'bg-red-500/10 text-red-600 dark:text-red-400',
+};
+
+// Queues the best downloadable source of a parsed video; false when it has none
+const queueBest = async (data: ParsedVideoData): Promise<boolean> => {
+  const source = bestDownloadableSource(data);
+  if (!source) return false;
+  try {
+    await queueDownload(source, data.title);
+    return true;
+  } catch (e) {
+    console.error("Failed to queue download", e);
+    return false;
+  }
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ onOpen, request }) => {
+  const [text, setText] = useState('');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [running, setRunning] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [autoDownload, setAutoDownload] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const urls = useMemo(() => extractUrls(text), [text]);
+  const doneIndexes = items.map((item, i) => (item.status === 'done' ? i : -1)).filter(i => i >= 0);
+  const failedCount = items.filter(i => i.status === 'error').length;
+  const finished = items.filter(i => i.status === 'done' || i.status === 'error').length;
+
+  // Parses the rows at `indexes`, writing progress back into the table
+  const run = async (rows: BatchItem[], indexes: number[], download = autoDownload) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setNotice('');
+    const queued: Promise<boolean>[] = [];
+    // Stopped, or replaced by a newer run whose rows share the same indexes
+    const stale = () => controllerRef.current !== controller || controller.signal.aborted;
+    try {
+      await parseBatch(indexes.map(i => rows[i].input), {
+        signal: controller.signal,
+        onUpdate: (n, item) => {
+          if (stale()) return;
+          setItems(prev => prev.map((old, i) => (i === indexes[n] ? item : old)));
+        },
+        onParsed: (input, data) => {
+          if (stale()) return;
+          historyStore.record(input, data);
+          if (download) queued.push(queueBest(data));
+        },
+      });
+      if (download) {
+        const count = (await Promise.all(queued)).filter(Boolean).length;
+        if (controllerRef.current === controller) setNotice(`已自动加入下载队列 ${count} 项`);
+      }
+    } finally {
+      // A newer run may have taken over
+      if (controllerRef.current === controller) setRunning(false);
+    }
+  };
+
+  // Rows that were parsing go back to waiting right away; their late results are ignored
+  const stop = () => {
+    controllerRef.current?.abort();
+    setItems(prev => prev.map(item => (item.status === 'parsing' ? { ...item, status: 'pending' } : item)));
+    setRunning(false);
+  };
+
+  const start = (inputs: string[], download = autoDownload) => {
+    const rows: BatchItem[] = inputs.map(input => ({ input, status: 'pending' }));
+    setItems(rows);
+    setSelected(new Set());
+    run(rows, rows.map((_, i) => i), download);
+  };
+
+  const handleStart = () => {
+    if (urls.length === 0 || running) return;
+    start(urls);
+  };
+
+  useEffect(() => {
+    if (!request?.inputs.length) return;
+    setText(request.inputs.join('\n'));
+    setAutoDownload(request.download);
+    start(request.inputs, request.download);
+  }, [request]);
+
+  const handleRetryFailed = () => {
+    const failed = items.map((item, i) => (item.status === 'error' ? i : -1)).filter(i => i >= 0);
+    if (failed.length) run(items, failed);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    setText(prev => (prev.trim() ? `${prev}\n${content}` : content));
+  };
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const allSelected = doneIndexes.length > 0 && doneIndexes.every(i => selected.has(i));
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(doneIndexes));
+
+  const selectedItems = [...selected].sort((a, b) => a - b).map(i => items[i]).filter(Boolean);
+
+  const handleDownload = async () => {
+    let queued = 0;
+    for (const item of selectedItems) {
+      if (item.data && await queueBest(item.data)) queued++;
+    }
+    const skipped = selectedItems.length - queued;
+    setNotice(`已加入下载队列 ${queued} 项${skipped ? `，${skipped} 项无可下载的直链` : ''}`);
+  };
+
+  const handleExport = () => {
+    const rows = selectedItems.length ? selectedItems : items;
+    saveBlob(new Blob([batchToCsv(rows)], { type: 'text/csv;charset=utf-8' }), `batch_${Date.now()}.csv`);
+  };
+
+  const handleCopyLinks = async () => {
+    const links = selectedItems
+      .map(item => item.data && bestDownloadableSource(item.data)?.url)
+      .filter(Boolean)
+      .join('\n');
+    try {
+      await navigator.clipboard.writeText(links);
+      setNotice('直链已复制到剪贴板');
+    } catch {
+      setNotice('复制失败，请检查剪贴板权限');
+    }
+  };
+
+  const actionButton = 'px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-200/60 dark:bg-white/10 text-slate-700 dark:text-slate-200 hover:bg-slate-300/60 dark:hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="w-full space-y-6">
+      <div className="glass-panel rounded-3xl p-6 shadow-xl">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'每行一个链接，或直接粘贴聊天记录 / 表格内容，会自动识别其中的视频链接'}
+          rows={6}
+          className="w-full bg-white/50 dark:bg-black/20 border border-slate-200/50 dark:border-white/10 rounded-2xl p-4 text-sm font-mono text-slate-800 dark:text-white placeholder-slate-400 outline-none focus:ring-2 focus:ring-primary-500/40 resize-y custom-scrollbar"
+        />
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+          <div className="flex items-center gap-3 text-sm text-slate-500 dark:text-slate-400">
+            <button onClick={() => fileInputRef.current?.click()} className={actionButton}>
+              导入 .txt / .csv
+            </button>
+            <input ref={fileInputRef} type="file" accept=".txt,.csv,text/plain,text/csv" className="hidden" onChange={handleFile} />
+            识别到 <span className="font-bold text-slate-800 dark:text-white">{urls.length}</span> 个链接
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input type="checkbox" checked={autoDownload} onChange={(e) => setAutoDownload(e.target.checked)} disabled={running} />
+              解析后自动下载
+            </label>
+          </div>
+          {running ? (
+            <button
+              onClick={stop}
+              className="px-6 py-2.5 rounded-xl bg-red-500/10 text-red-600 dark:text-red-300 font-bold text-sm hover:bg-red-500/20 transition-colors flex items-center gap-2"
+            >
+              <Icons.Loader className="w-4 h-4 animate-spin" />
+              停止 ({finished}/{items.length})
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={urls.length === 0}
+              className="px-6 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl font-bold text-sm transition-all shadow-lg hover:-translate-y-0.5 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+            >
+              批量解析
+            </button>
+          )}
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <div className="glass-panel rounded-3xl p-6 shadow-xl">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              共 {items.length} 个 · 成功 {doneIndexes.length} · 失败 {failedCount}
+              {selected.size > 0 && <> · 已选 {selected.size}</>}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {failedCount > 0 && !running && (
+                <button onClick={handleRetryFailed} className={actionButton}>重试失败项</button>
+              )}
+              <button onClick={handleDownload} disabled={selected.size === 0} className={actionButton}>下载所选</button>
+              <button onClick={handleCopyLinks} disabled={selected.size === 0} className={actionButton}>复制直链</button>
+              <button onClick={handleExport} className={actionButton}>{selected.size ? '导出所选 CSV' : '导出全部 CSV'}</button>
+            </div>
+          </div>
+          {notice && <p className="text-xs text-primary-600 dark:text-primary-300 mb-3">{notice}</p>}
+
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 dark:text-slate-400 border-b border-slate-200/50 dark:border-white/10">
+                  <th className="py-2 pr-2 w-8">
+                    <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={doneIndexes.length === 0} />
+                  </th>
+                  <th className="py-2 pr-3 w-20">状态</th>
+                  <th className="py-2 pr-3">视频</th>
+                  <th className="py-2 pr-3 w-24">平台</th>
+                  <th className="py-2 w-24">画质</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item, index) => {
+                  const source = item.data && bestDownloadableSource(item.data);
+                  return (
+                    <tr key={`${index}-${item.input}`} className="border-b border-slate-200/30 dark:border-white/5 last:border-0 align-top">
+                      <td className="py-2.5 pr-2">
+                        <input type="checkbox" checked={selected.has(index)} onChange={() => toggle(index)} disabled={item.status !== 'done'} />
+                      </td>
+                      <td className="py-2.5 pr-3">
+                        <span className={`px-2 py-0.5 rounded-full text-[11px] font-bold whitespace-nowrap ${STATUS_STYLES[item.status]}`}>
+                          {STATUS_LABELS[item.status]}
+                        </span>
+                      </td>
+                      <td className="py-2.5 pr-3 min-w-0">
+                        {item.data ? (
+                          <button
+                            onClick={() => onOpen(item.input, item.data!)}
+                            className="text-left font-semibold text-slate-800 dark:text-slate-200 hover:text-primary-600 dark:hover:text-primary-300 transition-colors line-clamp-1"
+                            title="查看详情"
+                          >
+                            {item.data.title}
+                          </button>
+                        ) : null}
+                        <p className="text-[11px] font-mono text-slate-500 dark:text-slate-400 truncate max-w-md" title={item.input}>{item.input}</p>
+                        {item.error && <p className="text-[11px] text-red-500 mt-0.5">{item.error}</p>}
+                      </td>
+                      <td className="py-2.5 pr-3 text-xs font-bold uppercase text-slate-600 dark:text-slate-300">{item.data?.platform || '-'}</td>
+                      <td className="py-2.5 text-xs text-slate-600 dark:text-slate-300">{source?.label || (item.data ? '不可下载' : '-')}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
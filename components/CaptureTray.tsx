@@ -0,0 +1,277 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icons } from '../constants';
+import { CaptureFormat } from '../types';
+import { CAPTURE_FORMATS, CapturedStill, captureRange, MAX_RANGE_FRAMES, RangeMode, rangeTimes, stillFilename, stillsZip } from '../services/captureService';
+import { saveBlob } from '../services/fileService';
+import { formatBytes } from '../services/formatters';
+import { updateSettings } from '../services/settings';
+import { useSettings } from './SettingsPanel';
+
+interface CaptureTrayProps {
+  stills: CapturedStill[];
+  videoId: string;
+  // Cached Blob URL; range captures read their frames from it
+  src: string | null;
+  duration: number;
+  frameDuration: number;
+  getCurrentTime: () => number;
+  // Clip markers, used as the initial range when set
+  range?: { start: number; end: number } | null;
+  onAdd: (still: CapturedStill) => void;
+  onRemove: (ids: string[]) => void;
+  onSeek: (time: number) => void;
+}
+
+const formatStamp = (time: number) => {
+  const ms = Math.round(time * 1000);
+  const m = Math.floor(ms / 60000);
+  const s = Math.floor(ms / 1000) % 60;
+  return `${m}:${s < 10 ? '0' : ''}${s}.${String(ms % 1000).padStart(3, '0')}`;
+};
+
+const CaptureTray: React.FC<CaptureTrayProps> = ({ stills, videoId, src, duration, frameDuration, getCurrentTime, range, onAdd, onRemove, onSeek }) => {
+  const capture = useSettings().capture;
+  const [mode, setMode] = useState<RangeMode>('burst');
+  const [start, setStart] = useState(() => range?.start ?? getCurrentTime());
+  const [end, setEnd] = useState(() => range?.end ?? Math.min(duration || Infinity, getCurrentTime() + 1));
+  const [interval, setIntervalSeconds] = useState(5);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // New stills start out selected, so only the opt-outs are tracked
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (range) {
+      setStart(range.start);
+      setEnd(range.end);
+    }
+  }, [range?.start, range?.end]);
+
+  const active = stills.find(s => s.id === activeId) || stills[stills.length - 1];
+  const selected = stills.filter(s => !deselected.has(s.id));
+  const plannedFrames = end > start ? rangeTimes({ mode, start, end, interval, frameDuration }).length : 0;
+  const busy = progress != null;
+
+  const setFormat = (format: CaptureFormat) => updateSettings({ capture: { ...capture, format } });
+
+  const runCapture = async () => {
+    if (!src) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      await captureRange(src, {
+        ...capture,
+        mode, start, end, interval, frameDuration,
+        signal: controller.signal,
+        onFrame: onAdd,
+        onProgress: setProgress,
+      });
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error("Range capture failed", e);
+        setError((e as Error).message || String(e));
+      }
+    } finally {
+      if (controllerRef.current === controller) setProgress(null);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setDeselected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const downloadZip = async () => {
+    if (selected.length === 0) return;
+    if (selected.length === 1) return saveBlob(selected[0].blob, stillFilename(videoId, selected[0]));
+    saveBlob(await stillsZip(videoId, selected), `${videoId}_frames.zip`);
+  };
+
+  const removeUnselected = () => {
+    onRemove(stills.filter(s => deselected.has(s.id)).map(s => s.id));
+    setDeselected(new Set());
+  };
+
+  const choice = (on: boolean) =>
+    `px-3 py-1.5 rounded-lg text-xs font-bold transition-colors border ${on ? 'bg-primary-500 border-primary-500 text-white' : 'border-slate-200/50 dark:border-white/10 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10'}`;
+  const inputClass = 'w-24 bg-white/50 dark:bg-black/20 border border-slate-200/50 dark:border-white/10 rounded-lg px-2 py-1 text-xs font-mono text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-primary-500/40';
+  const linkButton = 'text-xs font-bold text-slate-500 dark:text-slate-400 hover:text-primary-500 transition-colors disabled:opacity-40';
+
+  return (
+    <div id="capture-preview" className="animate-fade-in-up glass-panel rounded-3xl p-6 shadow-2xl ring-2 ring-primary-500/20 space-y-5">
+      <div className="flex items-center justify-between border-b border-white/10 pb-4">
+        <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2">
+          <div className="p-1.5 bg-primary-500 rounded-lg shadow-lg shadow-primary-500/30">
+            <Icons.Camera className="w-4 h-4 text-white" />
+          </div>
+          帧捕获
+          {stills.length > 0 && <span className="text-xs font-normal text-slate-400">{stills.length} 张</span>}
+        </h3>
+        <button
+          onClick={() => { controllerRef.current?.abort(); onRemove(stills.map(s => s.id)); }}
+          title="清空并关闭"
+          className="p-2 hover:bg-slate-100 dark:hover:bg-white/10 rounded-full transition-colors text-slate-500 dark:text-slate-400"
+        >
+          <Icons.Close className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Output format, shared with the single-frame capture button */}
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+        <span className="w-12">格式</span>
+        {(Object.keys(CAPTURE_FORMATS) as CaptureFormat[]).map(format => (
+          <button key={format} onClick={() => setFormat(format)} className={choice(capture.format === format)}>{CAPTURE_FORMATS[format].label}</button>
+        ))}
+        {capture.format !== 'png' && (
+          <label className="flex items-center gap-2 ml-2">
+            质量
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.01}
+              value={capture.quality}
+              onChange={(e) => updateSettings({ capture: { ...capture, quality: parseFloat(e.target.value) } })}
+              className="w-24 accent-primary-500"
+            />
+            <span className="font-mono w-8">{Math.round(capture.quality * 100)}</span>
+          </label>
+        )}
+      </div>
+
+      {/* Range capture */}
+      <div className="p-4 rounded-2xl bg-slate-100/50 dark:bg-black/20 border border-slate-200/50 dark:border-white/5 space-y-3 text-xs text-slate-500 dark:text-slate-400">
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => setMode('burst')} disabled={busy} className={choice(mode === 'burst')}>连拍 · 逐帧</button>
+          <button onClick={() => setMode('interval')} disabled={busy} className={choice(mode === 'interval')}>定时 · 每隔 N 秒</button>
+          {mode === 'interval' && (
+            <label className="flex items-center gap-1 ml-1">
+              每
+              <input type="number" min={0.1} step={0.1} value={interval} disabled={busy} onChange={(e) => setIntervalSeconds(Math.max(0.1, parseFloat(e.target.value) || 0.1))} className={`${inputClass} w-16`} />
+              秒
+            </label>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <label className="flex items-center gap-1">
+            起点
+            <input type="number" min={0} step={0.001} value={Number(start.toFixed(3))} disabled={busy} onChange={(e) => setStart(Math.max(0, parseFloat(e.target.value) || 0))} className={inputClass} />
+            <button onClick={() => setStart(getCurrentTime())} disabled={busy} className={linkButton}>当前</button>
+          </label>
+          <label className="flex items-center gap-1">
+            终点
+            <input type="number" min={0} step={0.001} value={Number(end.toFixed(3))} disabled={busy} onChange={(e) => setEnd(Math.max(0, parseFloat(e.target.value) || 0))} className={inputClass} />
+            <button onClick={() => setEnd(getCurrentTime())} disabled={busy} className={linkButton}>当前</button>
+            {mode === 'interval' && duration > 0 && (
+              <button onClick={() => { setStart(0); setEnd(duration); }} disabled={busy} className={`${linkButton} ml-1`}>整段</button>
+            )}
+          </label>
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <span className={plannedFrames > MAX_RANGE_FRAMES ? 'text-red-500' : ''}>
+            {mode === 'burst' ? `约 ${Math.round(1 / frameDuration)} fps · ` : ''}共 {plannedFrames} 帧{plannedFrames > MAX_RANGE_FRAMES ? ` (上限 ${MAX_RANGE_FRAMES})` : ''}
+          </span>
+          {busy ? (
+            <button onClick={() => controllerRef.current?.abort()} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-bold">
+              <Icons.Loader className="w-4 h-4 animate-spin" />
+              {Math.round(progress! * 100)}% · 取消
+            </button>
+          ) : (
+            <button
+              onClick={runCapture}
+              disabled={!src || plannedFrames === 0 || plannedFrames > MAX_RANGE_FRAMES}
+              title={src ? undefined : '需等待视频缓存完成'}
+              className="px-4 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-bold transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              开始捕获
+            </button>
+          )}
+        </div>
+        {!src && <p>范围捕获需等待视频缓存完成。</p>}
+        {error && <p className="text-red-500">{error}</p>}
+      </div>
+
+      {active && (
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="flex-1 relative rounded-2xl overflow-hidden bg-gradient-to-br from-slate-100 to-slate-200 dark:from-slate-800 dark:to-slate-900 border border-white/20 shadow-inner flex items-center justify-center min-h-[240px]">
+            {/* Checkerboard pattern for transparency */}
+            <div className="absolute inset-0 opacity-20" style={{backgroundImage: 'radial-gradient(#444 1px, transparent 1px)', backgroundSize: '10px 10px'}}></div>
+            <img src={active.url} alt="Captured Frame" className="relative z-10 max-w-full max-h-[400px] object-contain shadow-2xl rounded-lg" />
+          </div>
+
+          <div className="w-full md:w-64 flex flex-col justify-center gap-4">
+            <div className="p-4 rounded-xl bg-blue-500/5 border border-blue-500/10 space-y-0.5">
+              <h4 className="text-sm font-bold text-blue-600 dark:text-blue-400 mb-1">高清原图</h4>
+              <p className="text-xs text-slate-500 dark:text-slate-400">分辨率: {active.width} x {active.height}</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                时间点: <button onClick={() => onSeek(active.time)} className="font-mono hover:text-primary-500">{formatStamp(active.time)}</button>
+              </p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{CAPTURE_FORMATS[active.format].label} · {formatBytes(active.blob.size)}</p>
+            </div>
+
+            <button
+              onClick={() => saveBlob(active.blob, stillFilename(videoId, active))}
+              className="w-full flex items-center justify-center gap-2 px-6 py-4 bg-slate-900 dark:bg-white hover:bg-slate-800 dark:hover:bg-slate-200 text-white dark:text-slate-900 rounded-xl font-bold transition-all shadow-xl hover:shadow-2xl hover:-translate-y-0.5 active:translate-y-0"
+            >
+              <Icons.Download className="w-5 h-5" />
+              保存到本地
+            </button>
+          </div>
+        </div>
+      )}
+
+      {stills.length > 1 && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-64 overflow-y-auto custom-scrollbar pr-1">
+            {stills.map(still => {
+              const isSelected = !deselected.has(still.id);
+              return (
+                <div
+                  key={still.id}
+                  onClick={() => setActiveId(still.id)}
+                  className={`relative rounded-lg overflow-hidden cursor-pointer border-2 transition-all ${still.id === active?.id ? 'border-primary-500' : 'border-transparent'} ${isSelected ? '' : 'opacity-40'}`}
+                >
+                  <img src={still.url} alt="" className="w-full aspect-video object-cover bg-black" />
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => toggleSelected(still.id)}
+                    className="absolute top-1 left-1 accent-primary-500"
+                  />
+                  <span className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-[10px] font-mono text-center">{formatStamp(still.time)}</span>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <button onClick={() => setDeselected(new Set())} className={linkButton}>全选</button>
+            <button onClick={() => setDeselected(new Set(stills.map(s => s.id)))} className={linkButton}>全不选</button>
+            <button onClick={removeUnselected} disabled={selected.length === stills.length} className={linkButton}>移除未选</button>
+            <button
+              onClick={downloadZip}
+              disabled={selected.length === 0}
+              className="ml-auto flex items-center gap-2 px-4 py-2 rounded-xl bg-primary-500 hover:bg-primary-600 text-white text-xs font-bold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Icons.Download className="w-4 h-4" />
+              下载所选 ({selected.length}) · ZIP
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaptureTray;
@@ -0,0 +1,86 @@
+import React, { useSyncExternalStore } from 'react';
+import { Icons } from '../constants';
+import { Chapter, ChapterSource } from '../types';
+import { getBookmarks, removeBookmark, renameBookmark, subscribeBookmarks } from '../services/bookmarks';
+
+export const useBookmarks = (key: string): Chapter[] =>
+  useSyncExternalStore(subscribeBookmarks, () => getBookmarks(key));
+
+interface ChapterListProps {
+  // Platform or description chapters, followed by the user's bookmarks
+  chapters: Chapter[];
+  bookmarkKey: string;
+  onSeek: (time: number) => void;
+}
+
+const SOURCE_LABELS: Record<ChapterSource, string> = {
+  platform: '官方章节',
+  description: '简介时间轴',
+  bookmark: '书签',
+};
+
+const formatTime = (time: number) => {
+  const h = Math.floor(time / 3600);
+  const m = Math.floor((time % 3600) / 60);
+  const s = Math.floor(time % 60);
+  return `${h > 0 ? `${h}:${m < 10 ? '0' : ''}` : ''}${m}:${s < 10 ? '0' : ''}${s}`;
+};
+
+const ChapterList: React.FC<ChapterListProps> = ({ chapters, bookmarkKey, onSeek }) => {
+  if (chapters.length === 0) return null;
+  const sorted = [...chapters].sort((a, b) => a.start - b.start);
+  const sources = [...new Set(chapters.map(c => c.source))];
+
+  return (
+    <div className="glass-panel rounded-3xl p-6 shadow-xl">
+      <h3 className="text-lg font-bold mb-4 flex items-center gap-2 text-slate-800 dark:text-white">
+        <div className="p-2 rounded-lg bg-amber-500/10 text-amber-600 dark:text-amber-400">
+          <Icons.Bookmark className="w-5 h-5" />
+        </div>
+        章节与书签
+        <span className="ml-auto text-xs font-normal text-slate-400">{sources.map(s => SOURCE_LABELS[s]).join(' · ')}</span>
+      </h3>
+
+      <ul className="space-y-1 max-h-80 overflow-y-auto custom-scrollbar pr-1">
+        {sorted.map(chapter => (
+          <li key={chapter.id} className="group flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-slate-100 dark:hover:bg-white/5 transition-colors">
+            <button
+              onClick={() => onSeek(chapter.start)}
+              className="font-mono text-xs font-bold text-primary-600 dark:text-primary-400 hover:underline shrink-0 w-14 text-left"
+            >
+              {formatTime(chapter.start)}
+            </button>
+            {chapter.source === 'bookmark' ? (
+              <>
+                <Icons.Bookmark className="w-3.5 h-3.5 text-amber-500 shrink-0" />
+                <input
+                  defaultValue={chapter.title}
+                  onBlur={(e) => {
+                    const title = e.target.value.trim();
+                    if (title && title !== chapter.title) renameBookmark(bookmarkKey, chapter.id, title);
+                    else e.target.value = chapter.title;
+                  }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                  className="flex-1 min-w-0 bg-transparent text-sm text-slate-700 dark:text-slate-200 outline-none border-b border-transparent focus:border-primary-500"
+                />
+                <button
+                  onClick={() => removeBookmark(bookmarkKey, chapter.id)}
+                  title="删除书签"
+                  className="p-1 rounded-md text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <Icons.Trash className="w-3.5 h-3.5" />
+                </button>
+              </>
+            ) : (
+              <button onClick={() => onSeek(chapter.start)} className="flex-1 min-w-0 truncate text-left text-sm text-slate-700 dark:text-slate-200">
+                {chapter.title}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ChapterList;
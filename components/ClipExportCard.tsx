@@ -0,0 +1,180 @@
+import React, { useRef, useState } from 'react';
+import { Icons } from '../constants';
+import { CLIP_FORMATS, ClipFormat, exportClip, webmSupported } from '../services/clipService';
+import { saveBlob } from '../services/fileService';
+import { safeFilename } from '../services/formatters';
+
+interface ClipExportCardProps {
+  start: number;
+  end: number;
+  // Cached Blob URL of the video; null while it is still streaming
+  src: string | null;
+  sourceWidth: number;
+  title?: string;
+  onSetStart: () => void;
+  onSetEnd: () => void;
+  onPreview: () => void;
+  onClose: () => void;
+}
+
+const WIDTHS = [320, 480, 640, 960, 0]; // 0 keeps the source width
+
+const ClipExportCard: React.FC<ClipExportCardProps> = ({ start, end, src, sourceWidth, title, onSetStart, onSetEnd, onPreview, onClose }) => {
+  const [format, setFormat] = useState<ClipFormat>('gif');
+  const [width, setWidth] = useState(480);
+  const [fps, setFps] = useState(12);
+  const [quality, setQuality] = useState(0.7);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const length = Math.max(0, end - start);
+  const frames = Math.max(1, Math.round(length * fps));
+  const outputWidth = width && width < sourceWidth ? width : sourceWidth;
+  const exporting = progress != null;
+
+  const handleExport = async () => {
+    if (!src) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const blob = await exportClip(src, {
+        start, end, format, fps, quality,
+        width: outputWidth,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      const range = `${clipTime(start)}-${clipTime(end)}`.replace(/:/g, '.');
+      saveBlob(blob, `${safeFilename(`${title || 'clip'}_${range}`)}.${CLIP_FORMATS[format].ext}`);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error("Clip export failed", e);
+        setError((e as Error).message || '导出失败');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const optionButton = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-xs font-bold transition-colors border ${active ? 'bg-primary-500 border-primary-500 text-white' : 'border-slate-200/50 dark:border-white/10 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10'}`;
+
+  return (
+    <div className="animate-fade-in-up glass-panel rounded-3xl p-6 shadow-2xl ring-2 ring-primary-500/20">
+      <div className="flex items-center justify-between mb-4 border-b border-white/10 pb-4">
+        <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2">
+          <div className="p-1.5 bg-primary-500 rounded-lg shadow-lg shadow-primary-500/30">
+            <Icons.Scissors className="w-4 h-4 text-white" />
+          </div>
+          片段导出
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-slate-100 dark:hover:bg-white/10 rounded-full transition-colors text-slate-500 dark:text-slate-400"
+        >
+          <Icons.Close className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-5">
+        <div className="p-3 rounded-xl bg-white/40 dark:bg-black/20 border border-slate-200/50 dark:border-white/10">
+          <p className="text-[11px] text-slate-500 dark:text-slate-400 mb-1">入点</p>
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-mono font-bold text-slate-800 dark:text-white">{clipTime(start)}</span>
+            <button onClick={onSetStart} disabled={exporting} className="text-xs text-primary-500 hover:underline disabled:opacity-40">设为当前</button>
+          </div>
+        </div>
+        <div className="p-3 rounded-xl bg-white/40 dark:bg-black/20 border border-slate-200/50 dark:border-white/10">
+          <p className="text-[11px] text-slate-500 dark:text-slate-400 mb-1">出点</p>
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-mono font-bold text-slate-800 dark:text-white">{clipTime(end)}</span>
+            <button onClick={onSetEnd} disabled={exporting} className="text-xs text-primary-500 hover:underline disabled:opacity-40">设为当前</button>
+          </div>
+        </div>
+        <div className="p-3 rounded-xl bg-white/40 dark:bg-black/20 border border-slate-200/50 dark:border-white/10">
+          <p className="text-[11px] text-slate-500 dark:text-slate-400 mb-1">时长</p>
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-mono font-bold text-slate-800 dark:text-white">{length.toFixed(1)}s</span>
+            <button onClick={onPreview} className="text-xs text-primary-500 hover:underline">预览</button>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-16 text-xs text-slate-500 dark:text-slate-400">格式</span>
+          {(Object.keys(CLIP_FORMATS) as ClipFormat[]).map(f => (
+            <button
+              key={f}
+              onClick={() => setFormat(f)}
+              disabled={exporting || (f === 'webm' && !webmSupported())}
+              className={`${optionButton(format === f)} disabled:opacity-40 disabled:cursor-not-allowed`}
+            >
+              {CLIP_FORMATS[f].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-16 text-xs text-slate-500 dark:text-slate-400">宽度</span>
+          {WIDTHS.filter(w => w === 0 || w < sourceWidth).map(w => (
+            <button key={w} onClick={() => setWidth(w)} disabled={exporting} className={optionButton(width === w)}>
+              {w ? `${w}px` : `原始 (${sourceWidth}px)`}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-3">
+          <span className="w-16 text-xs text-slate-500 dark:text-slate-400">帧率</span>
+          <input type="range" min={5} max={30} value={fps} disabled={exporting} onChange={(e) => setFps(parseInt(e.target.value, 10))} className="flex-1 accent-primary-500" />
+          <span className="w-14 text-right font-mono text-xs text-slate-600 dark:text-slate-300">{fps} fps</span>
+        </label>
+
+        <label className={`flex items-center gap-3 ${format === 'png-zip' ? 'opacity-40' : ''}`}>
+          <span className="w-16 text-xs text-slate-500 dark:text-slate-400">质量</span>
+          <input type="range" min={0} max={1} step={0.05} value={quality} disabled={exporting || format === 'png-zip'} onChange={(e) => setQuality(parseFloat(e.target.value))} className="flex-1 accent-primary-500" />
+          <span className="w-14 text-right font-mono text-xs text-slate-600 dark:text-slate-300">{Math.round(quality * 100)}%</span>
+        </label>
+      </div>
+
+      <div className="mt-6 flex flex-col sm:flex-row sm:items-center gap-4">
+        <p className="flex-1 text-xs text-slate-500 dark:text-slate-400">
+          {src
+            ? `${frames} 帧 · ${outputWidth}px 宽${format === 'webm' ? ' · WebM 需按实际时长录制' : ''}`
+            : '需等待视频缓存完成后才能导出'}
+        </p>
+        {exporting ? (
+          <div className="flex items-center gap-3 sm:w-72">
+            <div className="flex-1 h-2 bg-slate-200 dark:bg-white/10 rounded-full overflow-hidden">
+              <div className="h-full bg-gradient-to-r from-primary-500 to-purple-500 transition-all duration-300" style={{ width: `${Math.round(progress! * 100)}%` }}></div>
+            </div>
+            <span className="font-mono text-xs text-slate-600 dark:text-slate-300">{Math.round(progress! * 100)}%</span>
+            <button onClick={() => abortRef.current?.abort()} className="text-xs font-bold text-slate-500 hover:text-red-500">取消</button>
+          </div>
+        ) : (
+          <button
+            onClick={handleExport}
+            disabled={!src || length <= 0}
+            className="flex items-center justify-center gap-2 px-6 py-3 bg-slate-900 dark:bg-white hover:bg-slate-800 dark:hover:bg-slate-200 text-white dark:text-slate-900 rounded-xl font-bold transition-all shadow-xl disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Icons.Download className="w-4 h-4" />
+            导出片段
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-3 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+// m:ss.s
+function clipTime(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1);
+  return `${m}:${s.padStart(4, '0')}`;
+}
+
+export default ClipExportCard;
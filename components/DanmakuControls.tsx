@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Icons } from '../constants';
+import { DanmakuSettings } from '../types';
+import { updateSettings } from '../services/settings';
+
+interface DanmakuControlsProps {
+  settings: DanmakuSettings;
+  count: number;
+  onExport?: () => void;
+}
+
+// Toggle plus a popover with the display options; changes are saved to settings right away
+const DanmakuControls: React.FC<DanmakuControlsProps> = ({ settings, count, onExport }) => {
+  const [open, setOpen] = useState(false);
+  const [keyword, setKeyword] = useState('');
+
+  const update = (patch: Partial<DanmakuSettings>) => updateSettings({ danmaku: { ...settings, ...patch } });
+
+  const addKeyword = () => {
+    const value = keyword.trim();
+    if (value && !settings.blocklist.includes(value)) update({ blocklist: [...settings.blocklist, value] });
+    setKeyword('');
+  };
+
+  const sliders: { key: 'opacity' | 'density' | 'fontScale'; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+    { key: 'opacity', label: '不透明度', min: 0.1, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}%` },
+    { key: 'density', label: '弹幕密度', min: 0.1, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}%` },
+    { key: 'fontScale', label: '字号', min: 0.5, max: 2, step: 0.1, format: v => `${v.toFixed(1)}x` },
+  ];
+
+  return (
+    <div className="relative flex items-center">
+      <button
+        onClick={() => update({ enabled: !settings.enabled })}
+        title={settings.enabled ? '关闭弹幕' : '开启弹幕'}
+        className={`w-9 h-9 rounded-l-lg text-sm font-bold transition-all border backdrop-blur-md ${settings.enabled ? 'bg-primary-500/80 border-primary-400/50 text-white' : 'bg-white/10 border-white/10 text-white/60 hover:bg-white/20'}`}
+      >
+        弹
+      </button>
+      <button
+        onClick={() => setOpen(!open)}
+        title="弹幕设置"
+        className="h-9 px-2 rounded-r-lg bg-white/10 hover:bg-white/20 backdrop-blur-md border border-l-0 border-white/10 text-white transition-all"
+      >
+        <Icons.Settings className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full right-0 mb-2 w-72 p-4 space-y-4 rounded-xl bg-slate-900/95 backdrop-blur-md border border-white/10 shadow-2xl text-white">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-bold">弹幕设置</span>
+            <span className="text-white/50">共 {count} 条</span>
+          </div>
+
+          {sliders.map(({ key, label, min, max, step, format }) => (
+            <label key={key} className="block text-xs">
+              <span className="flex justify-between text-white/70 mb-1">
+                {label}
+                <span className="font-mono">{format(settings[key])}</span>
+              </span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={settings[key]}
+                onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+                className="w-full accent-primary-500"
+              />
+            </label>
+          ))}
+
+          <div className="text-xs">
+            <p className="text-white/70 mb-1">屏蔽词 <span className="text-white/40">(支持 /正则/)</span></p>
+            <div className="flex gap-2">
+              <input
+                value={keyword}
+                onChange={(e) => setKeyword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addKeyword()}
+                placeholder="输入关键词后回车"
+                className="flex-1 min-w-0 bg-white/10 border border-white/10 rounded-md px-2 py-1.5 outline-none focus:ring-2 focus:ring-primary-500/40"
+              />
+              <button onClick={addKeyword} className="px-2 rounded-md bg-white/10 hover:bg-white/20 font-bold">添加</button>
+            </div>
+            {settings.blocklist.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-2 max-h-24 overflow-y-auto custom-scrollbar">
+                {settings.blocklist.map(entry => (
+                  <span key={entry} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-white/10 font-mono">
+                    {entry}
+                    <button onClick={() => update({ blocklist: settings.blocklist.filter(e => e !== entry) })} className="text-white/50 hover:text-white">
+                      <Icons.Close className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {onExport && (
+            <button
+              onClick={onExport}
+              disabled={count === 0}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-xs font-bold disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+            >
+              <Icons.Download className="w-3.5 h-3.5" />
+              导出 ASS 字幕
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DanmakuControls;
@@ -0,0 +1,43 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Danmaku, DanmakuSettings } from '../types';
+import { filterDanmaku } from '../services/danmaku';
+import { DanmakuRenderer } from '../services/danmaku/renderer';
+
+interface DanmakuLayerProps {
+  comments: Danmaku[];
+  settings: DanmakuSettings;
+  getVideo: () => HTMLVideoElement | null;
+}
+
+// Transparent canvas over the video that the comments are drawn on
+const DanmakuLayer: React.FC<DanmakuLayerProps> = ({ comments, settings, getVideo }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<DanmakuRenderer | null>(null);
+
+  const visible = useMemo(
+    () => filterDanmaku(comments, settings),
+    [comments, settings.density, settings.blocklist]
+  );
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const renderer = new DanmakuRenderer(canvasRef.current, getVideo);
+    rendererRef.current = renderer;
+    return () => {
+      renderer.destroy();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    rendererRef.current?.setComments(visible);
+  }, [visible]);
+
+  useEffect(() => {
+    rendererRef.current?.setOptions({ opacity: settings.opacity, fontScale: settings.fontScale });
+  }, [settings.opacity, settings.fontScale]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none z-10" />;
+};
+
+export default DanmakuLayer;
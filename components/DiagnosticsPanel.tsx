@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Icons } from '../constants';
+import { TraceLevel, TraceStep } from '../types';
+import { errorAction } from '../services/errors';
+
+interface DiagnosticsPanelProps {
+  steps: TraceStep[];
+  // Starts expanded, e.g. next to an error
+  defaultOpen?: boolean;
+  className?: string;
+}
+
+const LEVEL_STYLES: Record<TraceLevel, string> = {
+  info: 'bg-slate-400',
+  ok: 'bg-emerald-500',
+  warn: 'bg-amber-500',
+  error: 'bg-red-500',
+};
+
+// Expandable step-by-step log of what the parser tried
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ steps, defaultOpen = false, className = '' }) => {
+  const [open, setOpen] = useState(defaultOpen);
+  const warnings = steps.filter(s => s.level === 'warn' || s.level === 'error').length;
+
+  return (
+    <div className={`rounded-2xl border border-slate-200/50 dark:border-white/10 bg-white/30 dark:bg-black/20 text-left ${className}`}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between gap-2 px-4 py-3 text-xs font-bold text-slate-600 dark:text-slate-300"
+      >
+        <span className="flex items-center gap-2">
+          <Icons.AlertTriangle className={`w-3.5 h-3.5 ${warnings ? 'text-amber-500' : 'text-slate-400'}`} />
+          诊断信息 · {steps.length} 步{warnings ? ` · ${warnings} 个问题` : ''}
+        </span>
+        <span className="text-slate-400">{open ? '收起' : '展开'}</span>
+      </button>
+
+      {open && (
+        <ol className="px-4 pb-4 space-y-2 max-h-80 overflow-y-auto custom-scrollbar">
+          {steps.map((step, idx) => (
+            <li key={idx} className="flex gap-3 text-xs">
+              <span className="w-12 shrink-0 text-right font-mono text-slate-400">{step.at}ms</span>
+              <span className={`w-2 h-2 rounded-full mt-1 shrink-0 ${LEVEL_STYLES[step.level]}`}></span>
+              <div className="min-w-0">
+                <p className="font-semibold text-slate-700 dark:text-slate-200">{step.label}</p>
+                {step.detail && <p className="font-mono text-[11px] text-slate-500 dark:text-slate-400 break-all">{step.detail}</p>}
+                {step.code && step.level !== 'error' && (
+                  <p className="text-[11px] text-amber-600 dark:text-amber-400 mt-0.5">{errorAction(step.code)}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,110 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { Icons } from '../constants';
+import { DownloadItem, downloadManager } from '../services/downloadManager';
+import { formatBytes, formatEta } from '../services/formatters';
+import { DownloadStatus } from '../types';
+
+const STATUS_LABELS: Record<DownloadStatus, string> = {
+  queued: '排队中',
+  downloading: '下载中',
+  paused: '已暂停',
+  assembling: '合并中',
+  completed: '已完成',
+  error: '失败',
+};
+
+export const useDownloads = (): DownloadItem[] =>
+  useSyncExternalStore(downloadManager.subscribe, downloadManager.getSnapshot);
+
+const DownloadRow: React.FC<{ item: DownloadItem }> = ({ item }) => {
+  const { job, receivedBytes, progress, speed, eta } = item;
+  const isActive = job.status === 'downloading';
+  const canPause = isActive || job.status === 'queued';
+  const canResume = job.status === 'paused' || job.status === 'error';
+
+  return (
+    <div className="p-3 rounded-xl bg-white/40 dark:bg-white/5 border border-white/40 dark:border-white/10">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-slate-800 dark:text-slate-200 truncate" title={job.filename}>{job.filename}</p>
+          <p className="text-[11px] font-mono text-slate-500 dark:text-slate-400 mt-0.5">
+            <span className={job.status === 'error' ? 'text-red-500' : job.status === 'completed' ? 'text-emerald-500' : ''}>
+              {STATUS_LABELS[job.status]}
+            </span>
+            {' · '}{formatBytes(receivedBytes)}{job.totalBytes ? ` / ${formatBytes(job.totalBytes)}` : ''}
+            {isActive && speed > 0 && <> · {formatBytes(speed)}/s · {formatEta(eta)}</>}
+          </p>
+          {job.error && <p className="text-[11px] text-red-500 mt-0.5 truncate" title={job.error}>{job.error}</p>}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {canPause && (
+            <button onClick={() => downloadManager.pause(job.id)} title="暂停" className="p-1.5 rounded-lg hover:bg-slate-200 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400">
+              <Icons.Pause className="w-4 h-4" />
+            </button>
+          )}
+          {canResume && (
+            <button onClick={() => downloadManager.resume(job.id)} title={job.status === 'error' ? '重试' : '继续'} className="p-1.5 rounded-lg hover:bg-slate-200 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400">
+              <Icons.Play className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={() => downloadManager.cancel(job.id)} title={job.status === 'completed' ? '移除' : '取消'} className="p-1.5 rounded-lg hover:bg-slate-200 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400">
+            <Icons.Close className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <div className="w-full h-1.5 bg-slate-200 dark:bg-white/10 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-300 ${job.status === 'error' ? 'bg-red-500' : job.status === 'completed' ? 'bg-emerald-500' : 'bg-gradient-to-r from-primary-500 to-purple-500'}`}
+          style={{ width: `${Math.round(progress * 100)}%` }}
+        ></div>
+      </div>
+    </div>
+  );
+};
+
+// Floating queue of all downloads, collapsed to a badge button
+const DownloadPanel: React.FC = () => {
+  const items = useDownloads();
+  const [open, setOpen] = useState(false);
+
+  if (items.length === 0) return null;
+
+  const active = items.filter(i => i.job.status === 'downloading' || i.job.status === 'queued').length;
+  const hasFinished = items.some(i => i.job.status === 'completed');
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end gap-3">
+      {open && (
+        <div className="w-96 max-w-[calc(100vw-3rem)] glass-panel rounded-3xl p-5 shadow-2xl animate-fade-in-up">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-bold text-slate-800 dark:text-white flex items-center gap-2">
+              <Icons.Download className="w-4 h-4" />
+              下载管理
+            </h3>
+            {hasFinished && (
+              <button onClick={() => downloadManager.clearFinished()} className="text-xs text-slate-500 dark:text-slate-400 hover:text-primary-500 transition-colors">
+                清除已完成
+              </button>
+            )}
+          </div>
+          <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1 custom-scrollbar">
+            {items.map(item => <DownloadRow key={item.job.id} item={item} />)}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative w-14 h-14 rounded-full glass-panel flex items-center justify-center shadow-2xl ring-1 ring-white/10 text-slate-700 dark:text-white hover:scale-105 transition-transform"
+        title="下载管理"
+      >
+        {active > 0 ? <Icons.Loader className="w-6 h-6 animate-spin" /> : <Icons.Download className="w-6 h-6" />}
+        <span className="absolute -top-1 -right-1 min-w-[20px] h-5 px-1 rounded-full bg-primary-500 text-white text-[11px] font-bold flex items-center justify-center">
+          {active || items.length}
+        </span>
+      </button>
+    </div>
+  );
+};
+
+export default DownloadPanel;
@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icons } from '../constants';
+import { CapturedFrame, FrameAnalysis, ParsedVideoData } from '../types';
+import { sampleFrames } from '../services/frameService';
+import { GeminiClient, analyzeVideoFrames } from '../services/geminiService';
+
+interface FrameAnalysisCardProps {
+  video: ParsedVideoData;
+  // Blob URL of the fully cached video; frames can only be sampled from local data
+  cachedUrl: string | null;
+  onSeek: (time: number) => void;
+  // Overrides the configured Gemini client, e.g. with the offline fake
+  client?: GeminiClient;
+}
+
+type Phase = 'idle' | 'sampling' | 'analyzing' | 'done' | 'error';
+
+const FRAME_WIDTH = 512; // px; enough detail for the model while keeping the request small
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+};
+
+const FrameAnalysisCard: React.FC<FrameAnalysisCardProps> = ({ video, cachedUrl, onSeek, client }) => {
+  const [frameCount, setFrameCount] = useState(8);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [progress, setProgress] = useState(0);
+  const [frames, setFrames] = useState<CapturedFrame[]>([]);
+  const [result, setResult] = useState<FrameAnalysis | null>(null);
+  const [error, setError] = useState('');
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setPhase('idle');
+    setFrames([]);
+    setResult(null);
+    return () => controllerRef.current?.abort();
+  }, [video.id, video.currentCid]);
+
+  const run = async () => {
+    if (!cachedUrl) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setError('');
+    setResult(null);
+    setProgress(0);
+    setPhase('sampling');
+    try {
+      const sampled = await sampleFrames(cachedUrl, frameCount, {
+        maxWidth: FRAME_WIDTH,
+        mime: 'image/jpeg',
+        quality: 0.8,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress(done / total),
+      });
+      if (controller.signal.aborted) return;
+      setFrames(sampled);
+
+      setPhase('analyzing');
+      const analysis = await analyzeVideoFrames(sampled, video, { client });
+      if (controller.signal.aborted) return;
+      setResult(analysis);
+      setPhase('done');
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error("Frame analysis failed", e);
+      setError((e as Error).message || String(e));
+      setPhase('error');
+    }
+  };
+
+  // Thumbnail of the sampled frame closest to a scene start
+  const frameFor = (time: number) =>
+    frames.reduce<CapturedFrame | undefined>((best, f) =>
+      !best || Math.abs(f.time - time) < Math.abs(best.time - time) ? f : best, undefined);
+
+  const busy = phase === 'sampling' || phase === 'analyzing';
+
+  return (
+    <div className="glass-panel rounded-3xl p-6 sm:p-8 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+          <div className="p-2 rounded-lg bg-purple-500/10 text-purple-600 dark:text-purple-400">
+            <Icons.Camera className="w-5 h-5" />
+          </div>
+          画面分析
+        </h3>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+            抽帧
+            <input
+              type="range"
+              min={4}
+              max={24}
+              step={1}
+              value={frameCount}
+              disabled={busy}
+              onChange={(e) => setFrameCount(parseInt(e.target.value, 10))}
+              className="w-24 accent-primary-500"
+            />
+            <span className="w-6 font-mono">{frameCount}</span>
+          </label>
+          <button
+            onClick={run}
+            disabled={!cachedUrl || busy}
+            className="px-4 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-sm font-bold transition-all shadow-lg hover:-translate-y-0.5 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none flex items-center gap-2"
+          >
+            {busy ? <Icons.Loader className="w-4 h-4 animate-spin" /> : <Icons.Bot className="w-4 h-4" />}
+            {phase === 'done' || phase === 'error' ? '重新分析' : '分析画面'}
+          </button>
+        </div>
+      </div>
+
+      {!cachedUrl && phase === 'idle' && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">需等待视频缓存完成后才能抽取画面（内嵌播放器不支持）。</p>
+      )}
+
+      {phase === 'sampling' && (
+        <div className="text-sm text-slate-500 dark:text-slate-400">
+          正在抽取画面... {Math.round(progress * frameCount)}/{frameCount}
+          <div className="w-full h-1 bg-slate-200 dark:bg-white/10 rounded-full overflow-hidden mt-2">
+            <div className="h-full bg-gradient-to-r from-primary-500 to-purple-500 transition-all" style={{ width: `${progress * 100}%` }}></div>
+          </div>
+        </div>
+      )}
+
+      {phase === 'analyzing' && (
+        <div className="flex items-center gap-3 text-sm text-slate-500 dark:text-slate-400">
+          <Icons.Loader className="w-4 h-4 animate-spin" />
+          Gemini 正在理解 {frames.length} 帧画面...
+        </div>
+      )}
+
+      {phase === 'error' && (
+        <div className="text-sm text-red-600 dark:text-red-300 bg-red-500/5 border border-red-500/20 rounded-xl p-4 flex gap-2">
+          <Icons.AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+          <p>画面分析失败：{error}</p>
+        </div>
+      )}
+
+      {phase === 'done' && result && (
+        <div className="space-y-4">
+          {result.isMock && (
+            <div className="text-xs font-medium text-amber-700 dark:text-amber-300 bg-amber-500/10 border border-amber-500/20 p-3 rounded-xl flex gap-2">
+              <Icons.AlertTriangle className="w-4 h-4 shrink-0" />
+              <p>
+                {client
+                  ? '以下数据由本地模拟客户端生成，未请求 Gemini，并非对画面的真实分析。'
+                  : '未配置 Gemini API Key，以下为演示数据，并非对画面的真实分析。'}
+              </p>
+            </div>
+          )}
+          <p className="text-sm leading-relaxed text-slate-700 dark:text-slate-300">{result.overview}</p>
+          <ol className="space-y-2">
+            {result.scenes.map((scene, idx) => {
+              const thumb = frameFor(scene.time);
+              return (
+                <li key={idx} className="flex gap-3 p-3 rounded-xl bg-white/40 dark:bg-white/5 border border-white/40 dark:border-white/10">
+                  {thumb && (
+                    <img src={thumb.dataUrl} alt="" className="w-28 aspect-video object-cover rounded-lg shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <button
+                        onClick={() => onSeek(scene.time)}
+                        className="px-2 py-0.5 rounded-md bg-primary-500/10 text-primary-700 dark:text-primary-300 font-mono text-xs font-bold hover:bg-primary-500/20 transition-colors"
+                        title="跳转到该时间点"
+                      >
+                        {formatTime(scene.time)}
+                      </button>
+                      <span className="text-sm font-bold text-slate-800 dark:text-slate-200 truncate">{scene.title}</span>
+                    </div>
+                    <p className="text-xs leading-relaxed text-slate-600 dark:text-slate-400">{scene.description}</p>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FrameAnalysisCard;
@@ -0,0 +1,153 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import { Icons } from '../constants';
+import { historyStore } from '../services/historyService';
+import { HistoryEntry } from '../types';
+
+interface HistoryPanelProps {
+  open: boolean;
+  onClose: () => void;
+  onOpen: (entry: HistoryEntry) => void;
+  // Entry currently shown in the result view
+  activeKey?: string | null;
+}
+
+export const useHistory = (): HistoryEntry[] =>
+  useSyncExternalStore(historyStore.subscribe, historyStore.getSnapshot);
+
+const formatParsedAt = (time: number) => {
+  const date = new Date(time);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const sameDay = date.toDateString() === new Date().toDateString();
+  const clock = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  return sameDay ? `今天 ${clock}` : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${clock}`;
+};
+
+const matchesQuery = (entry: HistoryEntry, query: string) => {
+  if (!query) return true;
+  const q = query.toLowerCase();
+  return [entry.data.title, entry.input, entry.data.id, entry.data.collectionTitle]
+    .some(text => text?.toLowerCase().includes(q));
+};
+
+// Slide-over library of past parses with search, platform filter and favourites
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ open, onClose, onOpen, activeKey }) => {
+  const entries = useHistory();
+  const [query, setQuery] = useState('');
+  const [platform, setPlatform] = useState<string | null>(null);
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+
+  const platforms = useMemo(() => [...new Set(entries.map(e => e.data.platform))], [entries]);
+
+  const visible = useMemo(() => entries
+    .filter(e => !favouritesOnly || e.favourite)
+    .filter(e => !platform || e.data.platform === platform)
+    .filter(e => matchesQuery(e, query.trim()))
+    // Favourites stay on top, each group newest first
+    .sort((a, b) => Number(b.favourite) - Number(a.favourite)),
+  [entries, favouritesOnly, platform, query]);
+
+  if (!open) return null;
+
+  const chip = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-bold transition-colors ${active
+      ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900'
+      : 'bg-slate-200/60 dark:bg-white/10 text-slate-600 dark:text-slate-300 hover:bg-slate-300/60 dark:hover:bg-white/20'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30 backdrop-blur-sm" onClick={onClose}></div>
+      <aside className="relative w-full max-w-md h-full glass-panel shadow-2xl flex flex-col p-6 animate-fade-in-up">
+        <div className="flex items-center justify-between mb-5">
+          <h3 className="text-lg font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+            <div className="p-2 rounded-lg bg-primary-500/10 text-primary-600 dark:text-primary-400">
+              <Icons.History className="w-5 h-5" />
+            </div>
+            解析记录
+          </h3>
+          <div className="flex items-center gap-2">
+            {entries.some(e => !e.favourite) && (
+              <button
+                onClick={() => confirm('清空所有未收藏的记录？') && historyStore.clear()}
+                className="text-xs text-slate-500 dark:text-slate-400 hover:text-red-500 transition-colors"
+              >
+                清空
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-slate-200 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400">
+              <Icons.Close className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 px-3 rounded-xl bg-white/50 dark:bg-black/20 border border-slate-200/50 dark:border-white/10 mb-3">
+          <Icons.Search className="w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索标题或链接"
+            className="flex-1 bg-transparent border-none outline-none py-2.5 text-sm text-slate-800 dark:text-white placeholder-slate-400"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          <button onClick={() => setFavouritesOnly(!favouritesOnly)} className={`${chip(favouritesOnly)} flex items-center gap-1`}>
+            <Icons.Star className="w-3 h-3" /> 收藏
+          </button>
+          <button onClick={() => setPlatform(null)} className={chip(platform === null)}>全部</button>
+          {platforms.map(p => (
+            <button key={p} onClick={() => setPlatform(p)} className={`${chip(platform === p)} uppercase`}>{p}</button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
+          {visible.length === 0 && (
+            <p className="text-sm text-center text-slate-500 dark:text-slate-400 py-12">
+              {entries.length === 0 ? '还没有解析记录' : '没有匹配的记录'}
+            </p>
+          )}
+          {visible.map(entry => (
+            <div
+              key={entry.key}
+              onClick={() => onOpen(entry)}
+              className={`group flex gap-3 p-2.5 rounded-xl cursor-pointer border transition-colors ${entry.key === activeKey
+                ? 'bg-primary-500/10 border-primary-500/30'
+                : 'bg-white/40 dark:bg-white/5 border-white/40 dark:border-white/10 hover:bg-white/60 dark:hover:bg-white/10'}`}
+            >
+              <div className="w-24 aspect-video rounded-lg overflow-hidden bg-slate-200 dark:bg-black/40 shrink-0 flex items-center justify-center">
+                {entry.data.thumbnailUrl
+                  ? <img src={entry.data.thumbnailUrl} alt="" referrerPolicy="no-referrer" className="w-full h-full object-cover" />
+                  : <Icons.Play className="w-5 h-5 text-slate-400" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-slate-800 dark:text-slate-200 line-clamp-2" title={entry.data.title}>{entry.data.title}</p>
+                <p className="text-[11px] text-slate-500 dark:text-slate-400 mt-1 flex items-center gap-2">
+                  <span className="px-1.5 py-0.5 rounded bg-slate-200 dark:bg-white/10 font-bold uppercase">{entry.data.platform}</span>
+                  {formatParsedAt(entry.parsedAt)}
+                </p>
+              </div>
+              <div className="flex flex-col items-center gap-1 shrink-0">
+                <button
+                  onClick={(e) => { e.stopPropagation(); historyStore.toggleFavourite(entry.key); }}
+                  title={entry.favourite ? '取消收藏' : '收藏'}
+                  className={`p-1.5 rounded-lg hover:bg-slate-200 dark:hover:bg-white/10 ${entry.favourite ? 'text-amber-500' : 'text-slate-400'}`}
+                >
+                  <Icons.Star className={`w-4 h-4 ${entry.favourite ? 'fill-current' : ''}`} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); historyStore.remove(entry.key); }}
+                  title="删除"
+                  className="p-1.5 rounded-lg hover:bg-slate-200 dark:hover:bg-white/10 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <Icons.Trash className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { Icons } from '../constants';
+import { MediaInfo, MediaTrackInfo, MediaTrackKind, ParsedVideoData, VideoSource } from '../types';
+import { inspectMediaUrl, mediaInfoToJson } from '../services/mediaInfoService';
+import { codecName, formatBitrate, formatBytes, safeFilename } from '../services/formatters';
+import { saveBlob } from '../services/fileService';
+
+interface MediaInspectorCardProps {
+  video: ParsedVideoData;
+  // Source playing in the player, and its cached Blob URL once the whole file is loaded
+  source?: VideoSource;
+  cachedUrl: string | null;
+  // Reports what was read (null while nothing is), e.g. to let frame stepping snap to keyframes
+  onInfo?: (info: MediaInfo | null) => void;
+  onSeek: (time: number) => void;
+}
+
+const TRACK_LABELS: Record<MediaTrackKind, string> = {
+  video: '视频',
+  audio: '音频',
+  subtitle: '字幕',
+  other: '其他',
+};
+
+// Keyframe chips shown before "show all"
+const KEYFRAME_PREVIEW = 48;
+
+// e.g. 1:05.04, to the hundredth so neighbouring keyframes stay apart
+const formatTime = (time: number) => {
+  const h = Math.floor(time / 3600);
+  const m = Math.floor((time % 3600) / 60);
+  const seconds = (time % 60).toFixed(2).padStart(5, '0');
+  return `${h > 0 ? `${h}:${String(m).padStart(2, '0')}` : m}:${seconds}`;
+};
+
+const trackDetails = (track: MediaTrackInfo): string => {
+  const parts: string[] = [];
+  if (track.width && track.height) parts.push(`${track.width}×${track.height}`);
+  if (track.frameRate) parts.push(`${track.frameRate} fps`);
+  if (track.sampleRate) parts.push(`${track.sampleRate} Hz`);
+  if (track.channels) parts.push(`${track.channels} 声道`);
+  if (track.bitrate) parts.push(formatBitrate(track.bitrate));
+  if (track.duration) parts.push(formatTime(track.duration));
+  if (track.language) parts.push(track.language);
+  return parts.join(' · ');
+};
+
+// Container, tracks and keyframes of the cached video, read from its boxes (MP4/MOV) or EBML elements (WebM/MKV)
+const MediaInspectorCard: React.FC<MediaInspectorCardProps> = ({ video, source, cachedUrl, onInfo, onSeek }) => {
+  const [info, setInfo] = useState<MediaInfo | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAllKeyframes, setShowAllKeyframes] = useState(false);
+
+  useEffect(() => {
+    setInfo(null);
+    setError(null);
+    setShowAllKeyframes(false);
+    if (!cachedUrl) return;
+
+    let cancelled = false;
+    setLoading(true);
+    inspectMediaUrl(cachedUrl)
+      .then(result => {
+        if (cancelled) return;
+        setInfo(result);
+        onInfo?.(result);
+      })
+      .catch(e => {
+        console.warn("Failed to inspect media", e);
+        if (!cancelled) setError((e as Error).message || '读取失败');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => {
+      cancelled = true;
+      onInfo?.(null);
+    };
+  }, [cachedUrl]);
+
+  const exportJson = () => {
+    if (!info) return;
+    saveBlob(new Blob([mediaInfoToJson(video, source, info)], { type: 'application/json' }), `${safeFilename(video.title)}_mediainfo.json`);
+  };
+
+  const keyframes = info?.keyframes || [];
+  const gop = keyframes.length > 1 ? (keyframes[keyframes.length - 1] - keyframes[0]) / (keyframes.length - 1) : 0;
+  const shownKeyframes = showAllKeyframes ? keyframes : keyframes.slice(0, KEYFRAME_PREVIEW);
+  const general: [string, string | undefined][] = info ? [
+    ['容器', `${info.container}${info.brand ? ` (${info.brand})` : ''}`],
+    ['时长', info.duration ? formatTime(info.duration) : undefined],
+    ['大小', formatBytes(info.bytes)],
+    ['总码率', info.bitrate ? formatBitrate(info.bitrate) : undefined],
+    ['创建时间', info.createdAt ? new Date(info.createdAt).toLocaleString() : undefined],
+    ['封装工具', info.muxer],
+  ] : [];
+
+  return (
+    <div className="glass-panel rounded-3xl p-6 shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+          <div className="p-2 rounded-lg bg-sky-500/10 text-sky-600 dark:text-sky-400">
+            <Icons.Info className="w-5 h-5" />
+          </div>
+          媒体信息
+        </h3>
+        {info && (
+          <button onClick={exportJson} className="text-xs font-bold text-slate-500 dark:text-slate-400 hover:text-primary-500 transition-colors">
+            导出 JSON
+          </button>
+        )}
+      </div>
+
+      {!cachedUrl && (
+        <p className="text-xs text-slate-500 dark:text-slate-400 leading-relaxed">
+          视频完整缓存后会自动读取容器信息。流式播放与 HLS/DASH 清单暂不支持。
+        </p>
+      )}
+
+      {loading && (
+        <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+          <Icons.Loader className="w-4 h-4 animate-spin" />
+          正在读取容器…
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {info && (
+        <div className="space-y-4">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-xs">
+            {general.filter(([, value]) => value).map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="text-slate-500 dark:text-slate-400">{label}</dt>
+                <dd className="font-mono text-slate-800 dark:text-slate-200 break-all">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+
+          <ul className="space-y-2">
+            {info.tracks.map(track => (
+              <li key={`${track.kind}-${track.id}`} className="p-3 rounded-xl bg-slate-100/50 dark:bg-black/20 border border-slate-200/50 dark:border-white/5">
+                <div className="flex items-center gap-2 text-sm font-bold text-slate-800 dark:text-slate-200">
+                  <span className="px-1.5 py-0.5 rounded-md bg-slate-200 dark:bg-slate-700 text-[10px] tracking-wide text-slate-600 dark:text-slate-300">
+                    #{track.id} {TRACK_LABELS[track.kind]}
+                  </span>
+                  {track.codec ? codecName(track.codec) : '未知编码'}
+                  {track.codec && codecName(track.codec) !== track.codec && (
+                    <span className="font-mono text-[11px] font-normal text-slate-400">{track.codec}</span>
+                  )}
+                </div>
+                {trackDetails(track) && (
+                  <div className="text-xs text-slate-500 dark:text-slate-400 mt-1 font-mono opacity-80">{trackDetails(track)}</div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {keyframes.length > 0 && (
+            <div>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                关键帧 <span className="font-bold text-slate-700 dark:text-slate-200">{keyframes.length}</span> 个
+                {gop > 0 && <> · 平均间隔 {gop.toFixed(2)} 秒</>}
+              </p>
+              <div className="flex flex-wrap gap-1 max-h-40 overflow-y-auto custom-scrollbar pr-1">
+                {shownKeyframes.map(time => (
+                  <button
+                    key={time}
+                    onClick={() => onSeek(time)}
+                    className="px-1.5 py-0.5 rounded-md font-mono text-[11px] bg-slate-100 dark:bg-white/5 text-slate-600 dark:text-slate-300 hover:bg-primary-500/10 hover:text-primary-600 dark:hover:text-primary-300 transition-colors"
+                  >
+                    {formatTime(time)}
+                  </button>
+                ))}
+                {keyframes.length > KEYFRAME_PREVIEW && (
+                  <button
+                    onClick={() => setShowAllKeyframes(!showAllKeyframes)}
+                    className="px-1.5 py-0.5 text-[11px] font-bold text-slate-500 dark:text-slate-400 hover:text-primary-500 transition-colors"
+                  >
+                    {showAllKeyframes ? '收起' : `全部 ${keyframes.length} 个`}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {info.warnings.map(warning => (
+            <p key={warning} className="text-[11px] text-amber-600 dark:text-amber-400 flex gap-1.5">
+              <Icons.AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaInspectorCard;
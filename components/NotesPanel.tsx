@@ -0,0 +1,215 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { Icons } from '../constants';
+import { ParsedVideoData, VideoNote } from '../types';
+import { addNote, getNotes, importNotes, removeNote, subscribeNotes, updateNote } from '../services/notes';
+import { notesToJson, notesToMarkdown, noteTime, parseNotesFile } from '../services/noteExport';
+import { grabFrame } from '../services/frameService';
+import { saveBlob } from '../services/fileService';
+import { safeFilename } from '../services/formatters';
+
+export const useNotes = (key: string): VideoNote[] =>
+  useSyncExternalStore(subscribeNotes, () => getNotes(key));
+
+interface NotesPanelProps {
+  video: ParsedVideoData;
+  notesKey: string;
+  // The visible player's video element, for the current time and frame
+  getVideo: () => HTMLVideoElement | null;
+  onSeek: (time: number) => void;
+}
+
+// Attached frames are kept small, they all share the few MB of localStorage
+const FRAME_WIDTH = 480;
+
+const formatTime = (time: number) => {
+  const h = Math.floor(time / 3600);
+  const m = Math.floor((time % 3600) / 60);
+  const s = Math.floor(time % 60);
+  return `${h > 0 ? `${h}:${m < 10 ? '0' : ''}` : ''}${m}:${s < 10 ? '0' : ''}${s}`;
+};
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ video, notesKey, getVideo, onSeek }) => {
+  const notes = useNotes(notesKey);
+  const [draft, setDraft] = useState('');
+  // Where the note being written belongs; fixed when writing starts so playback can carry on
+  const [draftTime, setDraftTime] = useState<number | null>(null);
+  const [attachFrame, setAttachFrame] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentTime = () => getVideo()?.currentTime ?? 0;
+
+  const run = (action: () => void) => {
+    setError(null);
+    try {
+      action();
+    } catch (e) {
+      setError((e as Error).message || String(e));
+    }
+  };
+
+  const captureFrame = (): string => {
+    const element = getVideo();
+    if (!element) throw new Error('播放器尚未就绪');
+    try {
+      return grabFrame(element, { maxWidth: FRAME_WIDTH, mime: 'image/jpeg', quality: 0.8 }).dataUrl;
+    } catch {
+      throw new Error('当前播放源不支持截帧，请等待缓存完成');
+    }
+  };
+
+  const submit = () => {
+    if (!draft.trim() && !attachFrame) return;
+    run(() => {
+      const time = draftTime ?? currentTime();
+      addNote(notesKey, { time, text: draft.trim(), frame: attachFrame ? captureFrame() : undefined });
+      setDraft('');
+      setDraftTime(null);
+    });
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    run(() => updateNote(notesKey, editing.id, { text: editing.text.trim() }));
+    setEditing(null);
+  };
+
+  const exportNotes = (format: 'md' | 'json') => {
+    const name = safeFilename(`${video.title}_notes`);
+    if (format === 'md') {
+      saveBlob(new Blob([notesToMarkdown(video, notes)], { type: 'text/markdown;charset=utf-8' }), `${name}.md`);
+    } else {
+      saveBlob(new Blob([notesToJson(video, notes)], { type: 'application/json' }), `${name}.json`);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    setError(null);
+    try {
+      const imported = parseNotesFile(await file.text());
+      importNotes(notesKey, imported);
+    } catch (e) {
+      setError(`导入失败: ${(e as Error).message}`);
+    }
+  };
+
+  const linkButton = 'text-xs font-bold text-slate-500 dark:text-slate-400 hover:text-primary-500 transition-colors cursor-pointer';
+
+  return (
+    <div className="glass-panel rounded-3xl p-6 shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+          <div className="p-2 rounded-lg bg-emerald-500/10 text-emerald-600 dark:text-emerald-400">
+            <Icons.Note className="w-5 h-5" />
+          </div>
+          笔记
+          {notes.length > 0 && <span className="text-xs font-normal text-slate-400">{notes.length}</span>}
+        </h3>
+        <div className="flex items-center gap-3">
+          {notes.length > 0 && (
+            <>
+              <button onClick={() => exportNotes('md')} className={linkButton}>Markdown</button>
+              <button onClick={() => exportNotes('json')} className={linkButton}>JSON</button>
+            </>
+          )}
+          <label className={linkButton}>
+            导入
+            <input
+              type="file"
+              accept=".md,.markdown,.json,text/markdown,application/json"
+              className="hidden"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) importFile(file); e.target.value = ''; }}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+          <span>
+            时间点 <span className="font-mono font-bold text-primary-600 dark:text-primary-400">{draftTime != null ? formatTime(draftTime) : '当前位置'}</span>
+          </span>
+          {draftTime != null && (
+            <button onClick={() => setDraftTime(currentTime())} className="hover:text-primary-500 transition-colors">更新为当前位置</button>
+          )}
+        </div>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onFocus={() => { if (draftTime == null) setDraftTime(currentTime()); }}
+          onKeyDown={(e) => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submit(); }}
+          rows={3}
+          placeholder="记录当前画面的观察… (Ctrl+Enter 保存)"
+          className="w-full bg-white/50 dark:bg-black/20 border border-slate-200/50 dark:border-white/10 rounded-xl px-3 py-2 text-sm text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-primary-500/40 resize-y"
+        />
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={attachFrame} onChange={(e) => setAttachFrame(e.target.checked)} className="accent-primary-500" />
+            附带当前帧
+          </label>
+          <button
+            onClick={submit}
+            disabled={!draft.trim() && !attachFrame}
+            className="px-4 py-1.5 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-xs font-bold transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            添加笔记
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </div>
+
+      {notes.length > 0 && (
+        <ul className="space-y-3 max-h-[480px] overflow-y-auto custom-scrollbar pr-1">
+          {notes.map(note => (
+            <li key={note.id} className="group p-3 rounded-xl bg-slate-100/50 dark:bg-black/20 border border-slate-200/50 dark:border-white/5">
+              <div className="flex items-center justify-between mb-1">
+                <button onClick={() => onSeek(note.time)} title={noteTime(note.time)} className="font-mono text-xs font-bold text-primary-600 dark:text-primary-400 hover:underline">
+                  {formatTime(note.time)}
+                </button>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => setEditing({ id: note.id, text: note.text })}
+                    className="px-1.5 text-[11px] text-slate-400 hover:text-primary-500"
+                  >
+                    编辑
+                  </button>
+                  <button onClick={() => run(() => removeNote(notesKey, note.id))} title="删除笔记" className="p-1 text-slate-400 hover:text-red-500">
+                    <Icons.Trash className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+
+              {note.frame && (
+                <img
+                  src={note.frame}
+                  alt={`${formatTime(note.time)} 帧`}
+                  onClick={() => onSeek(note.time)}
+                  className="w-full rounded-lg mb-2 cursor-pointer border border-slate-200/50 dark:border-white/10"
+                />
+              )}
+
+              {editing?.id === note.id ? (
+                <textarea
+                  autoFocus
+                  value={editing.text}
+                  onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                  onBlur={saveEdit}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) saveEdit();
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  rows={3}
+                  className="w-full bg-white/70 dark:bg-black/30 rounded-lg px-2 py-1 text-sm text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-primary-500/40 resize-y"
+                />
+              ) : note.text && (
+                <p className="text-sm text-slate-700 dark:text-slate-200 whitespace-pre-wrap break-words">{note.text}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NotesPanel;
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Icons } from '../constants';
+import { VideoPart } from '../types';
+
+interface PartPickerProps {
+  parts?: VideoPart[];
+  episodes?: VideoPart[];
+  collectionTitle?: string;
+  currentCid?: number;
+  loadingCid?: number | null;
+  onSelect: (part: VideoPart) => void;
+  className?: string;
+}
+
+type Tab = 'page' | 'episode';
+
+const PartPicker: React.FC<PartPickerProps> = ({ parts, episodes, collectionTitle, currentCid, loadingCid, onSelect, className }) => {
+  const hasParts = !!parts && parts.length > 0;
+  const hasEpisodes = !!episodes && episodes.length > 0;
+  const [tab, setTab] = useState<Tab>(hasParts ? 'page' : 'episode');
+
+  useEffect(() => {
+    setTab(hasParts ? 'page' : 'episode');
+  }, [hasParts]);
+
+  if (!hasParts && !hasEpisodes) return null;
+
+  const list = (tab === 'page' ? parts : episodes) || [];
+  const currentIndex = list.findIndex(p => p.cid === currentCid);
+
+  return (
+    <div className={`glass-panel rounded-3xl p-6 shadow-xl flex flex-col max-h-[480px] ${className || ''}`}>
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <h3 className="text-lg font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+          <div className="p-2 rounded-lg bg-primary-500/10 text-primary-600 dark:text-primary-400">
+            <Icons.Play className="w-5 h-5" />
+          </div>
+          选集
+          <span className="text-xs font-mono text-slate-500 dark:text-slate-400">
+            {currentIndex >= 0 ? `${currentIndex + 1}/` : ''}{list.length}
+          </span>
+        </h3>
+
+        {hasParts && hasEpisodes && (
+          <div className="flex rounded-lg bg-slate-200/60 dark:bg-white/5 p-0.5 text-xs font-bold">
+            {(['page', 'episode'] as Tab[]).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-3 py-1 rounded-md transition-colors ${tab === t ? 'bg-white dark:bg-white/15 text-slate-800 dark:text-white shadow' : 'text-slate-500 dark:text-slate-400'}`}
+              >
+                {t === 'page' ? '分P' : '合集'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {tab === 'episode' && collectionTitle && (
+        <p className="text-xs text-slate-500 dark:text-slate-400 mb-3 truncate" title={collectionTitle}>{collectionTitle}</p>
+      )}
+
+      <div className="space-y-1.5 overflow-y-auto pr-2 custom-scrollbar flex-1">
+        {list.map((part, idx) => {
+          const isActive = part.cid === currentCid;
+          const isLoading = part.cid === loadingCid;
+          return (
+            <button
+              key={`${part.videoId}-${part.cid}`}
+              onClick={() => onSelect(part)}
+              disabled={isActive || loadingCid != null}
+              className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-left text-sm transition-all border ${isActive
+                ? 'bg-primary-500/15 border-primary-500/30 text-primary-700 dark:text-primary-300'
+                : 'bg-white/40 dark:bg-white/5 border-transparent hover:bg-white/60 dark:hover:bg-white/10 text-slate-700 dark:text-slate-300'} disabled:cursor-default`}
+            >
+              <span className="w-8 shrink-0 font-mono text-xs opacity-60">
+                {part.kind === 'page' ? `P${part.page}` : idx + 1}
+              </span>
+              <span className="flex-1 truncate font-medium" title={part.title}>{part.title}</span>
+              {isLoading ? (
+                <Icons.Loader className="w-4 h-4 animate-spin shrink-0" />
+              ) : (
+                part.duration && <span className="shrink-0 font-mono text-xs opacity-60">{part.duration}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PartPicker;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ThumbnailCue } from '../types';
+
+interface SeekPreviewProps {
+  // Horizontal position over the seek bar, 0..1
+  ratio: number;
+  label: string;
+  chapterTitle?: string;
+  // A sprite-track cue, or a frame URL grabbed from the cached video
+  thumbnail?: ThumbnailCue;
+  frameUrl?: string | null;
+}
+
+const PREVIEW_WIDTH = 160;
+
+// Popup shown above the seek bar while hovering it
+const SeekPreview: React.FC<SeekPreviewProps> = ({ ratio, label, chapterTitle, thumbnail, frameUrl }) => (
+  <div
+    className="absolute bottom-full mb-4 -translate-x-1/2 pointer-events-none flex flex-col items-center gap-1.5 z-20"
+    style={{ left: `clamp(${PREVIEW_WIDTH / 2}px, ${ratio * 100}%, calc(100% - ${PREVIEW_WIDTH / 2}px))` }}
+  >
+    {thumbnail ? (
+      <SpriteTile cue={thumbnail} />
+    ) : frameUrl ? (
+      <img src={frameUrl} alt="" className="rounded-lg border border-white/20 shadow-2xl bg-black" style={{ width: PREVIEW_WIDTH }} />
+    ) : null}
+    {chapterTitle && (
+      <span className="text-xs font-bold text-white text-center truncate drop-shadow" style={{ maxWidth: PREVIEW_WIDTH }}>{chapterTitle}</span>
+    )}
+    <span className="px-1.5 py-0.5 rounded bg-black/70 text-white font-mono text-xs">{label}</span>
+  </div>
+);
+
+// Sprite regions are drawn at their own size and scaled down, so the sheet's dimensions needn't be known
+const SpriteTile: React.FC<{ cue: ThumbnailCue }> = ({ cue }) => {
+  if (!cue.region) {
+    return <img src={cue.url} alt="" className="rounded-lg border border-white/20 shadow-2xl bg-black" style={{ width: PREVIEW_WIDTH }} />;
+  }
+  const { x, y, width, height } = cue.region;
+  const scale = PREVIEW_WIDTH / width;
+  return (
+    <div className="rounded-lg border border-white/20 shadow-2xl overflow-hidden bg-black" style={{ width: PREVIEW_WIDTH, height: height * scale }}>
+      <div
+        style={{
+          width,
+          height,
+          backgroundImage: `url("${cue.url}")`,
+          backgroundPosition: `-${x}px -${y}px`,
+          transform: `scale(${scale})`,
+          transformOrigin: 'top left',
+        }}
+      ></div>
+    </div>
+  );
+};
+
+export default SeekPreview;
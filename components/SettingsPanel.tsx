@@ -0,0 +1,198 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { Icons } from '../constants';
+import { RelayEndpoint, RelayMode, getSettings, resetSettings, subscribeSettings, updateSettings } from '../services/settings';
+import { testRelay } from '../services/proxy';
+
+interface SettingsPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface TestResult {
+  running?: boolean;
+  ms?: number;
+  error?: string;
+}
+
+export const useSettings = () => useSyncExternalStore(subscribeSettings, getSettings);
+
+const inputClass = 'w-full bg-white/50 dark:bg-black/20 border border-slate-200/50 dark:border-white/10 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-white placeholder-slate-400 outline-none focus:ring-2 focus:ring-primary-500/40';
+const smallButton = 'px-2 py-1 rounded-md text-xs font-bold text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ open, onClose }) => {
+  const settings = useSettings();
+  const [tests, setTests] = useState<Record<string, TestResult>>({});
+  const [draft, setDraft] = useState({ name: '', template: '', mode: 'raw' as RelayMode });
+  const [draftError, setDraftError] = useState('');
+
+  if (!open) return null;
+
+  const setRelays = (relays: RelayEndpoint[]) => updateSettings({ relays });
+
+  const patchRelay = (id: string, patch: Partial<RelayEndpoint>) =>
+    setRelays(settings.relays.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const move = (index: number, delta: number) => {
+    const relays = [...settings.relays];
+    const [relay] = relays.splice(index, 1);
+    relays.splice(index + delta, 0, relay);
+    setRelays(relays);
+  };
+
+  const runTest = async (relay: RelayEndpoint) => {
+    setTests(prev => ({ ...prev, [relay.id]: { running: true } }));
+    try {
+      const ms = await testRelay(relay);
+      setTests(prev => ({ ...prev, [relay.id]: { ms } }));
+    } catch (e) {
+      setTests(prev => ({ ...prev, [relay.id]: { error: (e as Error).message } }));
+    }
+  };
+
+  const addRelay = () => {
+    const template = draft.template.trim();
+    if (!template.includes('{url}')) {
+      setDraftError('地址中需要包含 {url} 占位符');
+      return;
+    }
+    let host: string;
+    try {
+      host = new URL(template.replace('{url}', ''), location.href).host;
+    } catch {
+      setDraftError('地址格式不正确');
+      return;
+    }
+    setRelays([...settings.relays, {
+      id: `custom-${Date.now().toString(36)}`,
+      name: draft.name.trim() || host,
+      template,
+      mode: draft.mode,
+      enabled: true,
+    }]);
+    setDraft({ name: '', template: '', mode: 'raw' });
+    setDraftError('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30 backdrop-blur-sm" onClick={onClose}></div>
+      <aside className="relative w-full max-w-lg h-full glass-panel shadow-2xl flex flex-col p-6 animate-fade-in-up overflow-y-auto custom-scrollbar">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+            <div className="p-2 rounded-lg bg-slate-500/10 text-slate-600 dark:text-slate-300">
+              <Icons.Settings className="w-5 h-5" />
+            </div>
+            设置
+          </h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => confirm('恢复所有设置为默认值？') && resetSettings()}
+              className="text-xs text-slate-500 dark:text-slate-400 hover:text-primary-500 transition-colors"
+            >
+              恢复默认
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-slate-200 dark:hover:bg-white/10 text-slate-500 dark:text-slate-400">
+              <Icons.Close className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <section className="mb-8">
+          <h4 className="text-sm font-bold text-slate-800 dark:text-white mb-1">中转节点</h4>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-3 leading-relaxed">
+            跨域请求按顺序尝试已启用的节点，失败或返回无效内容时自动切换到下一个。
+            本地中转由 <code className="font-mono">npm run dev</code> / <code className="font-mono">preview</code> 提供。
+          </p>
+          <div className="space-y-2">
+            {settings.relays.map((relay, index) => {
+              const test = tests[relay.id];
+              return (
+                <div key={relay.id} className={`p-3 rounded-xl border bg-white/40 dark:bg-white/5 border-white/40 dark:border-white/10 ${relay.enabled ? '' : 'opacity-60'}`}>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={relay.enabled}
+                      onChange={() => patchRelay(relay.id, { enabled: !relay.enabled })}
+                      title={relay.enabled ? '停用' : '启用'}
+                    />
+                    <span className="flex-1 min-w-0 text-sm font-semibold text-slate-800 dark:text-slate-200 truncate">{relay.name}</span>
+                    <span className="px-1.5 py-0.5 rounded bg-slate-200 dark:bg-white/10 text-[10px] font-bold uppercase text-slate-600 dark:text-slate-300">{relay.mode}</span>
+                    <button onClick={() => move(index, -1)} disabled={index === 0} className={smallButton} title="上移">↑</button>
+                    <button onClick={() => move(index, 1)} disabled={index === settings.relays.length - 1} className={smallButton} title="下移">↓</button>
+                    <button onClick={() => runTest(relay)} disabled={test?.running} className={smallButton}>测试</button>
+                    <button onClick={() => setRelays(settings.relays.filter(r => r.id !== relay.id))} className={`${smallButton} hover:text-red-500`} title="删除">
+                      <Icons.Trash className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  <p className="text-[11px] font-mono text-slate-500 dark:text-slate-400 mt-1 truncate" title={relay.template}>{relay.template}</p>
+                  {test && (
+                    <p className={`text-[11px] mt-1 ${test.running ? 'text-slate-500' : test.error ? 'text-red-500' : 'text-emerald-500'}`}>
+                      {test.running ? '测试中...' : test.error ? `不可用 · ${test.error}` : `可用 · ${test.ms} ms`}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="mt-3 p-3 rounded-xl border border-dashed border-slate-300 dark:border-white/20 space-y-2">
+            <div className="flex gap-2">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="名称 (可选)"
+                className={`${inputClass} w-1/3`}
+              />
+              <select
+                value={draft.mode}
+                onChange={(e) => setDraft({ ...draft, mode: e.target.value as RelayMode })}
+                className={`${inputClass} w-auto`}
+              >
+                <option value="raw">raw</option>
+                <option value="wrapped">wrapped</option>
+              </select>
+            </div>
+            <div className="flex gap-2">
+              <input
+                value={draft.template}
+                onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                placeholder="https://relay.example.com/?url={url}"
+                className={`${inputClass} font-mono`}
+                onKeyDown={(e) => e.key === 'Enter' && addRelay()}
+              />
+              <button onClick={addRelay} className="px-4 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-sm font-bold shrink-0">
+                添加
+              </button>
+            </div>
+            {draftError && <p className="text-[11px] text-red-500">{draftError}</p>}
+          </div>
+        </section>
+
+        <section>
+          <h4 className="text-sm font-bold text-slate-800 dark:text-white mb-1">B站解析接口</h4>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">用于获取 MP4 直链的第三方接口，同样经由中转节点请求。</p>
+          <input
+            value={settings.bilibiliParserApi}
+            onChange={(e) => updateSettings({ bilibiliParserApi: e.target.value })}
+            className={`${inputClass} font-mono`}
+          />
+        </section>
+
+        <section>
+          <h4 className="text-sm font-bold text-slate-800 dark:text-white mb-1">AI 分析</h4>
+          <label className="flex items-start gap-2 text-xs text-slate-500 dark:text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.aiBackend === 'fake'}
+              onChange={(e) => updateSettings({ aiBackend: e.target.checked ? 'fake' : 'gemini' })}
+              className="mt-0.5"
+            />
+            使用本地模拟客户端：离线生成演示结果，不请求 Gemini，便于调试摘要与画面分析。
+          </label>
+        </section>
+      </aside>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Icons } from '../constants';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+export const PLAYER_SHORTCUTS: { keys: string[]; label: string }[] = [
+  { keys: ['Space', 'K'], label: '播放 / 暂停' },
+  { keys: ['J', 'L'], label: '后退 / 前进 10 秒' },
+  { keys: ['←', '→'], label: '后退 / 前进 5 秒' },
+  { keys: [',', '.'], label: '上一帧 / 下一帧 (暂停时)' },
+  { keys: ['G'], label: '逐帧改为跳到上一个 / 下一个关键帧 (需读取媒体信息)' },
+  { keys: ['↑', '↓'], label: '音量 +/- 10%' },
+  { keys: ['M'], label: '静音' },
+  { keys: ['<', '>'], label: '减速 / 加速 (0.25x – 4x)' },
+  { keys: ['[', ']'], label: '设置 A 点 / B 点循环' },
+  { keys: ['\\'], label: '清除 A-B 循环' },
+  { keys: ['0 – 9'], label: '跳转到 0% – 90%' },
+  { keys: ['Home', 'End'], label: '跳到开头 / 结尾' },
+  { keys: ['F'], label: '全屏' },
+  { keys: ['P'], label: '画中画' },
+  { keys: ['S'], label: '截帧' },
+  { keys: ['?'], label: '显示 / 隐藏本帮助' },
+];
+
+// Overlay inside the player listing the keyboard shortcuts
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => (
+  <div
+    className="absolute inset-0 z-30 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+    onClick={(e) => { e.stopPropagation(); onClose(); }}
+  >
+    <div
+      className="w-full max-w-lg max-h-full overflow-y-auto custom-scrollbar rounded-2xl bg-slate-900/95 border border-white/10 shadow-2xl p-5"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white font-bold flex items-center gap-2">
+          <Icons.Keyboard className="w-4 h-4 text-primary-400" />
+          键盘快捷键
+        </h3>
+        <button onClick={onClose} className="p-1 rounded-full text-white/60 hover:text-white hover:bg-white/10 transition-colors">
+          <Icons.Close className="w-4 h-4" />
+        </button>
+      </div>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+        {PLAYER_SHORTCUTS.map(shortcut => (
+          <React.Fragment key={shortcut.label}>
+            <dt className="flex gap-1 justify-end">
+              {shortcut.keys.map(key => (
+                <kbd key={key} className="min-w-[1.75rem] px-1.5 py-0.5 rounded-md bg-white/10 border border-white/20 text-white text-xs font-mono text-center">{key}</kbd>
+              ))}
+            </dt>
+            <dd className="text-white/80">{shortcut.label}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  </div>
+);
+
+export default ShortcutHelp;
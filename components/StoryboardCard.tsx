@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icons } from '../constants';
+import { ParsedVideoData, ThumbnailCue } from '../types';
+import { captureStoryboard, renderContactSheet, Storyboard, StoryboardMode, storyboardThumbnails, storyboardTrackZip } from '../services/storyboardService';
+import { readThumbnailFiles } from '../services/thumbnailService';
+import { canvasBlob } from '../services/frameService';
+import { saveBlob } from '../services/fileService';
+import { safeFilename } from '../services/formatters';
+
+interface StoryboardCardProps {
+  video: ParsedVideoData;
+  // Blob URL of the fully cached video; frames can only be read from local data
+  cachedUrl: string | null;
+  // Hands a thumbnail track to the player's seek bar
+  onPreviewTrack?: (cues: ThumbnailCue[]) => void;
+}
+
+const INTERVALS = [2, 5, 10, 30, 60];
+const THUMB_WIDTHS = [160, 240, 320];
+const MAX_FRAMES = 200;
+
+const StoryboardCard: React.FC<StoryboardCardProps> = ({ video, cachedUrl, onPreviewTrack }) => {
+  const [mode, setMode] = useState<StoryboardMode>('interval');
+  const [interval, setIntervalSeconds] = useState(10);
+  const [threshold, setThreshold] = useState(0.15);
+  const [columns, setColumns] = useState(5);
+  const [thumbWidth, setThumbWidth] = useState(240);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [board, setBoard] = useState<Storyboard | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [previewNotice, setPreviewNotice] = useState('');
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setBoard(null);
+    setProgress(null);
+    setPreviewNotice('');
+    return () => controllerRef.current?.abort();
+  }, [video.id, video.currentCid]);
+
+  // The sheet is re-laid out whenever the column count changes, without capturing again
+  useEffect(() => {
+    if (!board) return setPreview(null);
+    const sheet = renderContactSheet(board, { columns, title: video.title });
+    setPreview(sheet.toDataURL('image/jpeg', 0.8));
+  }, [board, columns]);
+
+  const generate = async () => {
+    if (!cachedUrl) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError('');
+    setProgress(0);
+    try {
+      const result = await captureStoryboard(cachedUrl, {
+        mode, interval, threshold, thumbWidth,
+        maxFrames: MAX_FRAMES,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      if (!controller.signal.aborted) setBoard(result);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error("Storyboard generation failed", e);
+      setError((e as Error).message || String(e));
+    } finally {
+      if (controllerRef.current === controller) setProgress(null);
+    }
+  };
+
+  const baseName = safeFilename(`${video.title}_storyboard`);
+
+  const exportSheet = async (mime: 'image/png' | 'image/jpeg') => {
+    if (!board) return;
+    const blob = await canvasBlob(renderContactSheet(board, { columns, title: video.title }), mime, 0.9);
+    saveBlob(blob, `${baseName}.${mime === 'image/png' ? 'png' : 'jpg'}`);
+  };
+
+  const exportTrack = async () => {
+    if (!board) return;
+    saveBlob(await storyboardTrackZip(board, columns, baseName), `${baseName}_vtt.zip`);
+  };
+
+  const useAsPreview = async () => {
+    if (!board || !onPreviewTrack) return;
+    onPreviewTrack(await storyboardThumbnails(board, columns));
+    setPreviewNotice('已用于进度条悬停预览');
+  };
+
+  const importTrack = async (files: File[]) => {
+    if (!onPreviewTrack || files.length === 0) return;
+    setError('');
+    try {
+      const cues = await readThumbnailFiles(files);
+      onPreviewTrack(cues);
+      setPreviewNotice(`已导入缩略图轨道 (${cues.length} 条)`);
+    } catch (e) {
+      setError((e as Error).message || String(e));
+    }
+  };
+
+  const busy = progress != null;
+  const choice = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-xs font-bold transition-colors border ${active ? 'bg-primary-500 border-primary-500 text-white' : 'border-slate-200/50 dark:border-white/10 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10'}`;
+  const exportButton = 'px-3 py-2 rounded-lg bg-white/50 dark:bg-white/10 hover:bg-white dark:hover:bg-white/20 border border-slate-200/50 dark:border-white/10 text-xs font-bold text-slate-700 dark:text-slate-200 transition-colors';
+
+  return (
+    <div className="glass-panel rounded-3xl p-6 sm:p-8 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-5">
+        <h3 className="text-lg font-bold flex items-center gap-2 text-slate-800 dark:text-white">
+          <div className="p-2 rounded-lg bg-sky-500/10 text-sky-600 dark:text-sky-400">
+            <Icons.Camera className="w-5 h-5" />
+          </div>
+          缩略图故事板
+        </h3>
+        <div className="flex items-center gap-3">
+          {onPreviewTrack && (
+            <label className="text-xs font-bold text-slate-500 dark:text-slate-400 hover:text-primary-500 cursor-pointer transition-colors" title="选择 .vtt 文件及其引用的雪碧图">
+              导入 WebVTT 轨道
+              <input
+                type="file"
+                accept=".vtt,image/*"
+                multiple
+                className="hidden"
+                onChange={(e) => { importTrack(Array.from(e.target.files || [])); e.target.value = ''; }}
+              />
+            </label>
+          )}
+          <button
+            onClick={busy ? () => controllerRef.current?.abort() : generate}
+            disabled={!cachedUrl}
+            className="px-4 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-sm font-bold transition-all shadow-lg hover:-translate-y-0.5 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none flex items-center gap-2"
+          >
+            {busy ? <><Icons.Loader className="w-4 h-4 animate-spin" />{Math.round(progress! * 100)}% · 取消</> : board ? '重新生成' : '生成故事板'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4 text-xs text-slate-500 dark:text-slate-400 mb-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-12">取帧</span>
+          <button onClick={() => setMode('interval')} disabled={busy} className={choice(mode === 'interval')}>固定间隔</button>
+          <button onClick={() => setMode('scenes')} disabled={busy} className={choice(mode === 'scenes')}>场景切换</button>
+        </div>
+
+        {mode === 'interval' ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="w-12">间隔</span>
+            {INTERVALS.map(s => (
+              <button key={s} onClick={() => setIntervalSeconds(s)} disabled={busy} className={choice(interval === s)}>{s}s</button>
+            ))}
+          </div>
+        ) : (
+          <label className="flex items-center gap-2">
+            <span className="w-12">阈值</span>
+            <input type="range" min={0.05} max={0.4} step={0.01} value={threshold} disabled={busy} onChange={(e) => setThreshold(parseFloat(e.target.value))} className="flex-1 accent-primary-500" />
+            <span className="w-10 text-right font-mono">{threshold.toFixed(2)}</span>
+          </label>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-12">缩略图</span>
+          {THUMB_WIDTHS.map(w => (
+            <button key={w} onClick={() => setThumbWidth(w)} disabled={busy} className={choice(thumbWidth === w)}>{w}px</button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2">
+          <span className="w-12">列数</span>
+          <input type="range" min={2} max={10} value={columns} onChange={(e) => setColumns(parseInt(e.target.value, 10))} className="flex-1 accent-primary-500" />
+          <span className="w-10 text-right font-mono">{columns}</span>
+        </label>
+      </div>
+
+      {!cachedUrl && !board && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">需等待视频缓存完成后才能生成故事板。</p>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {previewNotice && <p className="text-xs text-green-600 dark:text-green-400 mb-3">{previewNotice}</p>}
+
+      {board && preview && (
+        <div className="space-y-4">
+          <div className="max-h-[480px] overflow-y-auto custom-scrollbar rounded-2xl border border-slate-200/50 dark:border-white/10">
+            <img src={preview} alt="故事板预览" className="w-full" />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-slate-500 dark:text-slate-400 mr-auto">{board.frames.length} 帧</span>
+            <button onClick={() => exportSheet('image/png')} className={exportButton}>导出 PNG</button>
+            <button onClick={() => exportSheet('image/jpeg')} className={exportButton}>导出 JPEG</button>
+            <button onClick={exportTrack} className={exportButton} title="WebVTT 缩略图轨道与雪碧图">导出 WebVTT 轨道</button>
+            {onPreviewTrack && (
+              <button onClick={useAsPreview} className={exportButton}>用于进度条预览</button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoryboardCard;
@@ -0,0 +1,95 @@
+import React, { useRef, useState } from 'react';
+import { SubtitleFormat, SubtitleTrack } from '../types';
+import { SUBTITLE_FILE_TYPES } from '../services/subtitleService';
+
+interface SubtitleMenuProps {
+  tracks: SubtitleTrack[];
+  activeId: string | null;
+  loading: boolean;
+  onSelect: (id: string | null) => void;
+  onLoadFile: (file: File) => void;
+  // Saves the active track in the given format
+  onExport: (format: SubtitleFormat) => void;
+}
+
+const itemClass = 'w-full flex items-center justify-between gap-3 px-4 py-2 text-left text-xs transition-colors hover:bg-white/10';
+
+// Language picker for the player's control bar, with local file loading and export
+const SubtitleMenu: React.FC<SubtitleMenuProps> = ({ tracks, activeId, loading, onSelect, onLoadFile, onExport }) => {
+  const [open, setOpen] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const select = (id: string | null) => {
+    onSelect(id);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title="字幕"
+        className={`px-3 py-2 backdrop-blur-md rounded-lg text-xs font-bold transition-all border ${activeId ? 'bg-primary-500/80 border-primary-400/50 text-white' : 'bg-white/10 hover:bg-white/20 border-white/10 hover:border-white/30 text-white'}`}
+      >
+        {loading ? '加载中…' : 'CC'}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full right-0 mb-2 min-w-[200px] py-1 rounded-xl bg-slate-900/95 backdrop-blur-md border border-white/10 shadow-2xl">
+          <button onClick={() => select(null)} className={`${itemClass} ${!activeId ? 'text-primary-400 font-bold' : 'text-white/80'}`}>
+            关闭字幕
+          </button>
+          {tracks.map(track => (
+            <button
+              key={track.id}
+              onClick={() => select(track.id)}
+              className={`${itemClass} ${track.id === activeId ? 'text-primary-400 font-bold' : 'text-white/80'}`}
+            >
+              <span className="truncate max-w-[160px]">{track.label}</span>
+              {(track.auto || track.local) && (
+                <span className="text-[10px] opacity-50">{track.local ? '本地' : 'AI'}</span>
+              )}
+            </button>
+          ))}
+
+          <div className="border-t border-white/10 mt-1 pt-1">
+            <button onClick={() => fileRef.current?.click()} className={`${itemClass} text-white/80`}>
+              加载本地字幕 (SRT/VTT/JSON)
+            </button>
+            {activeId && !loading && (
+              <div className="flex items-center gap-1 px-4 py-2 text-xs text-white/50">
+                导出
+                {(Object.keys(SUBTITLE_FILE_TYPES) as SubtitleFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => onExport(format)}
+                    className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 text-white font-bold"
+                  >
+                    {SUBTITLE_FILE_TYPES[format].label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".srt,.vtt,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) {
+            onLoadFile(file);
+            setOpen(false);
+          }
+        }}
+      />
+    </div>
+  );
+};
+
+export default SubtitleMenu;
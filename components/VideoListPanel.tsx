@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icons } from '../constants';
+import { TraceStep, VideoList, VideoListEntry } from '../types';
+import { fetchVideoList } from '../services/parserService';
+import { ParseTrace, toParseError } from '../services/errors';
+import DiagnosticsPanel from './DiagnosticsPanel';
+
+interface VideoListPanelProps {
+  // List link to page through; remount the panel for another one
+  url: string;
+  // Hands the selected videos to the batch parser, optionally downloading each result
+  onParse: (inputs: string[], download: boolean) => void;
+}
+
+// The videos of an uploader's space, a favourites folder or a season, to pick from for a batch parse
+const VideoListPanel: React.FC<VideoListPanelProps> = ({ url, onParse }) => {
+  const [list, setList] = useState<VideoList | null>(null);
+  const [entries, setEntries] = useState<VideoListEntry[]>([]);
+  const [total, setTotal] = useState<number | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<{ message: string; action: string; steps: TraceStep[] } | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const trace = new ParseTrace();
+    fetchVideoList(url, {
+      signal: controller.signal,
+      tracer: trace,
+      onPage: (page, count) => {
+        setEntries(page);
+        setTotal(count);
+      },
+    })
+      .then(result => {
+        setList(result);
+        setEntries(result.entries);
+        setTotal(result.total);
+        setSelected(new Set(result.entries.filter(e => !e.unavailable).map(e => e.id)));
+      })
+      .catch(e => {
+        // Stopped by the user: keep what was paged so far
+        if (controller.signal.aborted) return;
+        console.error("Failed to fetch video list", e);
+        const parseError = toParseError(e);
+        setError({ message: parseError.userMessage, action: parseError.action, steps: trace.steps });
+      })
+      .finally(() => setLoading(false));
+    return () => controller.abort();
+  }, [url]);
+
+  const stop = () => {
+    controllerRef.current?.abort();
+    setSelected(new Set(entries.filter(e => !e.unavailable).map(e => e.id)));
+  };
+
+  const available = entries.filter(e => !e.unavailable);
+  const allSelected = available.length > 0 && available.every(e => selected.has(e.id));
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(available.map(e => e.id)));
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selectedInputs = entries.filter(e => selected.has(e.id)).map(e => e.input);
+
+  const actionButton = 'px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-200/60 dark:bg-white/10 text-slate-700 dark:text-slate-200 hover:bg-slate-300/60 dark:hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="glass-panel rounded-3xl p-6 shadow-xl">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold flex items-center gap-2 text-slate-800 dark:text-white min-w-0">
+          <div className="p-2 rounded-lg bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 shrink-0">
+            <Icons.List className="w-5 h-5" />
+          </div>
+          <span className="truncate">{list?.title || '视频列表'}</span>
+          {list && (
+            <span className="px-2 py-0.5 rounded-full text-[11px] font-bold bg-slate-200 dark:bg-white/10 text-slate-600 dark:text-slate-300 shrink-0">
+              {list.kind}
+            </span>
+          )}
+        </h3>
+        {loading && (
+          <button
+            onClick={stop}
+            className="px-3 py-1.5 rounded-lg text-xs font-bold bg-red-500/10 text-red-600 dark:text-red-300 hover:bg-red-500/20 transition-colors flex items-center gap-2"
+          >
+            <Icons.Loader className="w-3.5 h-3.5 animate-spin" />
+            停止读取 ({entries.length}{total ? `/${total}` : ''})
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-red-600 dark:text-red-300 mb-4">
+          <p className="font-bold text-sm">{error.message}</p>
+          <p className="text-xs opacity-80 mt-1">{error.action}</p>
+          <DiagnosticsPanel steps={error.steps} className="mt-3" />
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <label className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={loading} />
+              共 {entries.length} 个{total && total > entries.length && !loading ? ` (列表共 ${total} 个，超出部分未读取)` : ''}
+              {selected.size > 0 && <> · 已选 {selected.size}</>}
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => onParse(selectedInputs, false)} disabled={loading || selected.size === 0} className={actionButton}>
+                批量解析所选
+              </button>
+              <button onClick={() => onParse(selectedInputs, true)} disabled={loading || selected.size === 0} className={actionButton}>
+                解析并下载所选
+              </button>
+            </div>
+          </div>
+
+          <ul className="max-h-[36rem] overflow-y-auto custom-scrollbar pr-1 divide-y divide-slate-200/40 dark:divide-white/5">
+            {entries.map(entry => (
+              <li key={entry.id}>
+                <label className={`flex items-center gap-3 py-2 ${entry.unavailable ? 'opacity-50' : 'cursor-pointer'}`}>
+                  <input
+                    type="checkbox"
+                    checked={selected.has(entry.id)}
+                    onChange={() => toggle(entry.id)}
+                    disabled={loading || entry.unavailable}
+                  />
+                  <div className="relative w-28 aspect-video shrink-0 rounded-lg overflow-hidden bg-slate-200 dark:bg-white/5">
+                    {entry.thumbnailUrl && (
+                      <img src={entry.thumbnailUrl} alt="" loading="lazy" referrerPolicy="no-referrer" className="w-full h-full object-cover" />
+                    )}
+                    {entry.duration && (
+                      <span className="absolute bottom-1 right-1 px-1 rounded bg-black/70 text-white text-[10px] font-mono">{entry.duration}</span>
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-slate-800 dark:text-slate-200 line-clamp-2">{entry.title}</p>
+                    <p className="text-[11px] text-slate-500 dark:text-slate-400 mt-0.5">
+                      {entry.unavailable ? '已失效' : [entry.author, entry.publishedAt && new Date(entry.publishedAt).toLocaleDateString()].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {!loading && !error && entries.length === 0 && (
+        <p className="text-sm text-slate-500 dark:text-slate-400">列表中没有视频。</p>
+      )}
+    </div>
+  );
+};
+
+export default VideoListPanel;
@@ -1,31 +1,164 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
 import { Icons } from '../constants';
+import { Chapter, Danmaku, PlayerType, Rendition, SubtitleCue, SubtitleFormat, SubtitleTrack, ThumbnailCue, VideoSource } from '../types';
+import { ManifestPlayer } from '../services/manifest/player';
+import DanmakuLayer from './DanmakuLayer';
+import DanmakuControls from './DanmakuControls';
+import { useSettings } from './SettingsPanel';
+import SubtitleMenu from './SubtitleMenu';
+import ClipExportCard from './ClipExportCard';
+import SeekPreview from './SeekPreview';
+import ShortcutHelp from './ShortcutHelp';
+import CaptureTray from './CaptureTray';
+import { activeCue, formatSubtitles, loadSubtitleCues, readSubtitleFile, SUBTITLE_FILE_TYPES } from '../services/subtitleService';
+import { FramePreviewer, thumbnailAt } from '../services/thumbnailService';
+import { CapturedStill, captureStill } from '../services/captureService';
+import { chapterAt } from '../services/chapterService';
+import { keyframeAfter, keyframeBefore } from '../services/mediaInfoService';
+import { saveBlob } from '../services/fileService';
+import { safeFilename } from '../services/formatters';
 
 interface VideoPlayerProps {
   url: string;
   poster?: string;
-  playerType: 'native' | 'iframe';
+  playerType: PlayerType;
   className?: string;
+  // Alternative qualities of the same video; enables the quality menu
+  sources?: VideoSource[];
+  activeSourceIndex?: number;
+  onSourceChange?: (index: number) => void;
+  // Called with the Blob URL once the whole video is cached locally, and with null when it goes away
+  onCacheChange?: (blobUrl: string | null) => void;
+  // Bullet comments to overlay; the danmaku controls only show when this is set
+  danmaku?: Danmaku[] | null;
+  onExportDanmaku?: () => void;
+  // Caption tracks offered by the platform; local files can be added on top
+  subtitles?: SubtitleTrack[];
+  // Used to name exported files
+  title?: string;
+  // Platform id of the video, used to name captured frames
+  videoId?: string;
+  // Chapters split the seek bar; bookmarks among them are drawn as markers
+  chapters?: Chapter[];
+  onAddBookmark?: (time: number) => void;
+  // Hover previews from a thumbnail track; without one they are grabbed from the cached video
+  thumbnails?: ThumbnailCue[] | null;
+  // Seconds to start at once the video has loaded, e.g. from a shared link; read when the player mounts
+  startTime?: number;
+  // Keyframe times and exact frame rate read from the container by the media inspector
+  keyframes?: number[];
+  frameRate?: number;
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, poster, playerType, className }) => {
+// Lets the page drive the player, e.g. jumping to a timestamp from an analysis result
+export interface VideoPlayerHandle {
+  seek: (time: number) => void;
+  getVideoElement: () => HTMLVideoElement | null;
+  getCachedUrl: () => string | null;
+}
+
+// Seconds selected when clip mode starts, or when one marker pushes the other
+const DEFAULT_CLIP_LENGTH = 5;
+// Hover previews grabbed from the cached video are shared within this fraction of the duration
+const PREVIEW_STEP = 1 / 300;
+// Offered by the speed menu and stepped through with < and >
+const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 3, 4];
+// Assumed for frame stepping until the real frame rate is known
+const DEFAULT_FRAME_DURATION = 1 / 30;
+// Text inputs keep their keys; range sliders and checkboxes don't need them
+const TYPING_TARGETS = 'textarea, select, [contenteditable="true"], input:not([type="range"]):not([type="checkbox"])';
+
+const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(({ url, poster, playerType, className, sources, activeSourceIndex = 0, onSourceChange, onCacheChange, danmaku, onExportDanmaku, subtitles, title, videoId, chapters, onAddBookmark, thumbnails, startTime, keyframes, frameRate }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Position to restore after a quality switch reloads the video; starts out as the requested start time
+  const resumeRef = useRef<{ time: number; play: boolean } | null>(startTime ? { time: startTime, play: false } : null);
+  const manifestPlayerRef = useRef<ManifestPlayer | null>(null);
+  const previewerRef = useRef<FramePreviewer | null>(null);
+  const keyHandlerRef = useRef<((e: KeyboardEvent) => void) | null>(null);
+  const osdTimerRef = useRef(0);
+  const settings = useSettings();
+  const danmakuSettings = settings.danmaku;
+
+  // HLS/DASH sources play through MSE; switching between their renditions must not reload the player
+  const manifest = sources?.[activeSourceIndex]?.manifest;
+  const mediaKey = manifest ? manifest.url : url;
   
   // Playback State
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isHovering, setIsHovering] = useState(false);
+  const [showQualityMenu, setShowQualityMenu] = useState(false);
+  const [volume, setVolume] = useState(1);
+  const [muted, setMuted] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [showSpeedMenu, setShowSpeedMenu] = useState(false);
+  // A-B repeat; `b` is unset while only the start point has been chosen
+  const [abLoop, setAbLoop] = useState<{ a: number; b?: number } | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [isPip, setIsPip] = useState(false);
+  const [showHelp, setShowHelp] = useState(false);
+  // Brief on-screen feedback for keyboard actions
+  const [osd, setOsd] = useState<string | null>(null);
+  const [measuredFrameDuration, setMeasuredFrameDuration] = useState<number | null>(null);
+  // Frame stepping jumps between keyframes instead
+  const [snapToKeyframes, setSnapToKeyframes] = useState(false);
+  const canSnap = !!keyframes?.length;
   
   // Download/Buffering State
   const [downloadProgress, setDownloadProgress] = useState(0);
   const [isDownloading, setIsDownloading] = useState(false);
   const [blobUrl, setBlobUrl] = useState<string | null>(null);
+  // Set when `blobUrl` is the caller's own object URL rather than our download, so it is not revoked here
+  const handedInUrlRef = useRef<string | null>(null);
   const [useDirectStream, setUseDirectStream] = useState(false); 
+
+  // Adaptive Stream State
+  const [mseUrl, setMseUrl] = useState<string | null>(null);
+  const [activeRendition, setActiveRendition] = useState<Rendition | null>(null);
+  const [streamError, setStreamError] = useState<string | null>(null);
   
-  // Screenshot State
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  // Captured frames collected in the tray below the player; the tray can also be opened empty for range capture
+  const [stills, setStills] = useState<CapturedStill[]>([]);
+  const [trayOpen, setTrayOpen] = useState(false);
+  const stillsRef = useRef(stills);
+  stillsRef.current = stills;
+
+  // Clip range being trimmed for export, in seconds
+  const [clip, setClip] = useState<{ start: number; end: number } | null>(null);
+
+  // Seek bar hover: time under the pointer and its position along the bar
+  const [seekHover, setSeekHover] = useState<{ time: number; ratio: number } | null>(null);
+  const [previewFrame, setPreviewFrame] = useState<string | null>(null);
+  const segments = (chapters || []).filter(c => c.source !== 'bookmark').sort((a, b) => a.start - b.start);
+  const bookmarks = (chapters || []).filter(c => c.source === 'bookmark');
+
+  // Subtitle State
+  const [localTracks, setLocalTracks] = useState<SubtitleTrack[]>([]);
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(null);
+  const [cues, setCues] = useState<SubtitleCue[]>([]);
+  const [loadingCues, setLoadingCues] = useState(false);
+  const tracks = [...(subtitles || []), ...localTracks];
+  const activeTrack = tracks.find(t => t.id === activeTrackId);
+
+  useImperativeHandle(ref, () => ({
+    seek: (time: number) => {
+      const video = videoRef.current;
+      if (!video) return;
+      video.currentTime = time;
+      setCurrentTime(time);
+    },
+    getVideoElement: () => videoRef.current,
+    getCachedUrl: () => blobUrl,
+  }), [blobUrl]);
+
+  useEffect(() => {
+    onCacheChange?.(blobUrl);
+  }, [blobUrl]);
+
+  useEffect(() => () => stillsRef.current.forEach(still => URL.revokeObjectURL(still.url)), []);
 
   // ... (Logic remains largely the same, focusing on UI update in return)
   
@@ -33,15 +166,24 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, poster, playerType, clas
     setIsPlaying(false);
     setCurrentTime(0);
     setDownloadProgress(0);
-    setCapturedImage(null);
     setUseDirectStream(false);
     
     if (blobUrl) {
-      URL.revokeObjectURL(blobUrl);
+      if (blobUrl !== handedInUrlRef.current) URL.revokeObjectURL(blobUrl);
       setBlobUrl(null);
     }
+    handedInUrlRef.current = null;
 
-    if (playerType === 'iframe') return;
+    if (playerType === 'iframe' || manifest) return;
+
+    // Local files arrive as object URLs already; they belong to the caller and need no caching
+    if (url.startsWith('blob:')) {
+      handedInUrlRef.current = url;
+      setBlobUrl(url);
+      setDownloadProgress(100);
+      setIsDownloading(false);
+      return;
+    }
 
     const controller = new AbortController();
     let isAborted = false;
@@ -79,7 +221,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, poster, playerType, clas
           }
         }
 
-        const blob = new Blob(chunks, { type: 'video/mp4' });
+        const blob = new Blob(chunks, { type: response.headers.get('content-type') || 'video/mp4' });
         const objectUrl = URL.createObjectURL(blob);
         
         if (!isAborted) {
@@ -106,7 +248,193 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, poster, playerType, clas
       isAborted = true;
       controller.abort();
     };
-  }, [url, playerType]);
+  }, [mediaKey, playerType]);
+
+  useEffect(() => {
+    setActiveRendition(null);
+    setStreamError(null);
+    if (!manifest || playerType === 'iframe') return;
+
+    // Safari without MSE can still play HLS itself
+    const nativeHls = () => manifest.kind === 'hls' && document.createElement('video').canPlayType('application/vnd.apple.mpegurl') !== '';
+    if (!ManifestPlayer.isSupported()) {
+      if (nativeHls()) setUseDirectStream(true);
+      else setStreamError('当前浏览器不支持 Media Source Extensions');
+      return;
+    }
+
+    const player = new ManifestPlayer(manifest.url, manifest.kind, () => videoRef.current, {
+      onRendition: setActiveRendition,
+      onError: (message) => {
+        if (nativeHls()) {
+          setMseUrl(null);
+          setUseDirectStream(true);
+        } else {
+          setStreamError(message);
+        }
+      },
+    });
+    player.setRendition(manifest.renditionId ?? null);
+    manifestPlayerRef.current = player;
+    setMseUrl(player.objectUrl);
+
+    return () => {
+      player.destroy();
+      manifestPlayerRef.current = null;
+      setMseUrl(null);
+    };
+  }, [manifest?.url, manifest?.kind, playerType]);
+
+  useEffect(() => {
+    manifestPlayerRef.current?.setRendition(manifest?.renditionId ?? null);
+  }, [manifest?.renditionId]);
+
+  const activeSrc = mseUrl || blobUrl || (useDirectStream ? (manifest?.url ?? url) : undefined);
+  const knownFrameRate = activeRendition?.frameRate || frameRate;
+  const frameDuration = knownFrameRate ? 1 / knownFrameRate : measuredFrameDuration ?? DEFAULT_FRAME_DURATION;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.volume = volume;
+    video.muted = muted;
+    // A new src resets playbackRate to the default, so keep both in step
+    video.defaultPlaybackRate = playbackRate;
+    video.playbackRate = playbackRate;
+  }, [volume, muted, playbackRate, activeSrc]);
+
+  // <video> doesn't expose the frame rate; measure it from the media times of presented frames
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !('requestVideoFrameCallback' in video)) return;
+    const deltas: number[] = [];
+    let last = -1;
+    let handle = 0;
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      const delta = metadata.mediaTime - last;
+      last = metadata.mediaTime;
+      if (delta > 0.001 && delta < 0.2) deltas.push(delta);
+      if (deltas.length >= 30) {
+        deltas.sort((a, b) => a - b);
+        setMeasuredFrameDuration(deltas[Math.floor(deltas.length / 2)]);
+        return;
+      }
+      handle = video.requestVideoFrameCallback(onFrame);
+    };
+    handle = video.requestVideoFrameCallback(onFrame);
+    return () => video.cancelVideoFrameCallback(handle);
+  }, [activeSrc]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || abLoop?.b == null) return;
+    const { a, b } = abLoop;
+    let frame = 0;
+    const check = () => {
+      if (video.currentTime >= b || video.currentTime < a - 1) video.currentTime = a;
+      frame = requestAnimationFrame(check);
+    };
+    frame = requestAnimationFrame(check);
+    return () => cancelAnimationFrame(frame);
+  }, [abLoop, activeSrc]);
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(!!containerRef.current && document.fullscreenElement === containerRef.current);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const enter = () => setIsPip(true);
+    const leave = () => setIsPip(false);
+    video.addEventListener('enterpictureinpicture', enter);
+    video.addEventListener('leavepictureinpicture', leave);
+    return () => {
+      video.removeEventListener('enterpictureinpicture', enter);
+      video.removeEventListener('leavepictureinpicture', leave);
+    };
+  }, [activeSrc]);
+
+  useEffect(() => {
+    if (playerType !== 'native') return;
+    const listener = (e: KeyboardEvent) => keyHandlerRef.current?.(e);
+    window.addEventListener('keydown', listener);
+    return () => {
+      window.removeEventListener('keydown', listener);
+      window.clearTimeout(osdTimerRef.current);
+    };
+  }, [playerType]);
+
+  useEffect(() => {
+    setPreviewFrame(null);
+    if (!blobUrl || !duration || thumbnails?.length) return;
+    const previewer = new FramePreviewer(blobUrl, Math.max(1, duration * PREVIEW_STEP));
+    previewerRef.current = previewer;
+    return () => {
+      previewer.destroy();
+      previewerRef.current = null;
+    };
+  }, [blobUrl, duration, !!thumbnails?.length]);
+
+  useEffect(() => {
+    setCues([]);
+    if (!activeTrack) return;
+    let cancelled = false;
+    setLoadingCues(true);
+    loadSubtitleCues(activeTrack)
+      .then(loaded => { if (!cancelled) setCues(loaded); })
+      .catch(err => {
+        console.warn("Failed to load subtitles", err);
+        if (!cancelled) setActiveTrackId(null);
+      })
+      .finally(() => { if (!cancelled) setLoadingCues(false); });
+    return () => { cancelled = true; };
+  }, [activeTrack?.id]);
+
+  const loadSubtitleFile = async (file: File) => {
+    try {
+      const track = await readSubtitleFile(file);
+      setLocalTracks(prev => [...prev, track]);
+      setActiveTrackId(track.id);
+    } catch (err) {
+      console.error("Failed to read subtitle file:", err);
+      alert(`无法读取字幕文件: ${(err as Error).message}`);
+    }
+  };
+
+  const exportSubtitles = (format: SubtitleFormat) => {
+    if (!activeTrack || cues.length === 0) return;
+    const { ext, mime } = SUBTITLE_FILE_TYPES[format];
+    const name = safeFilename(`${title || 'video'}_${activeTrack.label}`);
+    saveBlob(new Blob([formatSubtitles(cues, format)], { type: `${mime};charset=utf-8` }), `${name}.${ext}`);
+  };
+
+  const toggleClip = () => {
+    if (clip) return setClip(null);
+    const start = videoRef.current?.currentTime ?? currentTime;
+    setClip({ start, end: Math.min(duration || start + DEFAULT_CLIP_LENGTH, start + DEFAULT_CLIP_LENGTH) });
+  };
+
+  // Moving one marker past the other drags the other along, keeping the range non-empty
+  const setClipStart = () => {
+    const time = videoRef.current?.currentTime ?? currentTime;
+    setClip(prev => prev && { start: time, end: prev.end > time ? prev.end : Math.min(duration, time + DEFAULT_CLIP_LENGTH) });
+  };
+
+  const setClipEnd = () => {
+    const time = videoRef.current?.currentTime ?? currentTime;
+    setClip(prev => prev && { start: prev.start < time ? prev.start : Math.max(0, time - DEFAULT_CLIP_LENGTH), end: time });
+  };
+
+  const previewClip = () => {
+    const video = videoRef.current;
+    if (!video || !clip) return;
+    video.currentTime = clip.start;
+    setCurrentTime(clip.start);
+    video.play().then(() => setIsPlaying(true)).catch(() => setIsPlaying(false));
+  };
 
   const togglePlay = useCallback((e?: React.MouseEvent) => {
     if (playerType === 'iframe') return;
@@ -126,7 +454,29 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, poster, playerType, clas
   };
 
   const handleLoadedMetadata = () => {
-    if (videoRef.current) setDuration(videoRef.current.duration);
+    const video = videoRef.current;
+    if (!video) return;
+    setDuration(video.duration);
+
+    const resume = resumeRef.current;
+    if (resume) {
+      resumeRef.current = null;
+      video.currentTime = resume.time;
+      setCurrentTime(resume.time);
+      if (resume.play) {
+        video.play().then(() => setIsPlaying(true)).catch(() => setIsPlaying(false));
+      }
+    }
+  };
+
+  const switchQuality = (index: number) => {
+    setShowQualityMenu(false);
+    if (index === activeSourceIndex || !onSourceChange) return;
+    const video = videoRef.current;
+    // Renditions of one manifest switch inside the running player
+    const sameManifest = manifest && sources?.[index]?.manifest?.url === manifest.url;
+    resumeRef.current = video && !sameManifest ? { time: video.currentTime, play: !video.paused } : null;
+    onSourceChange(index);
   };
 
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -137,68 +487,236 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, poster, playerType, clas
     }
   };
 
+  const handleSeekHover = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const time = ratio * duration;
+    setSeekHover({ time, ratio });
+    previewerRef.current?.request(time, setPreviewFrame);
+  };
+
   const skipDownload = () => {
       setUseDirectStream(true);
       setIsDownloading(false);
   };
 
-  const captureFrame = useCallback((e: React.MouseEvent) => {
-    e.stopPropagation();
-    e.preventDefault();
+  const formatTime = (time: number) => {
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+  };
+
+  const flash = (text: string) => {
+    setOsd(text);
+    window.clearTimeout(osdTimerRef.current);
+    osdTimerRef.current = window.setTimeout(() => setOsd(null), 900);
+  };
 
+  const seekToTime = (time: number) => {
     const video = videoRef.current;
-    const canvas = canvasRef.current;
-
-    if (video && canvas) {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-            try {
-                ctx.drawImage(video, 0, 0);
-                const dataUrl = canvas.toDataURL('image/png');
-                setCapturedImage(dataUrl);
-                
-                if (!video.paused) {
-                    video.pause();
-                    setIsPlaying(false);
-                }
-
-                setTimeout(() => {
-                    document.getElementById('capture-preview')?.scrollIntoView({ behavior: 'smooth' });
-                }, 100);
-
-            } catch (err) {
-                console.error("Screenshot failed:", err);
-                alert("当前模式不支持截帧 (CORS限制)。请等待缓存完成。");
-            }
-        }
+    if (!video) return;
+    const target = Math.min(Math.max(time, 0), duration || video.duration || 0);
+    video.currentTime = target;
+    setCurrentTime(target);
+  };
+
+  const seekBy = (delta: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    seekToTime(video.currentTime + delta);
+    flash(`${delta > 0 ? '+' : ''}${delta} 秒`);
+  };
+
+  // Lands in the middle of the neighbouring frame, so rounding can't leave it on the current one
+  const stepFrame = (direction: 1 | -1) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    setIsPlaying(false);
+    if (snapToKeyframes && canSnap) {
+      const target = direction > 0 ? keyframeAfter(keyframes!, video.currentTime) : keyframeBefore(keyframes!, video.currentTime);
+      if (target === undefined) {
+        flash(direction > 0 ? '已是最后一个关键帧' : '已是第一个关键帧');
+        return;
+      }
+      seekToTime(target);
+      flash(direction > 0 ? '下一关键帧 ▶' : '◀ 上一关键帧');
+      return;
     }
-  }, []);
+    const index = Math.floor(video.currentTime / frameDuration + 1e-6);
+    seekToTime((index + direction + 0.5) * frameDuration);
+    flash(direction > 0 ? '下一帧 ▶' : '◀ 上一帧');
+  };
 
-  const downloadCapturedImage = () => {
-    if (!capturedImage) return;
-    const link = document.createElement('a');
-    link.href = capturedImage;
-    link.download = `frame_${Math.floor(currentTime)}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const toggleKeyframeSnap = () => {
+    if (!canSnap) {
+      flash('关键帧信息尚未读取');
+      return;
+    }
+    setSnapToKeyframes(!snapToKeyframes);
+    flash(snapToKeyframes ? '逐帧' : '关键帧吸附');
   };
 
-  const formatTime = (time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+  const changeVolume = (value: number) => {
+    const next = Math.min(1, Math.max(0, Math.round(value * 100) / 100));
+    setVolume(next);
+    setMuted(next === 0);
+    flash(`音量 ${Math.round(next * 100)}%`);
+  };
+
+  const toggleMute = () => {
+    setMuted(!muted);
+    flash(muted ? `音量 ${Math.round(volume * 100)}%` : '静音');
+  };
+
+  const changeRate = (rate: number) => {
+    setPlaybackRate(rate);
+    setShowSpeedMenu(false);
+    flash(`${rate}x`);
+  };
+
+  const stepRate = (direction: 1 | -1) => {
+    const index = PLAYBACK_RATES.indexOf(playbackRate);
+    const next = PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, Math.max(0, (index < 0 ? 3 : index) + direction))];
+    changeRate(next);
+  };
+
+  const setLoopStart = () => {
+    const time = videoRef.current?.currentTime ?? currentTime;
+    setAbLoop(prev => ({ a: time, b: prev?.b != null && prev.b > time ? prev.b : undefined }));
+    flash(`A 点 ${formatTime(time)}`);
+  };
+
+  const setLoopEnd = () => {
+    const time = videoRef.current?.currentTime ?? currentTime;
+    setAbLoop(prev => ({ a: prev && prev.a < time ? prev.a : 0, b: time }));
+    flash(`B 点 ${formatTime(time)} · 循环中`);
+  };
+
+  const clearLoop = () => {
+    setAbLoop(null);
+    flash('已取消 A-B 循环');
+  };
+
+  // The loop button walks through: set A, set B, clear
+  const cycleLoop = () => {
+    if (!abLoop) setLoopStart();
+    else if (abLoop.b == null) setLoopEnd();
+    else clearLoop();
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      containerRef.current?.requestFullscreen().catch(err => console.warn("Fullscreen failed:", err));
+    }
+  };
+
+  const togglePip = async () => {
+    const video = videoRef.current;
+    if (!video || !document.pictureInPictureEnabled) return;
+    try {
+      if (document.pictureInPictureElement) await document.exitPictureInPicture();
+      else await video.requestPictureInPicture();
+    } catch (err) {
+      console.warn("Picture-in-picture failed:", err);
+    }
+  };
+
+  const handleEnded = () => {
+    const video = videoRef.current;
+    // A loop ending at the very end of the video never sees currentTime reach B
+    if (video && abLoop?.b != null) {
+      video.currentTime = abLoop.a;
+      video.play().catch(() => setIsPlaying(false));
+      return;
+    }
+    setIsPlaying(false);
+  };
+
+  const captureFrame = async (e?: React.MouseEvent) => {
+    e?.stopPropagation();
+    e?.preventDefault();
+
+    const video = videoRef.current;
+    if (!video) return;
+    if (!video.paused) {
+        video.pause();
+        setIsPlaying(false);
+    }
+
+    try {
+        const still = await captureStill(video, settings.capture, canvasRef.current || undefined);
+        setStills(prev => [...prev, still]);
+        flash(`已截取 ${formatTime(still.time)}`);
+        setTimeout(() => {
+            document.getElementById('capture-preview')?.scrollIntoView({ behavior: 'smooth' });
+        }, 100);
+    } catch (err) {
+        console.error("Screenshot failed:", err);
+        alert("当前模式不支持截帧 (CORS限制)。请等待缓存完成。");
+    }
+  };
+
+  const removeStills = (ids: string[]) => {
+    const removed = new Set(ids);
+    stills.forEach(still => { if (removed.has(still.id)) URL.revokeObjectURL(still.url); });
+    const remaining = stills.filter(still => !removed.has(still.id));
+    setStills(prev => prev.filter(still => !removed.has(still.id)));
+    if (remaining.length === 0) setTrayOpen(false);
+  };
+
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || !videoRef.current) return;
+    if ((e.target as HTMLElement).closest?.(TYPING_TARGETS)) return;
+
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    switch (key) {
+      case ' ':
+      case 'k': togglePlay(); break;
+      case 'j': seekBy(-10); break;
+      case 'l': seekBy(10); break;
+      case 'ArrowLeft': seekBy(-5); break;
+      case 'ArrowRight': seekBy(5); break;
+      case 'ArrowUp': changeVolume((muted ? 0 : volume) + 0.1); break;
+      case 'ArrowDown': changeVolume((muted ? 0 : volume) - 0.1); break;
+      case 'm': toggleMute(); break;
+      case ',': stepFrame(-1); break;
+      case '.': stepFrame(1); break;
+      case 'g': toggleKeyframeSnap(); break;
+      case '<': stepRate(-1); break;
+      case '>': stepRate(1); break;
+      case '[': setLoopStart(); break;
+      case ']': setLoopEnd(); break;
+      case '\\': clearLoop(); break;
+      case 'Home': seekToTime(0); break;
+      case 'End': seekToTime(duration); break;
+      case 'f': toggleFullscreen(); break;
+      case 'p': togglePip(); break;
+      case 's': captureFrame(); break;
+      case '?': setShowHelp(!showHelp); break;
+      case 'Escape':
+        if (!showHelp) return;
+        setShowHelp(false);
+        break;
+      default:
+        if (!/^[0-9]$/.test(key)) return;
+        seekToTime(duration * Number(key) / 10);
+    }
+    e.preventDefault();
   };
 
-  const activeSrc = blobUrl || (useDirectStream ? url : undefined);
   const showLoadingOverlay = isDownloading && !blobUrl && !useDirectStream;
+  const subtitleCue = activeTrack ? activeCue(cues, currentTime) : undefined;
+  const controlsVisible = isHovering || !isPlaying;
 
   return (
     <div className={`flex flex-col gap-6 ${className}`}>
         {/* Main Player Container */}
         <div 
+          ref={containerRef}
           className="relative group w-full aspect-video bg-black overflow-hidden shadow-2xl"
           onMouseEnter={() => setIsHovering(true)}
           onMouseLeave={() => setIsHovering(false)}
@@ -225,10 +743,24 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, poster, playerType, clas
                         referrerPolicy="no-referrer" 
                         onTimeUpdate={handleTimeUpdate}
                         onLoadedMetadata={handleLoadedMetadata}
-                        onEnded={() => setIsPlaying(false)}
+                        onEnded={handleEnded}
+                        onPlay={() => setIsPlaying(true)}
+                        onPause={() => setIsPlaying(false)}
                         playsInline
                     />
                 )}
+
+                {danmaku && danmakuSettings.enabled && (
+                    <DanmakuLayer comments={danmaku} settings={danmakuSettings} getVideo={() => videoRef.current} />
+                )}
+
+                {subtitleCue && !showLoadingOverlay && (
+                    <div className={`absolute inset-x-0 flex justify-center px-8 pointer-events-none z-10 transition-all duration-500 ${controlsVisible ? 'bottom-24' : 'bottom-8'}`}>
+                        <p className="max-w-3xl px-3 py-1 rounded-lg bg-black/60 text-white text-center text-base md:text-xl font-medium leading-snug whitespace-pre-line">
+                            {subtitleCue.text}
+                        </p>
+                    </div>
+                )}
                 
                 {showLoadingOverlay && (
                     <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-900/80 backdrop-blur-md z-20 p-6 text-center" onClick={(e) => e.stopPropagation()}>
@@ -251,17 +783,63 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, poster, playerType, clas
              </>
           )}
 
+          {playerType === 'native' && streamError && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-900/80 backdrop-blur-md z-20 p-6 text-center" onClick={(e) => e.stopPropagation()}>
+                  <Icons.AlertTriangle className="w-10 h-10 text-amber-400 mb-3" />
+                  <h3 className="text-white font-bold text-lg mb-1">无法播放该流</h3>
+                  <p className="text-gray-400 text-sm max-w-md">{streamError}</p>
+              </div>
+          )}
+
           <canvas ref={canvasRef} className="hidden" />
 
+          {osd && (
+              <div className="absolute top-6 left-1/2 -translate-x-1/2 z-20 px-4 py-2 rounded-xl bg-black/70 backdrop-blur-sm text-white text-sm font-bold font-mono pointer-events-none animate-fade-in-up">
+                  {osd}
+              </div>
+          )}
+
+          {showHelp && <ShortcutHelp onClose={() => setShowHelp(false)} />}
+
           {/* Controls Overlay */}
           {playerType === 'native' && !showLoadingOverlay && (
             <div 
-                className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/50 to-transparent pt-12 pb-4 px-6 transition-all duration-500 ${isHovering || !isPlaying ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'}`}
+                className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/50 to-transparent pt-12 pb-4 px-6 transition-all duration-500 ${controlsVisible ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'}`}
                 onClick={(e) => e.stopPropagation()}
             >
                 {/* Progress Bar */}
-                <div className="relative w-full h-1 bg-white/20 rounded-full mb-4 group/progress cursor-pointer hover:h-1.5 transition-all">
+                <div
+                    className="relative w-full h-1 bg-white/20 rounded-full mb-4 group/progress cursor-pointer hover:h-1.5 transition-all"
+                    onMouseMove={handleSeekHover}
+                    onMouseLeave={() => setSeekHover(null)}
+                >
                     <div className="absolute top-0 left-0 h-full bg-gradient-to-r from-primary-500 to-purple-500 rounded-full" style={{ width: `${(currentTime / (duration || 1)) * 100}%` }}></div>
+                    {abLoop && duration > 0 && (
+                        <div
+                            className="absolute -top-1 -bottom-1 bg-sky-400/40 border-x-2 border-sky-400 rounded-sm pointer-events-none"
+                            style={{ left: `${(abLoop.a / duration) * 100}%`, width: abLoop.b != null ? `${((abLoop.b - abLoop.a) / duration) * 100}%` : 0 }}
+                        ></div>
+                    )}
+                    {duration > 0 && segments.map(chapter => chapter.start > 0 && (
+                        <div
+                            key={chapter.id}
+                            className="absolute -top-px -bottom-px w-0.5 bg-black/70 pointer-events-none"
+                            style={{ left: `${(chapter.start / duration) * 100}%` }}
+                        ></div>
+                    ))}
+                    {duration > 0 && bookmarks.map(bookmark => (
+                        <div
+                            key={bookmark.id}
+                            className="absolute top-1/2 w-2 h-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-amber-400 ring-2 ring-black/40 pointer-events-none"
+                            style={{ left: `${(bookmark.start / duration) * 100}%` }}
+                        ></div>
+                    ))}
+                    {clip && duration > 0 && (
+                        <div
+                            className="absolute -top-1 -bottom-1 bg-amber-400/40 border-x-2 border-amber-400 rounded-sm pointer-events-none"
+                            style={{ left: `${(clip.start / duration) * 100}%`, width: `${((clip.end - clip.start) / duration) * 100}%` }}
+                        ></div>
+                    )}
                     <input
                         type="range"
                         min="0"
@@ -270,6 +848,15 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, poster, playerType, clas
                         onChange={handleSeek}
                         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                     />
+                    {seekHover && (
+                        <SeekPreview
+                            ratio={seekHover.ratio}
+                            label={formatTime(seekHover.time)}
+                            chapterTitle={chapterAt(segments, seekHover.time)?.title}
+                            thumbnail={thumbnails ? thumbnailAt(thumbnails, seekHover.time) : undefined}
+                            frameUrl={previewFrame}
+                        />
+                    )}
                 </div>
 
                 <div className="flex items-center justify-between">
@@ -284,22 +871,176 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, poster, playerType, clas
                                 <Icons.Play className="w-8 h-8 fill-current" />
                             )}
                         </button>
+                        <div className="flex items-center gap-1">
+                            <button onClick={() => stepFrame(-1)} title={snapToKeyframes && canSnap ? '上一关键帧 (,)' : '上一帧 (,)'} className="p-1.5 rounded-md text-white/80 hover:text-white hover:bg-white/10 transition-colors">
+                                <Icons.StepBack className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => stepFrame(1)} title={snapToKeyframes && canSnap ? '下一关键帧 (.)' : '下一帧 (.)'} className="p-1.5 rounded-md text-white/80 hover:text-white hover:bg-white/10 transition-colors">
+                                <Icons.StepForward className="w-4 h-4" />
+                            </button>
+                            {canSnap && (
+                                <button
+                                    onClick={toggleKeyframeSnap}
+                                    title="逐帧时吸附到关键帧 (G)"
+                                    className={`px-1.5 py-0.5 rounded-md text-[10px] font-bold border transition-colors ${snapToKeyframes ? 'border-primary-400/60 text-primary-300 bg-primary-500/20' : 'border-white/20 text-white/60 hover:text-white'}`}
+                                >
+                                    KEY
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-1 group/volume">
+                            <button onClick={toggleMute} title="静音 (M)" className="p-1.5 rounded-md text-white/80 hover:text-white hover:bg-white/10 transition-colors">
+                                {muted || volume === 0 ? <Icons.VolumeX className="w-5 h-5" /> : <Icons.Volume className="w-5 h-5" />}
+                            </button>
+                            <input
+                                type="range"
+                                min="0"
+                                max="1"
+                                step="0.05"
+                                value={muted ? 0 : volume}
+                                onChange={(e) => { setVolume(parseFloat(e.target.value)); setMuted(parseFloat(e.target.value) === 0); }}
+                                className="w-0 group-hover/volume:w-20 focus:w-20 transition-all accent-white cursor-pointer"
+                            />
+                        </div>
                         <span className="text-white font-mono text-sm tracking-widest opacity-90">
                             {formatTime(currentTime)} <span className="text-white/40">/</span> {formatTime(duration)}
                         </span>
                         
-                        <span className={`text-[10px] px-2 py-0.5 rounded-full border backdrop-blur-sm font-bold uppercase tracking-wider ${blobUrl ? 'border-green-500/30 text-green-300 bg-green-500/10' : 'border-yellow-500/30 text-yellow-300 bg-yellow-500/10'}`}>
-                            {blobUrl ? 'LOCAL CACHE' : 'STREAM'}
+                        <span className={`text-[10px] px-2 py-0.5 rounded-full border backdrop-blur-sm font-bold uppercase tracking-wider ${blobUrl ? 'border-green-500/30 text-green-300 bg-green-500/10' : mseUrl ? 'border-blue-500/30 text-blue-300 bg-blue-500/10' : 'border-yellow-500/30 text-yellow-300 bg-yellow-500/10'}`}>
+                            {blobUrl ? 'LOCAL CACHE' : mseUrl ? `${manifest?.kind} · MSE` : 'STREAM'}
                         </span>
                     </div>
 
-                    <button
-                        onClick={captureFrame}
-                        className="group/btn flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-lg text-white text-sm font-medium transition-all border border-white/10 hover:border-white/30 active:scale-95"
-                    >
-                        <Icons.Camera className="w-4 h-4 group-hover/btn:scale-110 transition-transform" />
-                        <span>截帧</span>
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <div className="relative">
+                            <button
+                                onClick={() => setShowSpeedMenu(!showSpeedMenu)}
+                                title="播放速度 (< >)"
+                                className={`px-3 py-2 backdrop-blur-md rounded-lg text-xs font-bold font-mono transition-all border ${playbackRate !== 1 ? 'bg-primary-500/80 border-primary-400/50 text-white' : 'bg-white/10 hover:bg-white/20 border-white/10 hover:border-white/30 text-white'}`}
+                            >
+                                {playbackRate}x
+                            </button>
+                            {showSpeedMenu && (
+                                <div className="absolute bottom-full right-0 mb-2 min-w-[88px] py-1 rounded-xl bg-slate-900/95 backdrop-blur-md border border-white/10 shadow-2xl">
+                                    {PLAYBACK_RATES.map(rate => (
+                                        <button
+                                            key={rate}
+                                            onClick={() => changeRate(rate)}
+                                            className={`w-full px-4 py-1.5 text-left text-xs font-mono transition-colors hover:bg-white/10 ${rate === playbackRate ? 'text-primary-400 font-bold' : 'text-white/80'}`}
+                                        >
+                                            {rate}x
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        <button
+                            onClick={cycleLoop}
+                            title={!abLoop ? 'A-B 循环：设置 A 点 ([)' : abLoop.b == null ? '设置 B 点 (])' : '取消 A-B 循环 (\\)'}
+                            className={`flex items-center gap-1 px-3 py-2 backdrop-blur-md rounded-lg text-white text-xs font-bold transition-all border active:scale-95 ${abLoop ? 'bg-sky-500/80 border-sky-400/50' : 'bg-white/10 hover:bg-white/20 border-white/10 hover:border-white/30'}`}
+                        >
+                            <Icons.Repeat className="w-4 h-4" />
+                            <span>{!abLoop ? 'A-B' : abLoop.b == null ? 'A-' : 'A-B'}</span>
+                        </button>
+
+                        <SubtitleMenu
+                            tracks={tracks}
+                            activeId={activeTrackId}
+                            loading={loadingCues}
+                            onSelect={setActiveTrackId}
+                            onLoadFile={loadSubtitleFile}
+                            onExport={exportSubtitles}
+                        />
+
+                        {danmaku && (
+                            <DanmakuControls settings={danmakuSettings} count={danmaku.length} onExport={onExportDanmaku} />
+                        )}
+
+                        {sources && sources.length > 1 && (
+                            <div className="relative">
+                                <button
+                                    onClick={() => setShowQualityMenu(!showQualityMenu)}
+                                    className="px-3 py-2 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-lg text-white text-xs font-bold transition-all border border-white/10 hover:border-white/30"
+                                >
+                                    {sources[activeSourceIndex]?.label || '画质'}
+                                    {manifest && !manifest.renditionId && activeRendition?.height && (
+                                        <span className="ml-1 font-mono opacity-60">({activeRendition.height}p)</span>
+                                    )}
+                                </button>
+                                {showQualityMenu && (
+                                    <div className="absolute bottom-full right-0 mb-2 min-w-[160px] py-1 rounded-xl bg-slate-900/95 backdrop-blur-md border border-white/10 shadow-2xl">
+                                        {sources.map((source, idx) => (
+                                            <button
+                                                key={idx}
+                                                onClick={() => switchQuality(idx)}
+                                                className={`w-full flex items-center justify-between gap-3 px-4 py-2 text-left text-xs transition-colors hover:bg-white/10 ${idx === activeSourceIndex ? 'text-primary-400 font-bold' : 'text-white/80'}`}
+                                            >
+                                                <span>{source.label}</span>
+                                                {source.height && <span className="font-mono opacity-50">{source.height}p</span>}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {onAddBookmark && (
+                            <button
+                                onClick={() => onAddBookmark(videoRef.current?.currentTime ?? currentTime)}
+                                title="在当前位置添加书签"
+                                className="p-2 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-lg text-white transition-all border border-white/10 hover:border-white/30 active:scale-95"
+                            >
+                                <Icons.Bookmark className="w-4 h-4" />
+                            </button>
+                        )}
+
+                        <button
+                            onClick={toggleClip}
+                            title="选取片段导出 GIF/WebM/PNG 序列"
+                            className={`flex items-center gap-2 px-3 py-2 backdrop-blur-md rounded-lg text-white text-sm font-medium transition-all border active:scale-95 ${clip ? 'bg-amber-500/80 border-amber-400/50' : 'bg-white/10 hover:bg-white/20 border-white/10 hover:border-white/30'}`}
+                        >
+                            <Icons.Scissors className="w-4 h-4" />
+                            <span>剪辑</span>
+                        </button>
+
+                        <button
+                            onClick={captureFrame}
+                            className="group/btn flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-lg text-white text-sm font-medium transition-all border border-white/10 hover:border-white/30 active:scale-95"
+                        >
+                            <Icons.Camera className="w-4 h-4 group-hover/btn:scale-110 transition-transform" />
+                            <span>截帧</span>
+                        </button>
+
+                        <button
+                            onClick={() => {
+                                setTrayOpen(true);
+                                setTimeout(() => document.getElementById('capture-preview')?.scrollIntoView({ behavior: 'smooth' }), 100);
+                            }}
+                            title="连拍 / 定时截帧"
+                            className={`p-2 rounded-lg text-white transition-colors ${trayOpen || stills.length > 0 ? 'bg-primary-500/80' : 'hover:bg-white/10'}`}
+                        >
+                            <Icons.Images className="w-5 h-5" />
+                        </button>
+
+                        {document.pictureInPictureEnabled && (
+                            <button
+                                onClick={togglePip}
+                                title="画中画 (P)"
+                                className={`p-2 rounded-lg text-white transition-colors ${isPip ? 'bg-primary-500/80' : 'hover:bg-white/10'}`}
+                            >
+                                <Icons.PictureInPicture className="w-5 h-5" />
+                            </button>
+                        )}
+
+                        <button onClick={toggleFullscreen} title="全屏 (F)" className="p-2 rounded-lg text-white hover:bg-white/10 transition-colors">
+                            {isFullscreen ? <Icons.Minimize className="w-5 h-5" /> : <Icons.Maximize className="w-5 h-5" />}
+                        </button>
+
+                        <button onClick={() => setShowHelp(true)} title="键盘快捷键 (?)" className="p-2 rounded-lg text-white hover:bg-white/10 transition-colors">
+                            <Icons.Keyboard className="w-5 h-5" />
+                        </button>
+                    </div>
                 </div>
             </div>
           )}
@@ -314,56 +1055,36 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, poster, playerType, clas
           )}
         </div>
 
-        {/* Capture Preview UI */}
-        {capturedImage && (
-            <div id="capture-preview" className="animate-fade-in-up glass-panel rounded-3xl p-6 shadow-2xl ring-2 ring-primary-500/20">
-                <div className="flex items-center justify-between mb-4 border-b border-white/10 pb-4">
-                    <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2">
-                        <div className="p-1.5 bg-primary-500 rounded-lg shadow-lg shadow-primary-500/30">
-                           <Icons.Camera className="w-4 h-4 text-white" />
-                        </div>
-                        截图预览
-                    </h3>
-                    <button 
-                        onClick={() => setCapturedImage(null)}
-                        className="p-2 hover:bg-slate-100 dark:hover:bg-white/10 rounded-full transition-colors text-slate-500 dark:text-slate-400"
-                    >
-                        <Icons.Close className="w-5 h-5" />
-                    </button>
-                </div>
-                
-                <div className="flex flex-col md:flex-row gap-6">
-                    <div className="flex-1 relative rounded-2xl overflow-hidden bg-gradient-to-br from-slate-100 to-slate-200 dark:from-slate-800 dark:to-slate-900 border border-white/20 shadow-inner flex items-center justify-center min-h-[240px]">
-                        {/* Checkerboard pattern for transparency */}
-                        <div className="absolute inset-0 opacity-20" style={{backgroundImage: 'radial-gradient(#444 1px, transparent 1px)', backgroundSize: '10px 10px'}}></div>
-                        
-                        <img 
-                            src={capturedImage} 
-                            alt="Captured Frame" 
-                            className="relative z-10 max-w-full max-h-[400px] object-contain shadow-2xl rounded-lg"
-                        />
-                    </div>
-                    
-                    <div className="w-full md:w-64 flex flex-col justify-center gap-4">
-                        <div className="p-4 rounded-xl bg-blue-500/5 border border-blue-500/10">
-                            <h4 className="text-sm font-bold text-blue-600 dark:text-blue-400 mb-1">高清原图</h4>
-                            <p className="text-xs text-slate-500 dark:text-slate-400">分辨率: {videoRef.current?.videoWidth} x {videoRef.current?.videoHeight}</p>
-                            <p className="text-xs text-slate-500 dark:text-slate-400">时间点: {formatTime(currentTime)}</p>
-                        </div>
+        {playerType === 'native' && clip && (
+            <ClipExportCard
+                start={clip.start}
+                end={clip.end}
+                src={blobUrl}
+                sourceWidth={videoRef.current?.videoWidth || sources?.[activeSourceIndex]?.width || 1280}
+                title={title}
+                onSetStart={setClipStart}
+                onSetEnd={setClipEnd}
+                onPreview={previewClip}
+                onClose={() => setClip(null)}
+            />
+        )}
 
-                        <button
-                            onClick={downloadCapturedImage}
-                            className="w-full flex items-center justify-center gap-2 px-6 py-4 bg-slate-900 dark:bg-white hover:bg-slate-800 dark:hover:bg-slate-200 text-white dark:text-slate-900 rounded-xl font-bold transition-all shadow-xl hover:shadow-2xl hover:-translate-y-0.5 active:translate-y-0"
-                        >
-                            <Icons.Download className="w-5 h-5" />
-                            保存到本地
-                        </button>
-                    </div>
-                </div>
-            </div>
+        {playerType === 'native' && (trayOpen || stills.length > 0) && (
+            <CaptureTray
+                stills={stills}
+                videoId={videoId || safeFilename(title || 'video')}
+                src={blobUrl}
+                duration={duration}
+                frameDuration={frameDuration}
+                getCurrentTime={() => videoRef.current?.currentTime ?? currentTime}
+                range={clip}
+                onAdd={(still) => setStills(prev => [...prev, still])}
+                onRemove={removeStills}
+                onSeek={(time) => seekToTime(time)}
+            />
         )}
     </div>
   );
-};
+});
 
 export default VideoPlayer;
\ No newline at end of file
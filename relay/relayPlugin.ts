@@ -0,0 +1,140 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+
+// Minimal CORS relay served by the Vite dev and preview servers at `/relay?url=<encoded>`,
+// so the app can run without third-party relays. It answers in 'raw' mode: the target's
+// body unchanged, plus an `X-Final-Url` header with the URL after redirects.
+// The app calls it from its own origin, so it sends no CORS headers and refuses cross-site
+// requests; targets on loopback or private networks are refused at every redirect hop.
+
+export interface RelayPluginOptions {
+  // Comma-separated host suffixes the relay may fetch; empty uses DEFAULT_ALLOW_HOSTS
+  allowHosts?: string;
+  // Fetch any public host instead of only the allowed ones
+  allowAnyHost?: boolean;
+}
+
+// Hosts the extractors and the default parser API talk to
+const DEFAULT_ALLOW_HOSTS = [
+  'bilibili.com', 'b23.tv', 'hdslb.com', 'bilivideo.com', 'bilivideo.cn', 'akamaized.net', 'injahow.cn',
+  'youtube.com', 'youtu.be', 'ytimg.com', 'googlevideo.com',
+];
+
+const MAX_REDIRECTS = 5;
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36';
+
+// Hosts that refuse requests without a matching Referer
+const REFERERS: [RegExp, string][] = [
+  [/(^|\.)(bilibili\.com|hdslb\.com|bilivideo\.com|bilivideo\.cn|akamaized\.net)$/, 'https://www.bilibili.com/'],
+];
+
+const PASSTHROUGH_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges', 'last-modified', 'etag'];
+
+const fail = (res: ServerResponse, status: number, message: string) => {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(message);
+};
+
+class BlockedTarget extends Error {}
+
+const createHandler = (options: RelayPluginOptions) => {
+  const configured = (options.allowHosts || '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+  const allowed = configured.length ? configured : DEFAULT_ALLOW_HOSTS;
+  const isAllowed = (host: string) =>
+    options.allowAnyHost || allowed.some(h => host === h || host.endsWith(`.${h}`));
+
+  // Throws for schemes, hosts and addresses the relay must not reach
+  const checkTarget = async (target: URL) => {
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') throw new BlockedTarget('Only http(s) targets are supported');
+    const host = target.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    if (!isAllowed(host)) throw new BlockedTarget(`Host not allowed: ${host}`);
+    const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(a => a.address);
+    if (host === 'localhost' || addresses.some(isPrivateAddress)) throw new BlockedTarget(`Private address not allowed: ${host}`);
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') return fail(res, 405, 'Method not allowed');
+    // Other sites may not use the developer's machine as a proxy
+    if (req.headers['sec-fetch-site'] === 'cross-site') return fail(res, 403, 'Cross-site requests are not allowed');
+
+    let target: URL;
+    try {
+      target = new URL(new URL(req.url || '', 'http://relay.local').searchParams.get('url') || '');
+    } catch {
+      return fail(res, 400, 'Missing or invalid "url" parameter');
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    try {
+      // Redirects are followed by hand so every hop is checked
+      let upstream: Response;
+      for (let hop = 0; ; hop++) {
+        await checkTarget(target);
+        const headers: Record<string, string> = { 'User-Agent': USER_AGENT };
+        const referer = REFERERS.find(([pattern]) => pattern.test(target.hostname))?.[1];
+        if (referer) headers.Referer = referer;
+        if (typeof req.headers.range === 'string') headers.Range = req.headers.range;
+
+        upstream = await fetch(target, { method: req.method, headers, redirect: 'manual', signal: controller.signal });
+        const location = upstream.headers.get('location');
+        if (upstream.status < 300 || upstream.status >= 400 || !location) break;
+        await upstream.body?.cancel();
+        if (hop >= MAX_REDIRECTS) return fail(res, 502, 'Too many redirects');
+        target = new URL(location, target);
+      }
+      const responseHeaders: Record<string, string> = { 'X-Final-Url': target.href };
+      // fetch() already decoded compressed bodies, so the upstream length no longer applies
+      const decoded = upstream.headers.has('content-encoding');
+      for (const name of PASSTHROUGH_HEADERS) {
+        const value = upstream.headers.get(name);
+        if (value && !(decoded && name === 'content-length')) responseHeaders[name] = value;
+      }
+      res.writeHead(upstream.status, responseHeaders);
+      if (!upstream.body || req.method === 'HEAD') {
+        res.end();
+        return;
+      }
+      Readable.fromWeb(upstream.body as WebReadableStream).pipe(res);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if (e instanceof BlockedTarget) return fail(res, 403, e.message);
+      fail(res, 502, `Relay request failed: ${(e as Error).message}`);
+    }
+  };
+};
+
+export const relayPlugin = (options: RelayPluginOptions = {}): Plugin => {
+  const handler = createHandler(options);
+  return {
+    name: 'vidparse-relay',
+    configureServer(server) {
+      server.middlewares.use('/relay', (req, res) => { handler(req, res); });
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/relay', (req, res) => { handler(req, res); });
+    },
+  };
+};
+
+// Loopback, private, link-local (incl. cloud metadata), CGNAT, multicast and unspecified addresses
+function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 100 && b >= 64 && b <= 127);
+  }
+  const lower = address.toLowerCase();
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || /^ff/.test(lower);
+}
@@ -0,0 +1,197 @@
+import { AudioTags } from "../types";
+import { encodeWav, PcmAudio } from "./encoders/wav";
+import { remuxAudioTrack } from "./mp4/audioTrack";
+
+export type AudioFormat = 'm4a' | 'wav';
+
+export const LOUDNESS_TARGETS = [
+  { lufs: -14, label: '-14 LUFS · 音乐平台' },
+  { lufs: -16, label: '-16 LUFS · 播客/讲座' },
+  { lufs: -23, label: '-23 LUFS · 广播标准' },
+];
+
+// Normalised audio keeps its peaks at or below this, in dBFS
+const PEAK_CEILING = -1;
+// Loudness is only measured for M4A, so a lower decode rate keeps memory down on long videos
+const MEASURE_SAMPLE_RATE = 22050;
+// Decoded audio is held in memory as 32-bit floats, plus a 16-bit copy for WAV. Past this the
+// tab would likely run out of memory, so long tracks are refused up front (≈1 h of 48 kHz stereo WAV).
+const MAX_DECODE_BYTES = 2 * 1024 ** 3;
+
+export interface AudioExtractOptions {
+  format: AudioFormat;
+  // Target loudness in LUFS, or undefined to leave the level alone
+  normalize?: number;
+  tags?: AudioTags;
+  onPhase?: (phase: 'remux' | 'decode' | 'encode') => void;
+}
+
+export interface LoudnessInfo {
+  integrated: number; // LUFS
+  peak: number; // linear sample peak
+}
+
+// Pulls the audio out of a progressive MP4. M4A keeps the original AAC stream
+// (normalisation becomes a ReplayGain tag); WAV is decoded PCM with the gain applied.
+export const extractAudio = async (mp4: Uint8Array, options: AudioExtractOptions): Promise<Blob> => {
+  const tags = options.tags || {};
+  options.onPhase?.('remux');
+  const { file, info } = remuxAudioTrack(mp4, tags);
+
+  if (options.format === 'm4a' && options.normalize == null) return new Blob([file], { type: 'audio/mp4' });
+
+  options.onPhase?.('decode');
+  const rate = options.format === 'wav' ? info.sampleRate || 48000 : MEASURE_SAMPLE_RATE;
+  const bytesPerSample = options.format === 'wav' ? 4 + 2 : 4;
+  const needed = (info.duration || 0) * rate * Math.max(1, info.channels) * bytesPerSample;
+  if (needed > MAX_DECODE_BYTES) {
+    const minutes = Math.round(info.duration! / 60);
+    throw new Error(options.format === 'wav'
+      ? `音轨长约 ${minutes} 分钟，导出 WAV 需要约 ${(needed / 1024 ** 3).toFixed(1)} GB 内存，超出浏览器承受范围。请改用 M4A（不重新编码），或先截取片段再导出 WAV`
+      : `音轨长约 ${minutes} 分钟，响度测量需要的内存超出浏览器承受范围。请关闭音量标准化后导出 M4A`);
+  }
+  const audio = await decodeAudio(file, rate);
+
+  options.onPhase?.('encode');
+  if (options.format === 'm4a') {
+    const loudness = measureLoudness(audio);
+    const replayGain = { gain: options.normalize! - loudness.integrated, peak: loudness.peak };
+    return new Blob([remuxAudioTrack(mp4, { ...tags, replayGain }).file], { type: 'audio/mp4' });
+  }
+
+  let gain = 1;
+  if (options.normalize != null) {
+    const loudness = measureLoudness(audio);
+    const ceiling = PEAK_CEILING - 20 * Math.log10(loudness.peak || 1);
+    gain = Math.pow(10, Math.min(options.normalize - loudness.integrated, ceiling) / 20);
+  }
+  return encodeWav(audio, tags, gain);
+};
+
+// Integrated loudness per ITU-R BS.1770: K-weighted, 400 ms blocks with 75% overlap,
+// absolute gate at -70 LUFS and relative gate 10 LU below the ungated mean
+export const measureLoudness = (audio: PcmAudio): LoudnessInfo => {
+  const fs = audio.sampleRate;
+  const step = Math.round(fs * 0.1);
+  const frames = audio.getChannelData(0).length;
+  const steps = Math.floor(frames / step);
+  const stepPower = new Float64Array(steps);
+  let peak = 0;
+
+  for (let c = 0; c < audio.numberOfChannels; c++) {
+    const samples = audio.getChannelData(c);
+    const filter = kWeighting(fs);
+    for (let s = 0; s < steps; s++) {
+      let sum = 0;
+      for (let i = s * step, end = i + step; i < end; i++) {
+        const x = samples[i];
+        const abs = Math.abs(x);
+        if (abs > peak) peak = abs;
+        const y = filter(x);
+        sum += y * y;
+      }
+      stepPower[s] += sum;
+    }
+  }
+
+  const blocks: number[] = [];
+  for (let b = 0; b + 4 <= steps; b++) {
+    blocks.push((stepPower[b] + stepPower[b + 1] + stepPower[b + 2] + stepPower[b + 3]) / (step * 4));
+  }
+  const loudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  const audible = blocks.filter(p => loudness(p) > -70);
+  if (audible.length === 0) return { integrated: -70, peak };
+  const relativeGate = loudness(mean(audible)) - 10;
+  const gated = audible.filter(p => loudness(p) > relativeGate);
+  return { integrated: loudness(mean(gated)), peak };
+};
+
+// Downloads a media file into memory, reporting progress as a 0..1 fraction when the size is known
+export const fetchMedia = async (url: string, onProgress?: (fraction: number) => void, signal?: AbortSignal): Promise<Uint8Array> => {
+  const response = await fetch(url, { signal, referrerPolicy: 'no-referrer' });
+  if (!response.ok || !response.body) throw new Error(`下载失败 (HTTP ${response.status})`);
+
+  const total = parseInt(response.headers.get('content-length') || '0', 10);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    if (total) onProgress?.(Math.min(loaded / total, 1));
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+// Cover art as a JPEG of at most `maxSize` px, or undefined when the image can't be read
+export const fetchCover = async (url: string, maxSize = 600): Promise<AudioTags['cover']> => {
+  try {
+    const response = await fetch(url.replace(/^(https?:)?\/\//, 'https://'), { referrerPolicy: 'no-referrer' });
+    if (!response.ok) return undefined;
+    const image = await createImageBitmap(await response.blob());
+    const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+    return blob ? { bytes: new Uint8Array(await blob.arrayBuffer()), mime: 'image/jpeg' } : undefined;
+  } catch (e) {
+    console.warn("Cover art unavailable", e);
+    return undefined;
+  }
+};
+
+async function decodeAudio(file: Uint8Array, sampleRate: number): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  try {
+    // decodeAudioData takes ownership of the buffer, so hand it a copy
+    return await context.decodeAudioData(file.slice().buffer);
+  } catch {
+    throw new Error('浏览器无法解码该音轨');
+  }
+}
+
+// Cascaded high-shelf and high-pass biquads of the BS.1770 K-weighting curve,
+// with coefficients derived for any sample rate
+function kWeighting(fs: number): (x: number) => number {
+  const shelf = (() => {
+    const f0 = 1681.974450955533, gain = 3.999843853973347, q = 0.7071752369554196;
+    const k = Math.tan(Math.PI * f0 / fs);
+    const vh = Math.pow(10, gain / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    const a0 = 1 + k / q + k * k;
+    return biquad(
+      [(vh + vb * k / q + k * k) / a0, 2 * (k * k - vh) / a0, (vh - vb * k / q + k * k) / a0],
+      [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0],
+    );
+  })();
+  const highPass = (() => {
+    const f0 = 38.13547087602444, q = 0.5003270373238773;
+    const k = Math.tan(Math.PI * f0 / fs);
+    const a0 = 1 + k / q + k * k;
+    return biquad([1, -2, 1], [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0]);
+  })();
+  return (x) => highPass(shelf(x));
+}
+
+function biquad([b0, b1, b2]: number[], [a1, a2]: number[]): (x: number) => number {
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  return (x) => {
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    return y;
+  };
+}
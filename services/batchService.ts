@@ -0,0 +1,92 @@
+import { BatchItem, ParsedVideoData } from "../types";
+import { toParseError } from "./errors";
+import { matchExtractors } from "./extractors";
+import { parseVideoInput } from "./parserService";
+
+const DEFAULT_CONCURRENCY = 3;
+
+// Stops at whitespace, quotes, CSV/markdown delimiters and full-width punctuation from chat logs
+const URL_REGEX = /https?:\/\/[^\s"'<>,;|()\[\]，。、；）（【】]+/g;
+// Bilibili ids pasted without a URL
+const BARE_ID_REGEX = /\b(?:BV[a-zA-Z0-9]{10}|av\d+)\b/g;
+
+// Every link in free text (a chat log, a spreadsheet export) that some extractor accepts, deduplicated
+export const extractUrls = (text: string): string[] => {
+  const urls = (text.match(URL_REGEX) || []).map(u => u.replace(/[.!?:]+$/, ''));
+  const ids = text.replace(URL_REGEX, ' ').match(BARE_ID_REGEX) || [];
+  return [...new Set([...urls, ...ids])].filter(url => matchExtractors(url).length > 0);
+};
+
+export interface BatchOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  // Called whenever an item changes state
+  onUpdate: (index: number, item: BatchItem) => void;
+  onParsed?: (input: string, data: ParsedVideoData) => void;
+}
+
+// Parses the inputs with at most `concurrency` requests in flight. Never rejects;
+// failures end up on the item. Items not started before an abort stay pending, and items
+// still parsing when it comes are put back to pending without notifying the caller.
+export const parseBatch = async (inputs: string[], options: BatchOptions): Promise<BatchItem[]> => {
+  const items: BatchItem[] = inputs.map(input => ({ input, status: 'pending' }));
+  const update = (index: number, patch: Partial<BatchItem>) => {
+    items[index] = { ...items[index], ...patch };
+    options.onUpdate(index, items[index]);
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !options.signal?.aborted) {
+      const index = next++;
+      update(index, { status: 'parsing' });
+      try {
+        const data = await parseVideoInput(items[index].input);
+        if (options.signal?.aborted) {
+          items[index] = { ...items[index], status: 'pending' };
+          continue;
+        }
+        update(index, { status: 'done', data });
+        options.onParsed?.(items[index].input, data);
+      } catch (e) {
+        if (options.signal?.aborted) {
+          items[index] = { ...items[index], status: 'pending' };
+          continue;
+        }
+        update(index, { status: 'error', error: toParseError(e).message });
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency || DEFAULT_CONCURRENCY, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return items;
+};
+
+// The source a batch download picks: the first (highest quality) one that can be saved in-browser
+export const bestDownloadableSource = (data: ParsedVideoData) =>
+  data.sources.find(s => s.isDownloadable && !s.external);
+
+// CSV of the given items, with a BOM so spreadsheet apps detect UTF-8
+export const batchToCsv = (items: BatchItem[]): string => {
+  const header = ['input', 'status', 'platform', 'title', 'duration', 'quality', 'source_url', 'error'];
+  const rows = items.map(item => {
+    const source = item.data && bestDownloadableSource(item.data);
+    return [
+      item.input,
+      item.status,
+      item.data?.platform,
+      item.data?.title,
+      item.data?.duration,
+      source?.label,
+      source?.url,
+      item.error,
+    ];
+  });
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+function csvCell(value: string | undefined): string {
+  const text = value ?? '';
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,55 @@
+// User bookmarks per video part, persisted in localStorage. Shaped for useSyncExternalStore.
+
+import { Chapter, ParsedVideoData } from "../types";
+
+const STORAGE_KEY = 'vidparse-pro:bookmarks';
+
+const EMPTY: Chapter[] = [];
+
+// Parts of one video share an id, so the cid tells their bookmarks apart
+export const bookmarkKey = (data: Pick<ParsedVideoData, 'platform' | 'id' | 'currentCid'>) =>
+  `${data.platform}:${data.id}${data.currentCid ? `:${data.currentCid}` : ''}`;
+
+const load = (): Record<string, Chapter[]> => {
+  try {
+    const stored = typeof localStorage !== 'undefined' && localStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.warn("Failed to read bookmarks", e);
+  }
+  return {};
+};
+
+let current = load();
+const listeners = new Set<() => void>();
+
+export const getBookmarks = (key: string): Chapter[] => current[key] || EMPTY;
+
+export const subscribeBookmarks = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const addBookmark = (key: string, start: number, title = `书签 ${getBookmarks(key).length + 1}`) => {
+  const bookmark: Chapter = { id: `bookmark-${Date.now().toString(36)}`, start, title, source: 'bookmark' };
+  save(key, [...getBookmarks(key), bookmark].sort((a, b) => a.start - b.start));
+};
+
+export const renameBookmark = (key: string, id: string, title: string) =>
+  save(key, getBookmarks(key).map(b => b.id === id ? { ...b, title } : b));
+
+export const removeBookmark = (key: string, id: string) =>
+  save(key, getBookmarks(key).filter(b => b.id !== id));
+
+function save(key: string, bookmarks: Chapter[]) {
+  const next = { ...current };
+  if (bookmarks.length > 0) next[key] = bookmarks;
+  else delete next[key];
+  current = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  } catch (e) {
+    console.warn("Failed to save bookmarks", e);
+  }
+  listeners.forEach(l => l());
+}
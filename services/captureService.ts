@@ -0,0 +1,113 @@
+import { CaptureFormat, CaptureSettings } from "../types";
+import { canvasBlob, drawFrame, loadVideo, seekTo } from "./frameService";
+import { createZip } from "./encoders/zip";
+import { safeFilename } from "./formatters";
+
+export const CAPTURE_FORMATS: Record<CaptureFormat, { label: string; mime: string; ext: string }> = {
+  png: { label: 'PNG', mime: 'image/png', ext: 'png' },
+  jpeg: { label: 'JPEG', mime: 'image/jpeg', ext: 'jpg' },
+  webp: { label: 'WebP', mime: 'image/webp', ext: 'webp' },
+};
+
+// A captured frame, held as a Blob with an object URL for display
+export interface CapturedStill {
+  id: string;
+  time: number; // seconds
+  blob: Blob;
+  url: string;
+  width: number;
+  height: number;
+  format: CaptureFormat;
+}
+
+export type RangeMode = 'burst' | 'interval';
+
+export interface RangeCaptureOptions extends CaptureSettings {
+  mode: RangeMode;
+  start: number;
+  end: number;
+  // Seconds between frames in interval mode
+  interval: number;
+  // Length of one frame, for burst mode
+  frameDuration: number;
+  signal?: AbortSignal;
+  // Each frame is handed over as soon as it is encoded
+  onFrame?: (still: CapturedStill) => void;
+  onProgress?: (done: number) => void; // 0..1
+}
+
+// Upper bound on frames per run; stills are full resolution, so memory fills quickly
+export const MAX_RANGE_FRAMES = 600;
+
+// Full-resolution still of what `video` is showing. Throws when the canvas is tainted (uncached cross-origin streams).
+export const captureStill = async (video: HTMLVideoElement, settings: CaptureSettings, canvas = document.createElement('canvas')): Promise<CapturedStill> => {
+  drawFrame(video, canvas);
+  const blob = await canvasBlob(canvas, CAPTURE_FORMATS[settings.format].mime, settings.quality);
+  return {
+    id: `still-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    time: video.currentTime,
+    blob,
+    url: URL.createObjectURL(blob),
+    width: canvas.width,
+    height: canvas.height,
+    // Browsers without a WebP encoder fall back to PNG
+    format: blob.type === CAPTURE_FORMATS[settings.format].mime ? settings.format : 'png',
+  };
+};
+
+// Times a range capture visits: the middle of every frame in burst mode, every `interval` seconds otherwise
+export const rangeTimes = (options: Pick<RangeCaptureOptions, 'mode' | 'start' | 'end' | 'interval' | 'frameDuration'>): number[] => {
+  const times: number[] = [];
+  if (options.mode === 'burst') {
+    const step = options.frameDuration;
+    for (let i = Math.floor(options.start / step + 1e-6); (i + 0.5) * step <= options.end; i++) times.push((i + 0.5) * step);
+  } else {
+    for (let t = options.start; t <= options.end + 1e-6; t += options.interval) times.push(t);
+  }
+  return times;
+};
+
+// Seeks an offscreen copy of a same-origin (cached) video through the range
+export const captureRange = async (src: string, options: RangeCaptureOptions): Promise<CapturedStill[]> => {
+  const times = rangeTimes(options);
+  if (times.length === 0) throw new Error('所选范围内没有帧');
+  if (times.length > MAX_RANGE_FRAMES) throw new Error(`一次最多捕获 ${MAX_RANGE_FRAMES} 帧，请缩小范围或增大间隔`);
+
+  const video = await loadVideo(src);
+  const canvas = document.createElement('canvas');
+  const stills: CapturedStill[] = [];
+  try {
+    for (let i = 0; i < times.length; i++) {
+      options.signal?.throwIfAborted();
+      await seekTo(video, Math.min(times[i], video.duration - 0.001));
+      const still = await captureStill(video, options, canvas);
+      stills.push(still);
+      options.onFrame?.(still);
+      options.onProgress?.((i + 1) / times.length);
+    }
+    return stills;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+// e.g. BV1xx411c7mD_00h01m23s456ms.png, so files sort by time
+export const stillFilename = (videoId: string, still: CapturedStill): string => {
+  const ms = Math.round(still.time * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const stamp = `${pad(Math.floor(ms / 3600000))}h${pad(Math.floor(ms / 60000) % 60)}m${pad(Math.floor(ms / 1000) % 60)}s${pad(ms % 1000, 3)}ms`;
+  return `${safeFilename(videoId)}_${stamp}.${CAPTURE_FORMATS[still.format].ext}`;
+};
+
+export const stillsZip = async (videoId: string, stills: CapturedStill[]): Promise<Blob> => {
+  const seen = new Set<string>();
+  const entries = await Promise.all(stills.map(async still => {
+    let name = stillFilename(videoId, still);
+    // Two captures of the same instant (e.g. a single capture and a burst) must not overwrite each other
+    for (let n = 2; seen.has(name); n++) name = stillFilename(videoId, still).replace(/(\.\w+)$/, `_${n}$1`);
+    seen.add(name);
+    return { name, data: new Uint8Array(await still.blob.arrayBuffer()) };
+  }));
+  return createZip(entries);
+};
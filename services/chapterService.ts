@@ -0,0 +1,48 @@
+import { Chapter, ParsedVideoData } from "../types";
+
+// A line is a chapter when it starts or ends with a timestamp: "0:00 Intro", "- (1:02:03) Outro", "Intro 0:00"
+const TIMESTAMP = /[[(【]?(?<![\d:])((?:\d{1,2}:)?\d{1,2}:\d{2})(?![\d:])[\])】]?/;
+const BULLET = /^[-*•·▶►]+/;
+const SEPARATORS = /^[\s\-–—:：|]+|[\s\-–—:：|]+$/g;
+// A single timestamp is more likely a passing mention than a chapter list
+const MIN_CHAPTERS = 2;
+
+// YouTube-style chapter list from a video description. Timestamps must run in
+// ascending order, otherwise the text is treated as having no chapters.
+export const parseDescriptionChapters = (description?: string): Chapter[] => {
+  if (!description) return [];
+  const chapters: Chapter[] = [];
+
+  for (const line of description.split(/\r?\n/)) {
+    const match = line.match(TIMESTAMP);
+    if (!match) continue;
+    const before = line.slice(0, match.index).trim().replace(BULLET, '').trim();
+    const after = line.slice(match.index! + match[0].length).trim();
+    if (before && after) continue;
+
+    const title = (before || after).replace(SEPARATORS, '');
+    if (!title) continue;
+    chapters.push({ id: `description-${chapters.length}`, start: parseClock(match[1]), title, source: 'description' });
+  }
+
+  if (chapters.length < MIN_CHAPTERS) return [];
+  return chapters.every((c, i) => i === 0 || c.start > chapters[i - 1].start) ? chapters : [];
+};
+
+// Chapters that split the seek bar: the platform's own if it has any, else those in the description
+export const videoChapters = (data: ParsedVideoData): Chapter[] =>
+  data.chapters?.length ? data.chapters : parseDescriptionChapters(data.description);
+
+// The chapter playing at `time`, from a list sorted by start
+export const chapterAt = (chapters: Chapter[], time: number): Chapter | undefined => {
+  let current: Chapter | undefined;
+  for (const chapter of chapters) {
+    if (chapter.start > time) break;
+    current = chapter;
+  }
+  return current;
+};
+
+function parseClock(value: string): number {
+  return value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
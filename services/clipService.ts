@@ -0,0 +1,113 @@
+import { canvasBlob, drawFrame, loadVideo, seekTo } from "./frameService";
+import { GifEncoder } from "./encoders/gif";
+import { createZip } from "./encoders/zip";
+
+export type ClipFormat = 'gif' | 'webm' | 'png-zip';
+
+export interface ClipOptions {
+  start: number; // seconds
+  end: number;
+  format: ClipFormat;
+  // Output frames are scaled down to this width, keeping the aspect ratio
+  width: number;
+  fps: number;
+  quality: number; // 0..1; palette size for GIF, bitrate for WebM, unused for PNG
+  signal?: AbortSignal;
+  onProgress?: (done: number) => void; // 0..1
+}
+
+export const CLIP_FORMATS: Record<ClipFormat, { label: string; ext: string }> = {
+  gif: { label: 'GIF 动图', ext: 'gif' },
+  webm: { label: 'WebM 视频', ext: 'webm' },
+  'png-zip': { label: 'PNG 序列 (ZIP)', ext: 'zip' },
+};
+
+// Renders the range of `src` into the chosen format, entirely in the browser.
+// `src` must be same-origin (the player's cached Blob URL) so frames can be read back.
+export const exportClip = async (src: string, options: ClipOptions): Promise<Blob> => {
+  if (options.end <= options.start) throw new Error('出点必须晚于入点');
+  const video = await loadVideo(src);
+  try {
+    if (options.format === 'webm') return await recordWebm(video, options);
+    return await encodeFrames(video, options);
+  } finally {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+export const webmSupported = () =>
+  typeof MediaRecorder !== 'undefined' && !!webmMime() && 'captureStream' in HTMLCanvasElement.prototype;
+
+// GIF and PNG sequences step through the range by seeking, so every frame is exact
+async function encodeFrames(video: HTMLVideoElement, options: ClipOptions): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  const count = Math.max(1, Math.round((options.end - options.start) * options.fps));
+  let gif: GifEncoder | null = null;
+  const pngs: { name: string; data: Uint8Array }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    options.signal?.throwIfAborted();
+    await seekTo(video, options.start + i / options.fps);
+    const ctx = drawFrame(video, canvas, options.width);
+
+    if (options.format === 'gif') {
+      gif ??= new GifEncoder(canvas.width, canvas.height, { colors: Math.round(16 + options.quality * 240) });
+      gif.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data, 1000 / options.fps);
+    } else {
+      const png = await canvasBlob(canvas, 'image/png');
+      pngs.push({ name: `frame_${String(i + 1).padStart(5, '0')}.png`, data: new Uint8Array(await png.arrayBuffer()) });
+    }
+    options.onProgress?.((i + 1) / count);
+  }
+
+  return options.format === 'gif' ? gif!.finish() : createZip(pngs);
+}
+
+// WebM has to be recorded in real time: the offscreen video plays through the
+// range while each frame is painted onto a canvas whose stream is recorded
+async function recordWebm(video: HTMLVideoElement, options: ClipOptions): Promise<Blob> {
+  const mime = webmMime();
+  if (!mime || !webmSupported()) throw new Error('当前浏览器不支持 WebM 录制');
+
+  const canvas = document.createElement('canvas');
+  await seekTo(video, options.start);
+  drawFrame(video, canvas, options.width);
+
+  const stream = canvas.captureStream(options.fps);
+  const recorder = new MediaRecorder(stream, {
+    mimeType: mime,
+    videoBitsPerSecond: Math.round(canvas.width * canvas.height * options.fps * (0.05 + options.quality * 0.25)),
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start(1000);
+  try {
+    await video.play();
+    await new Promise<void>((resolve, reject) => {
+      const paint = () => {
+        if (options.signal?.aborted) return reject(options.signal.reason);
+        drawFrame(video, canvas, options.width);
+        const elapsed = video.currentTime - options.start;
+        options.onProgress?.(Math.min(1, elapsed / (options.end - options.start)));
+        if (video.currentTime >= options.end || video.ended) resolve();
+        else requestAnimationFrame(paint);
+      };
+      requestAnimationFrame(paint);
+    });
+  } finally {
+    video.pause();
+    recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+  }
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+function webmMime(): string | undefined {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+}
@@ -0,0 +1,97 @@
+import { Danmaku } from "../../types";
+import { DanmakuLayout } from "./layout";
+
+export interface AssOptions {
+  title: string;
+  width?: number;
+  height?: number;
+  opacity?: number;
+  fontScale?: number;
+  fontName?: string;
+}
+
+// Converts comments to an ASS subtitle script laid out like the on-screen overlay,
+// for players such as mpv, VLC or PotPlayer
+export const danmakuToAss = (comments: Danmaku[], options: AssOptions): string => {
+  const width = options.width || 1920;
+  const height = options.height || 1080;
+  const fontName = options.fontName || 'Microsoft YaHei';
+  // ASS alpha is inverted: 00 is opaque
+  const alpha = hex2(Math.round((1 - (options.opacity ?? 1)) * 255));
+
+  const layout = new DanmakuLayout({
+    width,
+    height,
+    fontScale: options.fontScale ?? 1,
+    measure: estimateWidth,
+  });
+
+  const events: string[] = [];
+  for (const comment of comments) {
+    const placed = layout.place(comment);
+    if (!placed) continue;
+
+    const { px, width: textWidth, y, duration } = placed;
+    const tags = [`\\fs${px}`];
+    if (comment.mode === 'scroll') {
+      tags.push(`\\move(${width},${y},${-Math.ceil(textWidth)},${y})`);
+    } else {
+      tags.push('\\an8', `\\pos(${width / 2},${y})`);
+    }
+    if (comment.color !== 0xffffff) tags.push(`\\c${assColor(comment.color)}`);
+    if (comment.color === 0x000000) tags.push('\\3c&HFFFFFF&');
+
+    events.push(
+      `Dialogue: 0,${assTime(comment.time)},${assTime(comment.time + duration)},Danmaku,,0,0,0,,{${tags.join('')}}${escapeText(comment.text)}`
+    );
+  }
+
+  return [
+    '[Script Info]',
+    `Title: ${escapeText(options.title)}`,
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Danmaku,${fontName},25,&H${alpha}FFFFFF,&H${alpha}FFFFFF,&H${alpha}000000,&H${alpha}000000,-1,0,0,0,100,100,0,0,1,1.5,0,7,0,0,0,1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+};
+
+// Without a canvas to measure with: CJK and full-width characters take 1em, the rest roughly 0.6em
+function estimateWidth(text: string, px: number): number {
+  let ems = 0;
+  for (const char of text) ems += /[⺀-￯]/.test(char) ? 1 : 0.6;
+  return ems * px;
+}
+
+// &HBBGGRR& from 0xRRGGBB
+function assColor(color: number): string {
+  return `&H${hex2(color & 0xff)}${hex2((color >> 8) & 0xff)}${hex2((color >> 16) & 0xff)}&`;
+}
+
+function hex2(value: number): string {
+  return value.toString(16).toUpperCase().padStart(2, '0');
+}
+
+// H:MM:SS.cc
+function assTime(seconds: number): string {
+  const cs = Math.round(seconds * 100);
+  const h = Math.floor(cs / 360000);
+  const m = Math.floor(cs / 6000) % 60;
+  const s = Math.floor(cs / 100) % 60;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(cs % 100).padStart(2, '0')}`;
+}
+
+// Braces start override blocks and newlines end the line in ASS
+function escapeText(text: string): string {
+  return text.replace(/\{/g, '｛').replace(/\}/g, '｝').replace(/\r?\n/g, '\\N');
+}
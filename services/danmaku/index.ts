@@ -0,0 +1,58 @@
+import { Danmaku, DanmakuMode, DanmakuSettings } from "../../types";
+
+// Bilibili `<d p="time,mode,size,color,...">` modes; 7 (positioned) and 8 (scripted) are not supported
+const MODES: Record<number, DanmakuMode> = {
+  1: 'scroll',
+  2: 'scroll',
+  3: 'scroll',
+  4: 'bottom',
+  5: 'top',
+  6: 'scroll', // reverse scroll, shown as a normal one
+};
+
+// Parses a Bilibili danmaku XML document into comments sorted by time
+export const parseDanmakuXml = (xml: string): Danmaku[] => {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  if (doc.querySelector('parsererror')) throw new Error('弹幕 XML 格式错误');
+
+  const comments: Danmaku[] = [];
+  doc.querySelectorAll('d').forEach(node => {
+    const [time, mode, size, color] = (node.getAttribute('p') || '').split(',').map(Number);
+    const text = node.textContent?.trim();
+    if (!text || !MODES[mode] || !(time >= 0)) return;
+    comments.push({ time, mode: MODES[mode], size: size || 25, color: color || 0xffffff, text });
+  });
+  return comments.sort((a, b) => a.time - b.time);
+};
+
+// Applies the keyword blocklist and density setting. Density thins comments out evenly
+// over time (low-discrepancy sampling), so a given setting always keeps the same ones.
+export const filterDanmaku = (comments: Danmaku[], settings: Pick<DanmakuSettings, 'density' | 'blocklist'>): Danmaku[] => {
+  const blocked = compileBlocklist(settings.blocklist);
+  return comments.filter((comment, i) =>
+    (settings.density >= 1 || (i * 0.6180339887) % 1 < settings.density) &&
+    !blocked.some(test => test(comment.text))
+  );
+};
+
+export const colorToCss = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+// Dark text gets a light outline so it stays readable
+export const isDarkColor = (color: number) =>
+  ((color >> 16) & 0xff) * 0.299 + ((color >> 8) & 0xff) * 0.587 + (color & 0xff) * 0.114 < 60;
+
+function compileBlocklist(entries: string[]): ((text: string) => boolean)[] {
+  return entries.map(entry => entry.trim()).filter(Boolean).flatMap(entry => {
+    const regex = entry.match(/^\/(.+)\/([a-z]*)$/);
+    if (regex) {
+      try {
+        const pattern = new RegExp(regex[1], regex[2]);
+        return [(text: string) => pattern.test(text)];
+      } catch {
+        return []; // an unfinished pattern while typing blocks nothing
+      }
+    }
+    const needle = entry.toLowerCase();
+    return [(text: string) => text.toLowerCase().includes(needle)];
+  });
+}
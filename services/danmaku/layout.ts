@@ -0,0 +1,89 @@
+import { Danmaku } from "../../types";
+
+// Lane assignment shared by the canvas renderer and the ASS export, so both place
+// comments the same way. Comments must be fed in time order.
+
+export const SCROLL_DURATION = 8; // seconds a scrolling comment takes to cross the screen
+export const FIXED_DURATION = 4; // seconds top/bottom comments stay up
+
+// Bilibili's default size (25) at this stage height is drawn at 25px
+const REFERENCE_HEIGHT = 680;
+const LANE_SPACING = 1.2; // lane height relative to the normal font size
+const SCROLL_GAP = 16; // px kept between consecutive comments in a lane
+
+export interface LayoutOptions {
+  width: number;
+  height: number;
+  fontScale: number;
+  // Width of `text` at a font size of `px`
+  measure: (text: string, px: number) => number;
+}
+
+export interface PlacedDanmaku {
+  comment: Danmaku;
+  px: number; // font size
+  width: number; // text width
+  y: number; // top edge
+  duration: number;
+}
+
+export class DanmakuLayout {
+  private readonly laneHeight: number;
+  private readonly unit: number;
+  private scroll: (PlacedDanmaku | null)[] = [];
+  private top: (PlacedDanmaku | null)[] = [];
+  private bottom: (PlacedDanmaku | null)[] = [];
+
+  constructor(private readonly options: LayoutOptions) {
+    this.unit = Math.max(0.5, options.height / REFERENCE_HEIGHT) * options.fontScale;
+    this.laneHeight = Math.ceil(25 * this.unit * LANE_SPACING);
+    const lanes = Math.max(1, Math.floor(options.height / this.laneHeight));
+    this.scroll = new Array(lanes).fill(null);
+    this.top = new Array(lanes).fill(null);
+    this.bottom = new Array(lanes).fill(null);
+  }
+
+  // Position of a scrolling comment's left edge at `time`
+  scrollX(placed: PlacedDanmaku, time: number): number {
+    const progress = (time - placed.comment.time) / placed.duration;
+    return this.options.width - progress * (this.options.width + placed.width);
+  }
+
+  // Finds a free lane for the comment, or returns null when the screen is full and it is dropped
+  place(comment: Danmaku): PlacedDanmaku | null {
+    const px = Math.max(12, Math.round(comment.size * this.unit));
+    const width = this.options.measure(comment.text, px);
+
+    if (comment.mode === 'scroll') {
+      const placed = { comment, px, width, y: 0, duration: SCROLL_DURATION };
+      const lane = this.scroll.findIndex(prev => !prev || this.scrollFits(prev, placed));
+      if (lane < 0) return null;
+      placed.y = lane * this.laneHeight;
+      this.scroll[lane] = placed;
+      return placed;
+    }
+
+    const lanes = comment.mode === 'top' ? this.top : this.bottom;
+    const lane = lanes.findIndex(prev => !prev || comment.time - prev.comment.time >= FIXED_DURATION);
+    if (lane < 0) return null;
+    const placed = {
+      comment, px, width, duration: FIXED_DURATION,
+      y: comment.mode === 'top' ? lane * this.laneHeight : this.options.height - (lane + 1) * this.laneHeight,
+    };
+    lanes[lane] = placed;
+    return placed;
+  }
+
+  // `next` may follow `prev` in a lane if prev's tail has entered the screen and
+  // next, possibly faster, won't catch up before prev has left
+  private scrollFits(prev: PlacedDanmaku, next: PlacedDanmaku): boolean {
+    const { width } = this.options;
+    const elapsed = next.comment.time - prev.comment.time;
+    if (elapsed >= prev.duration) return true;
+    const prevSpeed = (width + prev.width) / prev.duration;
+    const nextSpeed = (width + next.width) / next.duration;
+    const entered = elapsed * prevSpeed >= prev.width + SCROLL_GAP;
+    const noCatchUp = width / nextSpeed >= prev.duration - elapsed;
+    return entered && noCatchUp;
+  }
+}
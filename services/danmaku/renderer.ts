@@ -0,0 +1,135 @@
+import { Danmaku } from "../../types";
+import { colorToCss, isDarkColor } from ".";
+import { DanmakuLayout, PlacedDanmaku, SCROLL_DURATION } from "./layout";
+
+const FONT_FAMILY = '"PingFang SC", "Microsoft YaHei", "Noto Sans CJK SC", sans-serif';
+// A jump bigger than this (or backwards) is treated as a seek and the screen is laid out afresh
+const SEEK_THRESHOLD = 1.5;
+
+export interface RendererOptions {
+  opacity: number;
+  fontScale: number;
+}
+
+// Draws comments onto a canvas over the video, following `video.currentTime` every frame.
+export class DanmakuRenderer {
+  private readonly ctx: CanvasRenderingContext2D;
+  private comments: Danmaku[] = [];
+  private options: RendererOptions = { opacity: 1, fontScale: 1 };
+  private layout: DanmakuLayout | null = null;
+  private active: PlacedDanmaku[] = [];
+  private cursor = 0; // next comment to place
+  private lastTime = -1;
+  private dirty = true;
+  private frame = 0;
+  private readonly resizeObserver: ResizeObserver;
+
+  constructor(private readonly canvas: HTMLCanvasElement, private readonly getVideo: () => HTMLVideoElement | null) {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 不可用');
+    this.ctx = ctx;
+    this.resizeObserver = new ResizeObserver(() => this.invalidate());
+    this.resizeObserver.observe(canvas);
+    this.frame = requestAnimationFrame(this.tick);
+  }
+
+  setComments(comments: Danmaku[]) {
+    this.comments = comments;
+    this.invalidate();
+  }
+
+  setOptions(options: RendererOptions) {
+    this.options = options;
+    this.invalidate();
+  }
+
+  destroy() {
+    cancelAnimationFrame(this.frame);
+    this.resizeObserver.disconnect();
+  }
+
+  private invalidate() {
+    this.dirty = true;
+  }
+
+  private tick = () => {
+    this.frame = requestAnimationFrame(this.tick);
+    const video = this.getVideo();
+    const time = video ? video.currentTime : 0;
+    if (!this.dirty && time === this.lastTime) return;
+
+    if (this.dirty || time < this.lastTime || time - this.lastTime > SEEK_THRESHOLD) this.reset(time);
+    this.lastTime = time;
+    this.advance(time);
+    this.draw(time);
+  };
+
+  // Re-creates the layout for the current size and places what should already be on screen
+  private reset(time: number) {
+    this.dirty = false;
+    const dpr = window.devicePixelRatio || 1;
+    const width = this.canvas.clientWidth;
+    const height = this.canvas.clientHeight;
+    this.canvas.width = Math.round(width * dpr);
+    this.canvas.height = Math.round(height * dpr);
+    this.ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    this.layout = new DanmakuLayout({
+      width,
+      height,
+      fontScale: this.options.fontScale,
+      measure: (text, px) => {
+        this.ctx.font = font(px);
+        return this.ctx.measureText(text).width;
+      },
+    });
+    this.active = [];
+    this.cursor = lowerBound(this.comments, time - SCROLL_DURATION);
+  }
+
+  private advance(time: number) {
+    while (this.cursor < this.comments.length && this.comments[this.cursor].time <= time) {
+      const placed = this.layout?.place(this.comments[this.cursor]);
+      if (placed) this.active.push(placed);
+      this.cursor++;
+    }
+    this.active = this.active.filter(p => time - p.comment.time < p.duration);
+  }
+
+  private draw(time: number) {
+    const { ctx, layout } = this;
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    if (!layout) return;
+
+    const centre = this.canvas.clientWidth / 2;
+    ctx.globalAlpha = this.options.opacity;
+    ctx.textBaseline = 'top';
+    ctx.lineJoin = 'round';
+    for (const placed of this.active) {
+      const { comment, px, width, y } = placed;
+      const x = comment.mode === 'scroll' ? layout.scrollX(placed, time) : centre - width / 2;
+      ctx.font = font(px);
+      ctx.lineWidth = Math.max(2, px / 8);
+      ctx.strokeStyle = isDarkColor(comment.color) ? 'rgba(255,255,255,0.8)' : 'rgba(0,0,0,0.75)';
+      ctx.fillStyle = colorToCss(comment.color);
+      ctx.strokeText(comment.text, x, y);
+      ctx.fillText(comment.text, x, y);
+    }
+  }
+}
+
+function font(px: number) {
+  return `bold ${px}px ${FONT_FAMILY}`;
+}
+
+// Index of the first comment at or after `time`
+function lowerBound(comments: Danmaku[], time: number): number {
+  let lo = 0;
+  let hi = comments.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (comments[mid].time < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
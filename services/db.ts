@@ -0,0 +1,64 @@
+// Thin promise wrapper around the app's single IndexedDB database.
+// New stores are added by bumping DB_VERSION and extending `upgrade`.
+
+const DB_NAME = 'vidparse-pro';
+const DB_VERSION = 2;
+
+export const STORES = {
+  downloads: 'downloads',
+  chunks: 'chunks',
+  history: 'history',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.downloads, { keyPath: 'id' });
+    // Keyed by [downloadId, chunkIndex]
+    db.createObjectStore(STORES.chunks);
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.history, { keyPath: 'key' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (e) => upgrade(req.result, e.oldVersion);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = op(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const dbGet = <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  run(store, 'readonly', s => s.get(key));
+
+export const dbGetAll = <T>(store: StoreName, query?: IDBKeyRange): Promise<T[]> =>
+  run(store, 'readonly', s => s.getAll(query));
+
+export const dbPut = (store: StoreName, value: unknown, key?: IDBValidKey): Promise<IDBValidKey> =>
+  run(store, 'readwrite', s => s.put(value, key));
+
+export const dbDelete = (store: StoreName, key: IDBValidKey | IDBKeyRange): Promise<undefined> =>
+  run(store, 'readwrite', s => s.delete(key));
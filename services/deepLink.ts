@@ -0,0 +1,55 @@
+import { VideoSource } from "../types";
+
+// What a shareable link carries: the input to parse, where to start and which quality to play
+export interface DeepLink {
+  url: string;
+  time?: number; // seconds
+  // Label of the source, e.g. '1080P 高清'; a bare number is taken as a 0-based index
+  source?: string;
+}
+
+// Reads ?url=…&t=…&src=… from the query string, or the same keys from the hash (#url=…)
+export const readDeepLink = (location: Pick<Location, 'search' | 'hash'> = window.location): DeepLink | null => {
+  for (const part of [location.search, location.hash]) {
+    const params = new URLSearchParams(part.replace(/^[?#]/, ''));
+    const url = params.get('url')?.trim();
+    if (!url) continue;
+    const time = parseTimeParam(params.get('t') || '');
+    const source = params.get('src') || undefined;
+    return { url, time, source };
+  }
+  return null;
+};
+
+// Absolute link to the page that opens `link`; any other query or hash on the current page is dropped
+export const deepLinkHref = (link: DeepLink, location: Pick<Location, 'origin' | 'pathname'> = window.location): string => {
+  const params = new URLSearchParams({ url: link.url });
+  if (link.time && link.time > 0) params.set('t', String(Math.round(link.time * 1000) / 1000));
+  if (link.source) params.set('src', link.source);
+  return `${location.origin}${location.pathname}?${params}`;
+};
+
+// Accepts 90, 90.5, 1:30, 1:02:03.5 and YouTube-style 1h2m3s
+export const parseTimeParam = (value: string): number | undefined => {
+  const text = value.trim();
+  let seconds: number;
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    seconds = Number(text);
+  } else if (/^\d+(:\d{1,2}){1,2}(\.\d+)?$/.test(text)) {
+    seconds = text.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  } else {
+    const match = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s)?$/);
+    if (!match || !text) return undefined;
+    seconds = Number(match[1] || 0) * 3600 + Number(match[2] || 0) * 60 + Number(match[3] || 0);
+  }
+  return Number.isFinite(seconds) ? seconds : undefined;
+};
+
+// Index of the source a link asks for, or 0 when it names none that exists
+export const sourceIndexFor = (sources: VideoSource[], source?: string): number => {
+  if (!source) return 0;
+  const byLabel = sources.findIndex(s => s.label === source);
+  if (byLabel >= 0) return byLabel;
+  const index = /^\d+$/.test(source) ? Number(source) : -1;
+  return index < sources.length ? Math.max(index, 0) : 0;
+};
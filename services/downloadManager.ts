@@ -0,0 +1,424 @@
+import { DownloadJob, VideoSource } from "../types";
+import { STORES, dbDelete, dbGet, dbGetAll, dbPut } from "./db";
+import { saveBlob } from "./fileService";
+import { safeFilename } from "./formatters";
+import { renditionParts } from "./manifest";
+
+const CHUNK_SIZE = 4 * 1024 * 1024;
+const PARALLEL_CHUNKS = 4;
+const MAX_ACTIVE_JOBS = 3;
+const CHUNK_RETRIES = 3;
+const NOTIFY_INTERVAL = 250; // ms between UI updates while bytes are flowing
+const SPEED_WINDOW = 3000; // ms of samples the speed is averaged over
+
+// What the download panel renders: the persisted job plus live transfer stats
+export interface DownloadItem {
+  job: DownloadJob;
+  receivedBytes: number;
+  progress: number; // 0..1
+  speed: number; // bytes per second
+  eta: number; // seconds, Infinity when unknown
+}
+
+interface Runtime {
+  controller: AbortController;
+  // Bytes of chunks that are still streaming in
+  inflight: Map<number, number>;
+  samples: { time: number; bytes: number }[];
+}
+
+const chunkKey = (jobId: string, index: number) => [jobId, index];
+const chunkRange = (jobId: string) => IDBKeyRange.bound([jobId, 0], [jobId, Number.MAX_SAFE_INTEGER]);
+
+// Identifies what a job downloads: the file URL, or the manifest plus rendition for segment downloads
+export const downloadKey = (source: Pick<VideoSource, 'url' | 'manifest'>): string =>
+  source.manifest ? `${source.manifest.url}#${source.manifest.renditionId ?? 'auto'}` : source.url;
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isAbort = (e: any) => e?.name === 'AbortError';
+
+class DownloadManager {
+  private jobs = new Map<string, DownloadJob>();
+  private runtimes = new Map<string, Runtime>();
+  // Settles once a run's workers have all stopped, including runs that were paused or replaced
+  private finishing = new Map<string, Promise<void>>();
+  private listeners = new Set<() => void>();
+  private snapshot: DownloadItem[] = [];
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    if (typeof indexedDB !== 'undefined') this.restore();
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  // Queues a plain file download. Returns the id of an existing job for the same URL if there is one.
+  add(source: Pick<VideoSource, 'url' | 'mime' | 'bytes'>, filename: string): string {
+    const existing = [...this.jobs.values()].find(j => j.url === source.url && j.status !== 'completed');
+    if (existing) {
+      this.resume(existing.id);
+      return existing.id;
+    }
+
+    const job: DownloadJob = {
+      id: newId(),
+      url: source.url,
+      filename,
+      mime: source.mime || 'video/mp4',
+      status: 'queued',
+      createdAt: Date.now(),
+      totalBytes: source.bytes,
+      receivedBytes: 0,
+      chunkSize: CHUNK_SIZE,
+      chunkCount: 0,
+      completedChunks: [],
+    };
+    this.track(job);
+    return job.id;
+  }
+
+  // Queues an HLS/DASH rendition; each segment becomes one chunk
+  async addManifest(source: VideoSource, filename: string): Promise<string> {
+    if (!source.manifest) throw new Error('Not a manifest source');
+    const url = downloadKey(source);
+    const existing = [...this.jobs.values()].find(j => j.url === url && j.status !== 'completed');
+    if (existing) {
+      this.resume(existing.id);
+      return existing.id;
+    }
+
+    const { parts, mime, extension } = await renditionParts(source.manifest);
+    const job: DownloadJob = {
+      id: newId(),
+      url,
+      filename: `${filename}.${extension}`,
+      mime,
+      status: 'queued',
+      createdAt: Date.now(),
+      receivedBytes: 0,
+      chunkSize: 0,
+      chunkCount: parts.length,
+      completedChunks: [],
+      segments: parts,
+    };
+    this.track(job);
+    return job.id;
+  }
+
+  pause(id: string) {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== 'downloading' && job.status !== 'queued')) return;
+    this.runtimes.get(id)?.controller.abort();
+    this.runtimes.delete(id);
+    this.setStatus(job, 'paused');
+    this.schedule();
+  }
+
+  resume(id: string) {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== 'paused' && job.status !== 'error')) return;
+    job.error = undefined;
+    this.setStatus(job, 'queued');
+    this.schedule();
+  }
+
+  // Stops the download and forgets it, including any stored chunks
+  async cancel(id: string) {
+    this.runtimes.get(id)?.controller.abort();
+    this.runtimes.delete(id);
+    this.jobs.delete(id);
+    this.update(true);
+    this.schedule();
+    await Promise.all([dbDelete(STORES.downloads, id), dbDelete(STORES.chunks, chunkRange(id))]).catch(e => {
+      console.warn("Failed to clear download data", e);
+    });
+  }
+
+  clearFinished() {
+    for (const job of [...this.jobs.values()]) {
+      if (job.status === 'completed') this.cancel(job.id);
+    }
+  }
+
+  private async restore() {
+    try {
+      const saved = await dbGetAll<DownloadJob>(STORES.downloads);
+      for (const job of saved) {
+        // Whatever was running when the page went away waits for the user to resume it;
+        // signed stream URLs may well have expired in the meantime.
+        if (job.status === 'downloading' || job.status === 'queued' || job.status === 'assembling') {
+          job.status = 'paused';
+        }
+        if (!this.jobs.has(job.id)) this.jobs.set(job.id, job);
+      }
+      this.update(true);
+    } catch (e) {
+      console.warn("Failed to restore downloads", e);
+    }
+  }
+
+  private track(job: DownloadJob) {
+    this.jobs.set(job.id, job);
+    this.persist(job);
+    this.update(true);
+    this.schedule();
+  }
+
+  private schedule() {
+    const active = [...this.jobs.values()].filter(j => j.status === 'downloading').length;
+    const queued = [...this.jobs.values()]
+      .filter(j => j.status === 'queued')
+      .sort((a, b) => a.createdAt - b.createdAt);
+    queued.slice(0, Math.max(0, MAX_ACTIVE_JOBS - active)).forEach(job => this.run(job));
+  }
+
+  private async run(job: DownloadJob) {
+    const runtime: Runtime = { controller: new AbortController(), inflight: new Map(), samples: [] };
+    this.runtimes.set(job.id, runtime);
+    this.setStatus(job, 'downloading');
+
+    // A resumed job waits for the workers of its previous run, which may still be writing chunks
+    const previous = this.finishing.get(job.id);
+    let finished!: () => void;
+    const done = new Promise<void>(resolve => { finished = resolve; });
+    this.finishing.set(job.id, done);
+
+    try {
+      await previous;
+      runtime.controller.signal.throwIfAborted();
+      await this.prepare(job, runtime.controller.signal);
+      await this.runChunks(job, runtime);
+      if (this.runtimes.get(job.id) !== runtime) return;
+
+      this.setStatus(job, 'assembling');
+      await this.assemble(job);
+      this.setStatus(job, 'completed');
+    } catch (e: any) {
+      if (isAbort(e) || this.runtimes.get(job.id) !== runtime) return;
+      console.error("Download failed", e);
+      job.error = e?.message || String(e);
+      this.setStatus(job, 'error');
+    } finally {
+      if (this.runtimes.get(job.id) === runtime) this.runtimes.delete(job.id);
+      if (this.finishing.get(job.id) === done) this.finishing.delete(job.id);
+      finished();
+      this.schedule();
+    }
+  }
+
+  // Splits a new file download into chunks, or falls back to one stream when the
+  // server doesn't report a size or ignores Range requests
+  private async prepare(job: DownloadJob, signal: AbortSignal) {
+    if (job.chunkCount > 0) return;
+
+    const total = job.totalBytes || await probeLength(job.url, signal);
+    const ranged = total ? await supportsRange(job.url, signal) : false;
+
+    if (total && ranged) {
+      job.totalBytes = total;
+      job.chunkCount = Math.ceil(total / job.chunkSize);
+    } else {
+      job.totalBytes = total || undefined;
+      job.singleStream = true;
+      job.chunkCount = 1;
+    }
+    this.persist(job);
+  }
+
+  private async runChunks(job: DownloadJob, runtime: Runtime) {
+    const done = new Set(job.completedChunks);
+    const pending = Array.from({ length: job.chunkCount }, (_, i) => i).filter(i => !done.has(i));
+
+    const worker = async () => {
+      while (pending.length > 0) {
+        if (runtime.controller.signal.aborted) return;
+        await this.fetchChunkWithRetry(job, pending.shift()!, runtime);
+      }
+    };
+
+    const count = job.singleStream ? 1 : Math.min(PARALLEL_CHUNKS, pending.length);
+    const workers = Array.from({ length: count }, worker);
+    try {
+      await Promise.all(workers);
+    } catch (e) {
+      // One chunk gave up: stop the other workers and let them wind down before the job is marked failed
+      runtime.controller.abort();
+      await Promise.allSettled(workers);
+      throw e;
+    }
+    runtime.controller.signal.throwIfAborted();
+  }
+
+  private async fetchChunkWithRetry(job: DownloadJob, index: number, runtime: Runtime) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchChunk(job, index, runtime);
+      } catch (e) {
+        runtime.inflight.delete(index);
+        if (isAbort(e) || attempt >= CHUNK_RETRIES - 1) throw e;
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** attempt));
+      }
+    }
+  }
+
+  private async fetchChunk(job: DownloadJob, index: number, runtime: Runtime) {
+    let url = job.url;
+    let range: [number, number] | undefined;
+
+    if (job.segments) {
+      url = job.segments[index].url;
+      range = job.segments[index].range;
+    } else if (!job.singleStream) {
+      const start = index * job.chunkSize;
+      range = [start, Math.min(job.totalBytes!, start + job.chunkSize) - 1];
+    }
+
+    const headers: HeadersInit = range ? { Range: `bytes=${range[0]}-${range[1]}` } : {};
+    const res = await fetch(url, { headers, signal: runtime.controller.signal, referrerPolicy: 'no-referrer' });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    if (range && !job.segments && res.status !== 206) throw new Error('服务器未按分段返回数据');
+    if (!res.body) throw new Error('No body');
+
+    const reader = res.body.getReader();
+    const parts: Uint8Array[] = [];
+    let loaded = 0;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parts.push(value);
+      loaded += value.length;
+      runtime.inflight.set(index, loaded);
+      this.update();
+    }
+
+    const blob = new Blob(parts);
+    // Complete chunks are kept even if the job was paused meanwhile
+    await dbPut(STORES.chunks, blob, chunkKey(job.id, index));
+    runtime.inflight.delete(index);
+    if (this.jobs.get(job.id) !== job) {
+      // Cancelled while the chunk was being written; its other chunks are already gone
+      await dbDelete(STORES.chunks, chunkKey(job.id, index)).catch(() => {});
+      return;
+    }
+    // A quick pause and resume can fetch the same chunk in two runs
+    if (job.completedChunks.includes(index)) return;
+    job.completedChunks.push(index);
+    job.receivedBytes += blob.size;
+    this.persist(job);
+    this.update();
+  }
+
+  private async assemble(job: DownloadJob) {
+    const blobs: Blob[] = [];
+    for (let i = 0; i < job.chunkCount; i++) {
+      const blob = await dbGet<Blob>(STORES.chunks, chunkKey(job.id, i));
+      if (!blob) throw new Error(`缺少分块 ${i}`);
+      blobs.push(blob);
+    }
+    saveBlob(new Blob(blobs, { type: job.mime }), job.filename);
+    await dbDelete(STORES.chunks, chunkRange(job.id));
+  }
+
+  private setStatus(job: DownloadJob, status: DownloadJob['status']) {
+    job.status = status;
+    this.persist(job);
+    this.update(true);
+  }
+
+  private persist(job: DownloadJob) {
+    // A cancelled job must not be written back by work that was still finishing
+    if (this.jobs.get(job.id) !== job) return;
+    dbPut(STORES.downloads, job).catch(e => console.warn("Failed to persist download", e));
+  }
+
+  // Rebuilds the snapshot; progress ticks are throttled, status changes go out immediately
+  private update(immediate = false) {
+    if (immediate) {
+      if (this.notifyTimer) clearTimeout(this.notifyTimer);
+      this.notifyTimer = null;
+      this.emit();
+    } else if (!this.notifyTimer) {
+      this.notifyTimer = setTimeout(() => {
+        this.notifyTimer = null;
+        this.emit();
+      }, NOTIFY_INTERVAL);
+    }
+  }
+
+  private emit() {
+    const now = Date.now();
+    this.snapshot = [...this.jobs.values()]
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(job => this.describe(job, now));
+    this.listeners.forEach(listener => listener());
+  }
+
+  private describe(job: DownloadJob, now: number): DownloadItem {
+    const runtime = this.runtimes.get(job.id);
+    const inflight = runtime ? [...runtime.inflight.values()].reduce((a, b) => a + b, 0) : 0;
+    const receivedBytes = job.receivedBytes + inflight;
+
+    let speed = 0;
+    if (runtime && job.status === 'downloading') {
+      runtime.samples.push({ time: now, bytes: receivedBytes });
+      runtime.samples = runtime.samples.filter(s => now - s.time <= SPEED_WINDOW);
+      const first = runtime.samples[0];
+      const elapsed = (now - first.time) / 1000;
+      speed = elapsed > 0 ? (receivedBytes - first.bytes) / elapsed : 0;
+    }
+
+    // Segment downloads have no known size; estimate it from the average segment so far
+    const done = job.completedChunks.length;
+    const total = job.totalBytes
+      || (done > 0 ? (job.receivedBytes / done) * job.chunkCount : undefined);
+    const progress = job.status === 'completed'
+      ? 1
+      : total ? Math.min(receivedBytes / total, 1) : job.chunkCount ? done / job.chunkCount : 0;
+    const eta = speed > 0 && total ? (total - receivedBytes) / speed : Infinity;
+
+    return { job, receivedBytes, progress, speed, eta };
+  }
+}
+
+// Size from a HEAD request; 0 when unknown
+async function probeLength(url: string, signal: AbortSignal): Promise<number> {
+  try {
+    const res = await fetch(url, { method: 'HEAD', signal, referrerPolicy: 'no-referrer' });
+    return res.ok ? parseInt(res.headers.get('content-length') || '0', 10) || 0 : 0;
+  } catch (e) {
+    if (isAbort(e)) throw e;
+    return 0;
+  }
+}
+
+async function supportsRange(url: string, signal: AbortSignal): Promise<boolean> {
+  try {
+    const res = await fetch(url, { headers: { Range: 'bytes=0-0' }, signal, referrerPolicy: 'no-referrer' });
+    res.body?.cancel();
+    return res.status === 206;
+  } catch (e) {
+    if (isAbort(e)) throw e;
+    return false;
+  }
+}
+
+function fileExtension(mime = ''): string {
+  if (mime.includes('webm')) return 'webm';
+  if (mime.startsWith('audio/mp4')) return 'm4a';
+  return 'mp4';
+}
+
+export const downloadManager = new DownloadManager();
+
+// Queues the right kind of job for a source, naming the file after the video title and quality
+export const queueDownload = (source: VideoSource, title: string): Promise<string> => {
+  const filename = safeFilename(source.label ? `${title}_${source.label}` : title);
+  if (source.manifest) return downloadManager.addManifest(source, filename);
+  return Promise.resolve(downloadManager.add(source, `${filename}.${fileExtension(source.mime)}`));
+};
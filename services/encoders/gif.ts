@@ -0,0 +1,245 @@
+// Animated GIF encoder. Each frame gets its own palette (median cut over a
+// 15-bit colour histogram) and is LZW-compressed as the format requires.
+
+export interface GifOptions {
+  // Palette size per frame, 2..256
+  colors?: number;
+  // 0 loops forever
+  loop?: number;
+}
+
+export class GifEncoder {
+  private readonly out = new ByteWriter();
+  private readonly colors: number;
+  // Rounding carried between frames so delays in 1/100 s don't drift
+  private delayError = 0;
+
+  constructor(private readonly width: number, private readonly height: number, options: GifOptions = {}) {
+    this.colors = Math.min(256, Math.max(2, options.colors || 256));
+
+    this.out.string('GIF89a');
+    this.out.u16(width);
+    this.out.u16(height);
+    this.out.bytes([0, 0, 0]); // no global colour table
+    // NETSCAPE2.0 application extension: loop count
+    this.out.bytes([0x21, 0xff, 0x0b]);
+    this.out.string('NETSCAPE2.0');
+    this.out.bytes([0x03, 0x01]);
+    this.out.u16(options.loop ?? 0);
+    this.out.byte(0);
+  }
+
+  // `rgba` is canvas ImageData for a frame of the encoder's size
+  addFrame(rgba: Uint8ClampedArray, delayMs: number) {
+    const { palette, indices } = quantize(rgba, this.colors);
+
+    const exact = delayMs / 10 + this.delayError;
+    const delay = Math.max(2, Math.round(exact)); // browsers treat shorter delays as 10
+    this.delayError = exact - delay;
+
+    // Graphic control extension
+    this.out.bytes([0x21, 0xf9, 0x04, 0x00]);
+    this.out.u16(delay);
+    this.out.bytes([0, 0]);
+
+    // Image descriptor with a local colour table of 2^tableBits entries
+    const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length / 3)));
+    this.out.byte(0x2c);
+    this.out.u16(0);
+    this.out.u16(0);
+    this.out.u16(this.width);
+    this.out.u16(this.height);
+    this.out.byte(0x80 | (tableBits - 1));
+    const table = new Uint8Array(3 << tableBits);
+    table.set(palette);
+    this.out.bytes(table);
+
+    lzwEncode(indices, Math.max(2, tableBits), this.out);
+  }
+
+  finish(): Blob {
+    this.out.byte(0x3b);
+    return new Blob([this.out.result()], { type: 'image/gif' });
+  }
+}
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  u16(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  result(): Uint8Array {
+    return this.buffer.subarray(0, this.length);
+  }
+}
+
+interface Box {
+  buckets: number[];
+  count: number;
+}
+
+// Median cut over 5-bit-per-channel buckets; returns a flat RGB palette and one index per pixel
+function quantize(rgba: Uint8ClampedArray, colors: number): { palette: Uint8Array; indices: Uint8Array } {
+  const pixels = rgba.length >> 2;
+  const bucketOf = new Uint16Array(pixels);
+  const histogram = new Uint32Array(32768);
+  for (let i = 0; i < pixels; i++) {
+    const p = i << 2;
+    const bucket = ((rgba[p] >> 3) << 10) | ((rgba[p + 1] >> 3) << 5) | (rgba[p + 2] >> 3);
+    bucketOf[i] = bucket;
+    histogram[bucket]++;
+  }
+
+  const used: number[] = [];
+  for (let b = 0; b < 32768; b++) if (histogram[b]) used.push(b);
+
+  const boxes: Box[] = [{ buckets: used, count: pixels }];
+  while (boxes.length < colors) {
+    // Split the most populated box that still has more than one colour
+    let target = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].buckets.length > 1 && (target < 0 || boxes[i].count > boxes[target].count)) target = i;
+    }
+    if (target < 0) break;
+    boxes.splice(target, 1, ...splitBox(boxes[target], histogram));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  const indexOf = new Uint8Array(32768);
+  boxes.forEach((box, index) => {
+    let r = 0, g = 0, b = 0;
+    for (const bucket of box.buckets) {
+      const n = histogram[bucket];
+      r += (bucket >> 10) * n;
+      g += ((bucket >> 5) & 31) * n;
+      b += (bucket & 31) * n;
+      indexOf[bucket] = index;
+    }
+    // Bucket centre back to 8 bits
+    palette[index * 3] = Math.min(255, Math.round((r / box.count) * 8 + 4));
+    palette[index * 3 + 1] = Math.min(255, Math.round((g / box.count) * 8 + 4));
+    palette[index * 3 + 2] = Math.min(255, Math.round((b / box.count) * 8 + 4));
+  });
+
+  const indices = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) indices[i] = indexOf[bucketOf[i]];
+  return { palette, indices };
+}
+
+// Halves a box at the pixel-weighted median of its widest channel
+function splitBox(box: Box, histogram: Uint32Array): Box[] {
+  const channel = (bucket: number, c: number) => (bucket >> (10 - c * 5)) & 31;
+  let widest = 0;
+  let widestRange = -1;
+  for (let c = 0; c < 3; c++) {
+    let min = 31, max = 0;
+    for (const bucket of box.buckets) {
+      const v = channel(bucket, c);
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    if (max - min > widestRange) {
+      widestRange = max - min;
+      widest = c;
+    }
+  }
+
+  const sorted = [...box.buckets].sort((a, b) => channel(a, widest) - channel(b, widest));
+  let seen = 0;
+  let cut = 1;
+  for (; cut < sorted.length; cut++) {
+    seen += histogram[sorted[cut - 1]];
+    if (seen >= box.count / 2) break;
+  }
+  cut = Math.min(cut, sorted.length - 1);
+
+  const lower = sorted.slice(0, cut);
+  const upper = sorted.slice(cut);
+  const count = (buckets: number[]) => buckets.reduce((sum, b) => sum + histogram[b], 0);
+  return [{ buckets: lower, count: count(lower) }, { buckets: upper, count: count(upper) }];
+}
+
+// GIF-flavoured LZW: variable code size up to 12 bits, packed LSB first into 255-byte sub-blocks
+function lzwEncode(indices: Uint8Array, minCodeSize: number, out: ByteWriter) {
+  out.byte(minCodeSize);
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const table = new Map<number, number>();
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bits & 0xff;
+      bits >>>= 8;
+      bitCount -= 8;
+      if (blockLength === 255) flush();
+    }
+  };
+  const flush = () => {
+    if (blockLength === 0) return;
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block[blockLength++] = bits & 0xff;
+    if (blockLength === 255) flush();
+  }
+  flush();
+  out.byte(0); // block terminator
+}
@@ -0,0 +1,122 @@
+import { AudioTags } from "../../types";
+
+// Decoded audio, as an AudioBuffer provides it
+export interface PcmAudio {
+  sampleRate: number;
+  numberOfChannels: number;
+  getChannelData: (channel: number) => Float32Array;
+}
+
+// 16-bit PCM WAV. Title and comment go into a LIST/INFO chunk; since INFO has no
+// place for pictures, everything is repeated in an ID3v2 chunk, which most players read.
+export const encodeWav = (audio: PcmAudio, tags: AudioTags = {}, gain = 1): Blob => {
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, c) => audio.getChannelData(c));
+  const frames = channels[0]?.length || 0;
+
+  const pcm = new DataView(new ArrayBuffer(frames * channels.length * 2));
+  let offset = 0;
+  for (let i = 0; i < frames; i++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[i] * gain));
+      pcm.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+
+  const fmt = new DataView(new ArrayBuffer(16));
+  fmt.setUint16(0, 1, true); // PCM
+  fmt.setUint16(2, channels.length, true);
+  fmt.setUint32(4, audio.sampleRate, true);
+  fmt.setUint32(8, audio.sampleRate * channels.length * 2, true);
+  fmt.setUint16(12, channels.length * 2, true);
+  fmt.setUint16(14, 16, true);
+
+  const info: Uint8Array[] = [];
+  if (tags.title) info.push(chunk('INAM', zeroTerminated(tags.title)));
+  if (tags.comment) info.push(chunk('ICMT', zeroTerminated(tags.comment)));
+  info.push(chunk('ISFT', zeroTerminated('VidParse Pro')));
+
+  const body = [
+    ascii('WAVE'),
+    chunk('fmt ', new Uint8Array(fmt.buffer)),
+    chunk('data', new Uint8Array(pcm.buffer)),
+    chunk('LIST', concat([ascii('INFO'), ...info])),
+    ...(tags.title || tags.cover || tags.comment ? [chunk('id3 ', id3Tag(tags))] : []),
+  ];
+  const size = body.reduce((sum, part) => sum + part.length, 0);
+  const header = new DataView(new ArrayBuffer(8));
+  header.setUint32(0, 0x52494646); // 'RIFF'
+  header.setUint32(4, size, true);
+  return new Blob([header.buffer, ...body], { type: 'audio/wav' });
+};
+
+// RIFF chunk, padded to an even length
+function chunk(id: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + data.length + (data.length & 1));
+  out.set(ascii(id), 0);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+}
+
+// ID3v2.3 with UTF-16 text frames
+function id3Tag(tags: AudioTags): Uint8Array {
+  const frames: Uint8Array[] = [];
+  if (tags.title) frames.push(id3Frame('TIT2', concat([Uint8Array.of(1), utf16(tags.title)])));
+  if (tags.comment) frames.push(id3Frame('COMM', concat([Uint8Array.of(1), ascii('und'), utf16(''), utf16(tags.comment)])));
+  if (tags.cover) {
+    frames.push(id3Frame('APIC', concat([
+      Uint8Array.of(0), ascii(tags.cover.mime), Uint8Array.of(0),
+      Uint8Array.of(3), // front cover
+      Uint8Array.of(0), // empty description
+      tags.cover.bytes,
+    ])));
+  }
+
+  const body = concat(frames);
+  const header = new Uint8Array(10);
+  header.set(ascii('ID3'), 0);
+  header[3] = 3;
+  // Tag size is stored as four 7-bit bytes
+  for (let i = 0; i < 4; i++) header[6 + i] = (body.length >> (21 - i * 7)) & 0x7f;
+  return concat([header, body]);
+}
+
+function id3Frame(id: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(10 + data.length);
+  out.set(ascii(id), 0);
+  new DataView(out.buffer).setUint32(4, data.length);
+  out.set(data, 10);
+  return out;
+}
+
+// BOM, UTF-16LE text and a two-byte terminator
+function utf16(text: string): Uint8Array {
+  const out = new Uint8Array(4 + text.length * 2);
+  out[0] = 0xff;
+  out[1] = 0xfe;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    out[2 + i * 2] = code & 0xff;
+    out[3 + i * 2] = code >> 8;
+  }
+  return out;
+}
+
+function zeroTerminated(text: string): Uint8Array {
+  return concat([new TextEncoder().encode(text), Uint8Array.of(0)]);
+}
+
+function ascii(text: string): Uint8Array {
+  return Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,78 @@
+import { ParseErrorCode, TraceLevel, TraceStep, Tracer } from "../types";
+
+const ERROR_INFO: Record<ParseErrorCode, { message: string; action: string }> = {
+  unsupported_url: {
+    message: '无法识别该链接',
+    action: '支持 B站 BV/av/b23.tv、UP主空间、收藏夹与合集、YouTube、直链 MP4 以及 HLS/DASH 清单，请确认链接完整',
+  },
+  short_link_failed: {
+    message: '短链接解析失败',
+    action: '在浏览器中打开短链接，复制跳转后的完整地址再试',
+  },
+  metadata_api: {
+    message: '视频信息接口返回错误',
+    action: '检查链接中的视频编号是否正确，或稍后重试',
+  },
+  parser_api: {
+    message: '直链解析接口不可用',
+    action: '可在设置中更换 B站解析接口；当前可先使用内嵌播放器观看',
+  },
+  proxy_failed: {
+    message: '所有中转节点均请求失败',
+    action: '在设置中测试并调整中转节点，或通过 npm run dev 使用本地中转',
+  },
+  restricted: {
+    message: '该视频有地区或登录限制',
+    action: '该视频需要登录或仅限部分地区观看，暂时无法解析',
+  },
+  video_deleted: {
+    message: '视频不存在或已被删除',
+    action: '确认视频在原站仍可访问',
+  },
+  unsupported_file: {
+    message: '无法打开该文件',
+    action: '请选择浏览器能播放的视频文件 (MP4/WebM/MOV)，H.265 等编码在部分浏览器中不受支持',
+  },
+  unknown: {
+    message: '解析失败',
+    action: '展开诊断信息查看详情，或稍后重试',
+  },
+};
+
+export class ParseError extends Error {
+  readonly code: ParseErrorCode;
+  // Technical detail (API code, HTTP status...) for the diagnostics panel
+  readonly detail?: string;
+  // Steps recorded up to the failure; attached by parseVideoInput
+  trace?: TraceStep[];
+
+  constructor(code: ParseErrorCode, detail?: string) {
+    super(detail ? `${ERROR_INFO[code].message} (${detail})` : ERROR_INFO[code].message);
+    this.name = 'ParseError';
+    this.code = code;
+    this.detail = detail;
+  }
+
+  get userMessage() {
+    return ERROR_INFO[this.code].message;
+  }
+
+  get action() {
+    return ERROR_INFO[this.code].action;
+  }
+}
+
+export const toParseError = (e: unknown): ParseError =>
+  e instanceof ParseError ? e : new ParseError('unknown', (e as Error)?.message || String(e));
+
+export const errorAction = (code: ParseErrorCode) => ERROR_INFO[code].action;
+
+// Records steps with their offset from the moment the trace was created
+export class ParseTrace implements Tracer {
+  readonly steps: TraceStep[] = [];
+  private readonly start = Date.now();
+
+  log = (level: TraceLevel, label: string, detail?: string, code?: ParseErrorCode) => {
+    this.steps.push({ at: Date.now() - this.start, level, label, detail, code });
+  };
+}
@@ -0,0 +1,374 @@
+import { Chapter, Danmaku, ParseErrorCode, SubtitleTrack, Tracer, VideoExtractor, VideoMetadata, VideoPart, VideoSource, VideoTarget } from "../../types";
+import { parseDanmakuXml } from "../danmaku";
+import { ParseError, toParseError } from "../errors";
+import { relayFetch, relayJson } from "../proxy";
+import { getSettings } from "../settings";
+import { fetchBilibiliList, matchesBilibiliList } from "./bilibiliLists";
+import { formatDuration, probeHead } from "./shared";
+
+const BV_REGEX = /(BV[a-zA-Z0-9]{10})/;
+const AV_REGEX = /(?:av)([0-9]+)/;
+
+const isBvid = (id: string) => id.startsWith('BV');
+
+// Query fragments for the view API (bvid/aid) and the parser API (bv/av)
+const viewParam = (id: string) => isBvid(id) ? `bvid=${id}` : `aid=${id}`;
+const parserParam = (id: string) => isBvid(id) ? `bv=${id}` : `av=${id}`;
+
+// Bilibili quality numbers (qn) as used by both the playurl and parser APIs
+const QUALITY_LABELS: Record<number, string> = {
+  16: '360P 流畅',
+  32: '480P 清晰',
+  64: '720P 高清',
+  74: '720P60 高帧率',
+  80: '1080P 高清',
+  112: '1080P+ 高码率',
+  116: '1080P60 高帧率',
+  120: '4K 超清',
+  125: 'HDR 真彩色',
+  126: '杜比视界',
+  127: '8K 超高清',
+};
+
+// DASH audio stream ids
+const AUDIO_LABELS: Record<number, string> = {
+  30216: '64K',
+  30232: '132K',
+  30280: '192K',
+  30250: '杜比全景声',
+  30251: 'Hi-Res 无损',
+};
+
+interface QualityInfo {
+  qn: number;
+  label: string;
+  width?: number;
+  height?: number;
+  bitrate?: number;
+  codec?: string;
+}
+
+// Starting part from the `p` query parameter (`?p=3`), defaulting to the first
+const partFromUrl = (url: string): number => {
+  const match = url.match(/[?&]p=(\d+)/);
+  const page = match ? parseInt(match[1], 10) : 1;
+  return page > 0 ? page : 1;
+};
+
+const toPages = (id: string, pages: any[]): VideoPart[] =>
+  pages.map((page) => ({
+    kind: 'page',
+    videoId: id,
+    page: page.page,
+    cid: page.cid,
+    title: page.part || `P${page.page}`,
+    duration: page.duration ? formatDuration(page.duration) : undefined,
+  }));
+
+// Flattens every section of a UGC season (合集) into one episode list
+const toEpisodes = (season: any): VideoPart[] =>
+  (season.sections || []).flatMap((section: any) =>
+    (section.episodes || []).map((episode: any) => {
+      const seconds = episode.arc?.duration || episode.page?.duration;
+      return {
+        kind: 'episode',
+        videoId: episode.bvid || String(episode.aid),
+        page: 1,
+        cid: episode.cid,
+        title: episode.title,
+        duration: seconds ? formatDuration(seconds) : undefined,
+      };
+    })
+  );
+
+// Bilibili API response codes that say something about the video itself
+const DELETED_CODES = [-404, 62002, 62004];
+const RESTRICTED_CODES = [-403, -10403, -101, 62012, 87008];
+// Anti-crawler throttling; the video may well be fine, so parsing carries on
+const THROTTLED_CODES = [-412, -352, -509, -799];
+
+// Typed error for a non-zero API response code
+const apiError = (json: any, fallback: ParseErrorCode): ParseError => {
+  const code = json?.code;
+  const detail = code == null ? '响应格式错误' : `code ${code}${json.message ? ` ${json.message}` : ''}`;
+  if (DELETED_CODES.includes(code)) return new ParseError('video_deleted', detail);
+  if (RESTRICTED_CODES.includes(code)) return new ParseError('restricted', detail);
+  return new ParseError(fallback, detail);
+};
+
+// For lookups the parse can do without: note the failure and carry on
+const logFailure = (tracer: Tracer | undefined, label: string, e: unknown) => {
+  const error = toParseError(e);
+  tracer?.log('warn', label, error.detail || error.message, error.code);
+};
+
+// cid of the given page, which the playurl API needs
+const fetchPageCid = async (id: string, part: number, tracer?: Tracer): Promise<number | undefined> => {
+  try {
+    const json = await relayJson(`https://api.bilibili.com/x/player/pagelist?${viewParam(id)}`, { tracer });
+    if (json?.code !== 0 || !Array.isArray(json.data)) throw apiError(json, 'metadata_api');
+    const page = json.data.find((p: any) => p.page === part) || json.data[0];
+    tracer?.log('ok', '获取分P列表', `P${page?.page} cid=${page?.cid}`);
+    return page?.cid;
+  } catch (e) {
+    logFailure(tracer, '获取分P列表失败', e);
+    return undefined;
+  }
+};
+
+// Every quality Bilibili offers for a part, best first. Resolution, codec and
+// bitrate come from the DASH stream list of the same response (preferring AVC,
+// which is what the MP4 files are encoded with). The DASH audio-only streams
+// are returned alongside.
+const fetchPlayInfo = async (id: string, cid: number, tracer?: Tracer): Promise<{ ladder: QualityInfo[]; audio: VideoSource[] }> => {
+  try {
+    const json = await relayJson(`https://api.bilibili.com/x/player/playurl?${viewParam(id)}&cid=${cid}&qn=0&fnval=4048&fourk=1`, { tracer });
+    if (json?.code !== 0 || !json.data) throw apiError(json, 'metadata_api');
+
+    const accepted: number[] = json.data.accept_quality || [];
+    const descriptions: string[] = json.data.accept_description || [];
+    const dashVideos: any[] = json.data.dash?.video || [];
+
+    const ladder = accepted
+      .map((qn, i): QualityInfo => {
+        const streams = dashVideos.filter(v => v.id === qn);
+        const stream = streams.find(v => String(v.codecs).startsWith('avc')) || streams[0];
+        return {
+          qn,
+          label: QUALITY_LABELS[qn] || descriptions[i] || `q=${qn}`,
+          width: stream?.width,
+          height: stream?.height,
+          bitrate: stream?.bandwidth,
+          codec: stream?.codecs,
+        };
+      })
+      .sort((a, b) => b.qn - a.qn);
+    tracer?.log('ok', '获取清晰度列表', ladder.map(q => q.label).join(', '));
+
+    const dash = json.data.dash;
+    const audioStreams: any[] = [...(dash?.flac?.audio ? [dash.flac.audio] : []), ...(dash?.dolby?.audio || []), ...(dash?.audio || [])];
+    const audio = audioStreams
+      .filter(a => a.baseUrl || a.base_url)
+      .sort((a, b) => (b.bandwidth || 0) - (a.bandwidth || 0))
+      .map((a): VideoSource => ({
+        url: a.baseUrl || a.base_url,
+        format: String(a.codecs).startsWith('fLaC') ? 'FLAC' : 'M4A',
+        label: `音频 ${AUDIO_LABELS[a.id] || ''}`.trim(),
+        bitrate: a.bandwidth,
+        codec: a.codecs,
+        mime: 'audio/mp4',
+        isDownloadable: true,
+      }));
+    if (audio.length > 0) tracer?.log('ok', '获取音频流', audio.map(a => a.label).join(', '));
+    return { ladder, audio };
+  } catch (e) {
+    logFailure(tracer, '获取清晰度列表失败', e);
+    return { ladder: [], audio: [] };
+  }
+};
+
+// CC subtitle tracks and view-point chapters of a part; subtitle cues are fetched when a track is picked
+const fetchPlayerExtras = async (id: string, cid: number, tracer?: Tracer): Promise<{ subtitles: SubtitleTrack[]; chapters: Chapter[] }> => {
+  try {
+    const json = await relayJson(`https://api.bilibili.com/x/player/v2?${viewParam(id)}&cid=${cid}`, { tracer });
+    if (json?.code !== 0) throw apiError(json, 'metadata_api');
+    const subtitles: SubtitleTrack[] = (json.data?.subtitle?.subtitles || [])
+      .filter((s: any) => s.subtitle_url)
+      .map((s: any) => ({
+        id: String(s.id_str || s.id),
+        lang: s.lan,
+        label: s.lan_doc || s.lan,
+        url: s.subtitle_url.startsWith('//') ? `https:${s.subtitle_url}` : s.subtitle_url,
+        format: 'bcc',
+        auto: s.lan?.startsWith('ai-') || !!s.ai_type,
+      }));
+    if (subtitles.length > 0) tracer?.log('ok', '获取字幕列表', subtitles.map(t => t.label).join(', '));
+
+    // type 2 marks uploader-defined chapters; other view points are ads and highlights
+    const chapters: Chapter[] = (json.data?.view_points || [])
+      .filter((v: any) => v.type === 2 && typeof v.from === 'number')
+      .map((v: any, i: number) => ({ id: `platform-${i}`, start: v.from, title: v.content || `章节 ${i + 1}`, source: 'platform' }));
+    if (chapters.length > 0) tracer?.log('ok', '获取视频章节', `${chapters.length} 个章节`);
+    return { subtitles, chapters };
+  } catch (e) {
+    logFailure(tracer, '获取字幕与章节失败', e);
+    return { subtitles: [], chapters: [] };
+  }
+};
+
+// Direct MP4 URL for one quality via the parser API
+const fetchMp4Url = async (id: string, part: number, qn: number, tracer?: Tracer): Promise<string | null> => {
+  try {
+    const json = await relayJson(`${getSettings().bilibiliParserApi}?${parserParam(id)}&p=${part}&q=${qn}&format=mp4&otype=json`, { tracer });
+    if (json?.code === 0 && json.url) return json.url;
+    throw new ParseError('parser_api', json?.code != null ? `code ${json.code}${json.msg ? ` ${json.msg}` : ''}` : '未返回直链');
+  } catch (e) {
+    logFailure(tracer, `解析接口 q=${qn} 失败`, e);
+  }
+  return null;
+};
+
+// Resolve b23.tv short links to a full bilibili.com URL (or at least a BV id).
+// Relay failures propagate as they are; anything else is a short_link_failed.
+const resolveShortLink = async (url: string, tracer?: Tracer): Promise<{ url: string; bvid?: string }> => {
+  const followed = (finalUrl?: string) => !!finalUrl && !finalUrl.includes('b23.tv');
+  const { body, finalUrl } = await relayFetch(url, {
+    tracer,
+    // A relay that neither followed the redirect nor returned the target page is no use
+    validate: (r) => followed(r.finalUrl) || BV_REGEX.test(r.body),
+  });
+
+  // Case A: Relay followed redirect and gave us the final URL
+  if (followed(finalUrl)) {
+    tracer?.log('ok', '短链接跳转', finalUrl);
+    return { url: finalUrl! };
+  }
+
+  // Case B: Relay returned the redirection page content (e.g. "click here to redirect" or meta refresh)
+  // Attempt to find a standard Bilibili URL in the HTML content
+  const urlMatch = body.match(/https?:\/\/(?:www|m)\.bilibili\.com\/video\/(BV[a-zA-Z0-9]{10})/);
+  if (urlMatch) {
+    tracer?.log('ok', '短链接跳转页中找到视频地址', urlMatch[0]);
+    return { url: urlMatch[0], bvid: urlMatch[1] };
+  }
+
+  // Fallback: Just look for any BV id in the mess
+  const rawBvMatch = body.match(BV_REGEX);
+  if (rawBvMatch) {
+    tracer?.log('ok', '短链接跳转页中找到 BV 号', rawBvMatch[1]);
+    return { url, bvid: rawBvMatch[1] };
+  }
+  throw new ParseError('short_link_failed', url);
+};
+
+export const bilibiliExtractor: VideoExtractor = {
+  platform: 'bilibili',
+
+  matches: (url) => url.includes('b23.tv') || BV_REGEX.test(url) || AV_REGEX.test(url),
+
+  extractId: async (input, tracer) => {
+    let url = input;
+    let bvid = '';
+
+    if (url.includes('b23.tv')) {
+      const resolved = await resolveShortLink(url, tracer);
+      url = resolved.url;
+      bvid = resolved.bvid || '';
+    }
+
+    if (!bvid) {
+      const bvMatch = url.match(BV_REGEX);
+      const avMatch = url.match(AV_REGEX);
+
+      if (bvMatch) bvid = bvMatch[1];
+      else if (avMatch) return { id: avMatch[1], url, part: partFromUrl(url) };
+    }
+
+    return bvid ? { id: bvid, url, part: partFromUrl(url) } : null;
+  },
+
+  fetchMetadata: async ({ id, part = 1 }: VideoTarget, tracer?: Tracer): Promise<VideoMetadata> => {
+    let metaData: any = {};
+    let json: any = null;
+    try {
+      json = await relayJson(`https://api.bilibili.com/x/web-interface/view?${viewParam(id)}`, { tracer });
+    } catch (e) {
+      // Without metadata the embed player can still show the video
+      logFailure(tracer, '获取视频信息失败', e);
+    }
+
+    if (json?.code === 0) {
+      metaData = json.data;
+      tracer?.log('ok', '获取视频信息', metaData.title);
+    } else if (json && THROTTLED_CODES.includes(json.code)) {
+      logFailure(tracer, '视频信息接口限流', apiError(json, 'metadata_api'));
+    } else if (json) {
+      throw apiError(json, 'metadata_api');
+    }
+
+    const pages = toPages(id, metaData.pages || []);
+    const episodes = metaData.ugc_season ? toEpisodes(metaData.ugc_season) : [];
+    const currentPage = pages.find(p => p.page === part);
+
+    return {
+      title: metaData.title || `Bilibili 视频 (${id})`,
+      thumbnailUrl: metaData.pic || '',
+      description: metaData.desc || '',
+      author: metaData.owner?.name,
+      duration: metaData.duration ? formatDuration(metaData.duration) : '',
+      // A single page is just the video itself, not worth a picker
+      parts: pages.length > 1 ? pages : undefined,
+      episodes: episodes.length > 0 ? episodes : undefined,
+      collectionTitle: metaData.ugc_season?.title,
+      currentCid: currentPage?.cid ?? metaData.cid,
+    };
+  },
+
+  resolveSources: async ({ id, part = 1 }, tracer) => {
+    const cid = await fetchPageCid(id, part, tracer);
+    const [{ ladder, audio }, { subtitles, chapters }] = cid
+      ? await Promise.all([fetchPlayInfo(id, cid, tracer), fetchPlayerExtras(id, cid, tracer)])
+      : [{ ladder: [], audio: [] }, { subtitles: [], chapters: [] }];
+    const qualities = ladder.length > 0 ? ladder : [{ qn: 80, label: QUALITY_LABELS[80] }];
+
+    const resolved = await Promise.all(
+      qualities.map(async (quality) => ({ quality, url: await fetchMp4Url(id, part, quality.qn, tracer) }))
+    );
+
+    // The parser API hands back the best file it can get for a requested quality,
+    // so qualities above what is actually available collapse onto the same URL.
+    const seen = new Set<string>();
+    const unique = resolved.filter(({ url }) => {
+      if (!url || seen.has(url)) return false;
+      seen.add(url);
+      return true;
+    });
+
+    if (unique.length > 0) {
+      const sources = await Promise.all(unique.map(async ({ quality, url }): Promise<VideoSource> => {
+        const { bytes } = await probeHead(url!);
+        return {
+          url: url!,
+          format: 'MP4',
+          label: quality.label,
+          width: quality.width,
+          height: quality.height,
+          bitrate: quality.bitrate,
+          codec: quality.codec,
+          mime: 'video/mp4',
+          bytes,
+          isDownloadable: true
+        };
+      }));
+      tracer?.log('ok', '解析 MP4 直链', `${sources.length} 个清晰度`);
+      return { playerType: 'native', sources, audio, subtitles, chapters };
+    }
+
+    tracer?.log('warn', '回退到内嵌播放器', '解析接口没有返回任何可用的直链', 'parser_api');
+    return {
+      playerType: 'iframe',
+      sources: [
+        {
+          url: `//player.bilibili.com/player.html?${viewParam(id)}&p=${part}&high_quality=1&danmaku=0`,
+          format: 'Embed',
+          label: 'Auto',
+          isDownloadable: false
+        }
+      ],
+      audio,
+      subtitles,
+      chapters,
+    };
+  },
+
+  fetchDanmaku: async ({ currentCid }): Promise<Danmaku[]> => {
+    if (!currentCid) return [];
+    const { body } = await relayFetch(`https://comment.bilibili.com/${currentCid}.xml`, {
+      validate: (r) => r.body.includes('<i'),
+    });
+    return parseDanmakuXml(body);
+  },
+
+  matchesList: matchesBilibiliList,
+  fetchList: fetchBilibiliList,
+};
@@ -0,0 +1,191 @@
+import { ListFetchOptions, VideoList, VideoListEntry } from "../../types";
+import { ParseError } from "../errors";
+import { relayJson } from "../proxy";
+import { formatDuration } from "./shared";
+
+// Lists of videos on Bilibili: an uploader's space, a favourites folder, a season (合集) or a series (列表).
+// Every list API is paged; pages are fetched one after another to stay clear of the rate limits.
+
+type ListTarget =
+  | { kind: 'space'; mid: string }
+  | { kind: 'favlist'; mid?: string; fid?: string }
+  | { kind: 'season'; mid: string; sid: string }
+  | { kind: 'series'; mid: string; sid: string };
+
+// Stops paging here; larger spaces are cut off rather than fetched for minutes
+const MAX_LIST_ENTRIES = 1000;
+// Pause between pages, the space APIs answer bursts with -799
+const PAGE_DELAY = 300;
+
+const KIND_LABELS: Record<ListTarget['kind'], string> = {
+  space: '投稿',
+  favlist: '收藏夹',
+  season: '合集',
+  series: '列表',
+};
+
+const listTarget = (url: string): ListTarget | null => {
+  const medialist = url.match(/bilibili\.com\/(?:medialist\/detail|list)\/ml(\d+)/);
+  if (medialist) return { kind: 'favlist', fid: medialist[1] };
+
+  const space = url.match(/space\.bilibili\.com\/(\d+)/);
+  if (!space) return null;
+  const mid = space[1];
+  const sid = url.match(/[?&]sid=(\d+)/)?.[1];
+
+  if (/\/favlist/.test(url)) return { kind: 'favlist', mid, fid: url.match(/[?&]fid=(\d+)/)?.[1] };
+  if (/\/collectiondetail/.test(url) && sid) return { kind: 'season', mid, sid };
+  if (/\/seriesdetail/.test(url) && sid) return { kind: 'series', mid, sid };
+  // The newer space layout: /lists/<id>?type=season|series
+  const lists = url.match(/\/lists\/(\d+)/);
+  if (lists) return { kind: url.includes('type=series') ? 'series' : 'season', mid, sid: lists[1] };
+  return { kind: 'space', mid };
+};
+
+export const matchesBilibiliList = (url: string): boolean => listTarget(url) !== null;
+
+export const fetchBilibiliList = async (url: string, options: ListFetchOptions = {}): Promise<VideoList> => {
+  const target = listTarget(url);
+  if (!target) throw new ParseError('unsupported_url');
+  const { tracer } = options;
+
+  switch (target.kind) {
+    case 'space': {
+      const [title, { entries, total }] = await Promise.all([
+        uploaderName(target.mid, options).then(name => `${name} 的投稿`, () => `UP主 ${target.mid} 的投稿`),
+        collect(options, async (pn) => {
+          const data = await fetchData(`https://api.bilibili.com/x/series/recArchivesByKeywords?mid=${target.mid}&keywords=&orderby=pubdate&ps=50&pn=${pn}`, options);
+          return archivesPage(data.archives, data.page?.total, pn * 50);
+        }),
+      ]);
+      tracer?.log('ok', '获取UP主投稿', `${entries.length}/${total ?? entries.length} 个视频`);
+      return { title, kind: KIND_LABELS.space, total, entries };
+    }
+
+    case 'favlist': {
+      const fid = target.fid || await defaultFolder(target.mid!, options);
+      let title = `收藏夹 ${fid}`;
+      const { entries, total } = await collect(options, async (pn) => {
+        const data = await fetchData(`https://api.bilibili.com/x/v3/fav/resource/list?media_id=${fid}&ps=20&pn=${pn}&platform=web`, options);
+        if (data.info?.title) title = data.info.title;
+        return {
+          // Only videos; favourites can also hold audio and courses
+          entries: (data.medias || []).filter((m: any) => m.type === 2).map(favEntry),
+          total: data.info?.media_count,
+          hasMore: !!data.has_more,
+        };
+      });
+      tracer?.log('ok', '获取收藏夹', `${title} · ${entries.length} 个视频`);
+      return { title, kind: KIND_LABELS.favlist, total, entries };
+    }
+
+    case 'season': {
+      let title = `合集 ${target.sid}`;
+      const { entries, total } = await collect(options, async (pn) => {
+        const data = await fetchData(`https://api.bilibili.com/x/polymer/web-space/seasons_archives_list?mid=${target.mid}&season_id=${target.sid}&page_num=${pn}&page_size=100`, options);
+        if (data.meta?.name) title = data.meta.name;
+        return archivesPage(data.archives, data.page?.total, pn * 100);
+      });
+      tracer?.log('ok', '获取合集', `${title} · ${entries.length} 个视频`);
+      return { title, kind: KIND_LABELS.season, total, entries };
+    }
+
+    case 'series': {
+      const [title, { entries, total }] = await Promise.all([
+        fetchData(`https://api.bilibili.com/x/series/series?series_id=${target.sid}`, options)
+          .then(data => data.meta?.name || `列表 ${target.sid}`, () => `列表 ${target.sid}`),
+        collect(options, async (pn) => {
+          const data = await fetchData(`https://api.bilibili.com/x/series/archives?mid=${target.mid}&series_id=${target.sid}&pn=${pn}&ps=100`, options);
+          return archivesPage(data.archives, data.page?.total, pn * 100);
+        }),
+      ]);
+      tracer?.log('ok', '获取列表', `${title} · ${entries.length} 个视频`);
+      return { title, kind: KIND_LABELS.series, total, entries };
+    }
+  }
+};
+
+interface ListPage {
+  entries: VideoListEntry[];
+  total?: number;
+  hasMore: boolean;
+}
+
+// Pages until the list runs out or hits the limit, reporting each page
+async function collect(options: ListFetchOptions, fetchPage: (pn: number) => Promise<ListPage>): Promise<{ entries: VideoListEntry[]; total?: number }> {
+  const entries: VideoListEntry[] = [];
+  let total: number | undefined;
+  for (let pn = 1; ; pn++) {
+    options.signal?.throwIfAborted();
+    if (pn > 1) await new Promise(resolve => setTimeout(resolve, PAGE_DELAY));
+    const page = await fetchPage(pn);
+    entries.push(...page.entries);
+    total ??= page.total;
+    options.onPage?.(entries.slice(0, MAX_LIST_ENTRIES), total);
+    if (!page.hasMore || page.entries.length === 0 || entries.length >= MAX_LIST_ENTRIES) break;
+  }
+  if (entries.length > MAX_LIST_ENTRIES) entries.length = MAX_LIST_ENTRIES;
+  if (total && total > entries.length) options.tracer?.log('warn', '列表过长', `只读取了前 ${entries.length} 个视频`);
+  return { entries, total };
+}
+
+// `data` of a Bilibili API response, or a typed error for a non-zero code
+async function fetchData(url: string, options: ListFetchOptions): Promise<any> {
+  const json = await relayJson(url, { signal: options.signal, tracer: options.tracer });
+  if (json?.code !== 0 || !json.data) {
+    const detail = json?.code == null ? '响应格式错误' : `code ${json.code}${json.message ? ` ${json.message}` : ''}`;
+    throw new ParseError(json?.code === -404 ? 'video_deleted' : json?.code === -403 ? 'restricted' : 'metadata_api', detail);
+  }
+  return json.data;
+}
+
+async function uploaderName(mid: string, options: ListFetchOptions): Promise<string> {
+  const data = await fetchData(`https://api.bilibili.com/x/web-interface/card?mid=${mid}`, options);
+  if (!data.card?.name) throw new Error('no name');
+  return data.card.name;
+}
+
+// First folder of a user, for favlist links without a folder id
+async function defaultFolder(mid: string, options: ListFetchOptions): Promise<string> {
+  const data = await fetchData(`https://api.bilibili.com/x/v3/fav/folder/created/list-all?up_mid=${mid}`, options);
+  const folder = data.list?.[0];
+  if (!folder) throw new ParseError('metadata_api', '该用户没有公开的收藏夹');
+  return String(folder.id);
+}
+
+// Space uploads, seasons and series all list the same archive objects
+function archivesPage(archives: any[] | undefined, total: number | undefined, seen: number): ListPage {
+  const entries = (archives || []).map((archive: any): VideoListEntry => ({
+    id: archive.bvid || `av${archive.aid}`,
+    input: videoLink(archive.bvid, archive.aid),
+    title: archive.title,
+    thumbnailUrl: secure(archive.pic),
+    duration: archive.duration ? formatDuration(archive.duration) : undefined,
+    author: archive.owner?.name || archive.author,
+    publishedAt: archive.pubdate ? archive.pubdate * 1000 : undefined,
+  }));
+  return { entries, total, hasMore: total != null ? seen < total : entries.length > 0 };
+}
+
+function favEntry(media: any): VideoListEntry {
+  return {
+    id: media.bvid || `av${media.id}`,
+    input: videoLink(media.bvid, media.id),
+    title: media.title,
+    thumbnailUrl: secure(media.cover),
+    duration: media.duration ? formatDuration(media.duration) : undefined,
+    author: media.upper?.name,
+    publishedAt: media.pubtime ? media.pubtime * 1000 : undefined,
+    // Deleted videos keep their slot as '已失效视频'
+    unavailable: media.attr === 9 || media.title === '已失效视频',
+  };
+}
+
+function videoLink(bvid: string | undefined, aid: number): string {
+  return `https://www.bilibili.com/video/${bvid || `av${aid}`}`;
+}
+
+// Covers come as http:// or protocol-relative URLs
+function secure(url: string | undefined): string | undefined {
+  return url ? url.replace(/^(https?:)?\/\//, 'https://') : undefined;
+}
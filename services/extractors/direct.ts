@@ -0,0 +1,37 @@
+import { VideoExtractor } from "../../types";
+import { detectManifest, loadManifest, manifestSources } from "../manifest";
+import { hashString, probeHead } from "./shared";
+
+const DIRECT_REGEX = /\.(mp4|webm|ogg|mov)$/i;
+
+export const directExtractor: VideoExtractor = {
+  platform: 'direct',
+
+  matches: (url) => DIRECT_REGEX.test(url) || detectManifest(url) !== null,
+
+  // Each file gets its own id so history entries and AI results don't collide
+  extractId: async (url) => ({ id: `direct_${hashString(url)}`, url }),
+
+  fetchMetadata: async ({ url }) => {
+    const fileName = url.split(/[?#]/)[0].split('/').pop() || '未命名视频';
+    return { title: decodeURIComponent(fileName) };
+  },
+
+  resolveSources: async ({ url }, tracer) => {
+    const kind = detectManifest(url);
+    if (kind) {
+      const manifest = await loadManifest(url, kind);
+      tracer?.log('ok', `读取 ${kind.toUpperCase()} 清单`, `${manifest.video.length} 路视频 · ${manifest.audio.length} 路音频${manifest.live ? ' · 直播' : ''}`);
+      return { playerType: 'native', sources: manifestSources(manifest) };
+    }
+
+    const { bytes, mime } = await probeHead(url);
+    tracer?.log(bytes ? 'ok' : 'info', '探测文件信息', bytes ? `${mime || '未知类型'} · ${bytes} 字节` : '服务器未返回文件大小 (可能不允许跨域 HEAD)');
+    return {
+      playerType: 'native',
+      sources: [
+        { url: url, format: 'Original', label: 'Source', mime, bytes, isDownloadable: true }
+      ]
+    };
+  },
+};
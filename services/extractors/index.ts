@@ -0,0 +1,31 @@
+import { VideoExtractor } from "../../types";
+import { bilibiliExtractor } from "./bilibili";
+import { youtubeExtractor } from "./youtube";
+import { directExtractor } from "./direct";
+
+// Order matters: the first extractor whose `matches` accepts the input wins.
+// Keep broad matchers (like direct files) at the end.
+const extractors: VideoExtractor[] = [
+  bilibiliExtractor,
+  youtubeExtractor,
+  directExtractor,
+];
+
+// Adds a platform extractor. New sites are inserted ahead of the generic direct-file fallback.
+export const registerExtractor = (extractor: VideoExtractor) => {
+  const existing = extractors.findIndex(e => e.platform === extractor.platform);
+  if (existing !== -1) {
+    extractors[existing] = extractor;
+    return;
+  }
+  const fallbackIndex = extractors.indexOf(directExtractor);
+  extractors.splice(fallbackIndex === -1 ? extractors.length : fallbackIndex, 0, extractor);
+};
+
+export const getExtractors = (): readonly VideoExtractor[] => extractors;
+
+export const findExtractor = (platform: string): VideoExtractor | undefined =>
+  extractors.find(e => e.platform === platform);
+
+export const matchExtractors = (url: string): VideoExtractor[] =>
+  extractors.filter(e => e.matches(url));
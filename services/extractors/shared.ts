@@ -0,0 +1,60 @@
+export function formatDuration(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s < 10 ? '0' : ''}${s}`;
+}
+
+// Short stable id for inputs that carry no id of their own (FNV-1a, base 36)
+export function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// Asks the server for size and type without downloading the body.
+// CORS or servers that reject HEAD simply yield an empty result.
+export const probeHead = async (url: string): Promise<{ bytes?: number; mime?: string }> => {
+  try {
+    const res = await fetch(url, { method: 'HEAD', referrerPolicy: 'no-referrer' });
+    if (!res.ok) return {};
+    const length = parseInt(res.headers.get('content-length') || '', 10);
+    const mime = res.headers.get('content-type')?.split(';')[0].trim();
+    return {
+      bytes: length > 0 ? length : undefined,
+      mime: mime || undefined,
+    };
+  } catch {
+    return {};
+  }
+};
+
+// Object literal assigned to `name` in an inline script, e.g. `var ytInitialData = {...};`.
+// Scans for the matching brace instead of using a regex, since the JSON itself contains `};`.
+export function extractJsonAssignment(html: string, name: string): any | null {
+  const at = html.search(new RegExp(`\\b${name}\\s*=\\s*\\{`));
+  if (at === -1) return null;
+  const start = html.indexOf('{', at);
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      try {
+        return JSON.parse(html.slice(start, i + 1));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
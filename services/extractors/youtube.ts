@@ -0,0 +1,120 @@
+import { Chapter, Tracer, VideoExtractor, VideoMetadata } from "../../types";
+import { ParseError, toParseError } from "../errors";
+import { relayFetch, relayJson } from "../proxy";
+import { fetchYoutubePlaylist, matchesYoutubePlaylist, youtubePlaylistFor } from "./youtubePlaylist";
+import { extractJsonAssignment, formatDuration } from "./shared";
+
+// watch?v=, youtu.be, embed (also youtube-nocookie), shorts, live and music.youtube.com links
+const YT_REGEX = /(?:youtube(?:-nocookie)?\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?|shorts|live)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/;
+
+const watchUrl = (id: string) => `https://www.youtube.com/watch?v=${id}`;
+
+const logFailure = (tracer: Tracer | undefined, label: string, e: unknown) => {
+  const error = toParseError(e);
+  tracer?.log('warn', label, error.detail || error.message, error.code);
+};
+
+// Title, channel and thumbnail; small and reliable, but nothing more
+const fetchOEmbed = async (id: string, tracer?: Tracer): Promise<any | null> => {
+  try {
+    return await relayJson(`https://www.youtube.com/oembed?url=${encodeURIComponent(watchUrl(id))}&format=json`, { tracer });
+  } catch (e) {
+    logFailure(tracer, '获取 oEmbed 信息失败', e);
+    return null;
+  }
+};
+
+// The JSON the watch page is rendered from: player response (details, playability) and initial data (chapters)
+const fetchWatchPage = async (id: string, tracer?: Tracer): Promise<{ player: any; initial: any } | null> => {
+  try {
+    const { body } = await relayFetch(`${watchUrl(id)}&hl=zh-CN`, {
+      tracer,
+      // Consent and bot-check pages arrive without the player response
+      validate: (r) => r.body.includes('ytInitialPlayerResponse'),
+    });
+    const player = extractJsonAssignment(body, 'ytInitialPlayerResponse');
+    if (!player) throw new Error('无法读取播放器数据');
+    return { player, initial: extractJsonAssignment(body, 'ytInitialData') };
+  } catch (e) {
+    logFailure(tracer, '获取观看页数据失败', e);
+    return null;
+  }
+};
+
+export const youtubeExtractor: VideoExtractor = {
+  platform: 'youtube',
+
+  matches: (url) => YT_REGEX.test(url),
+
+  extractId: async (url) => {
+    const ytMatch = url.match(YT_REGEX);
+    return ytMatch ? { id: ytMatch[1], url } : null;
+  },
+
+  fetchMetadata: async ({ id }, tracer): Promise<VideoMetadata> => {
+    const [oembed, page] = await Promise.all([fetchOEmbed(id, tracer), fetchWatchPage(id, tracer)]);
+
+    const playability = page?.player.playabilityStatus;
+    if (playability?.status === 'ERROR') {
+      throw new ParseError('video_deleted', playability.reason);
+    }
+    if (playability && playability.status !== 'OK') {
+      // Embeds of age-restricted videos may still play after signing in on YouTube
+      tracer?.log('warn', '视频有播放限制', playability.reason || playability.status, 'restricted');
+    }
+
+    const details = page?.player.videoDetails || {};
+    const title = details.title || oembed?.title;
+    if (title) tracer?.log('ok', '获取视频信息', title);
+    else tracer?.log('warn', '未能获取视频信息', '仅使用内嵌播放器');
+
+    const seconds = Number(details.lengthSeconds);
+    const chapters = page?.initial ? markerChapters(page.initial) : [];
+    return {
+      title: title || 'YouTube 视频',
+      thumbnailUrl: bestThumbnail(details.thumbnail?.thumbnails) || `https://img.youtube.com/vi/${id}/maxresdefault.jpg`,
+      // Live streams report 0
+      duration: seconds > 0 && !details.isLive ? formatDuration(seconds) : undefined,
+      description: details.shortDescription || undefined,
+      author: details.author || oembed?.author_name,
+      chapters: chapters.length > 0 ? chapters : undefined,
+    };
+  },
+
+  resolveSources: async ({ id }, tracer) => {
+    tracer?.log('info', '使用内嵌播放器', 'YouTube 视频无法在浏览器内解析直链');
+    return {
+      playerType: 'iframe',
+      sources: [
+        { url: `https://www.youtube.com/embed/${id}`, format: 'Embed', label: 'Auto', isDownloadable: false },
+        { url: `https://youtu.be/${id}`, format: 'Source', label: 'Original', isDownloadable: true, external: true }
+      ]
+    };
+  },
+
+  matchesList: matchesYoutubePlaylist,
+  fetchList: fetchYoutubePlaylist,
+  containingList: youtubePlaylistFor,
+};
+
+function bestThumbnail(thumbnails: { url: string; width: number }[] | undefined): string | undefined {
+  if (!thumbnails?.length) return undefined;
+  return [...thumbnails].sort((a, b) => b.width - a.width)[0].url.split('?')[0];
+}
+
+// Chapters as drawn on the player's progress bar. Videos without explicit ones may carry
+// auto-generated chapters; description timestamps are picked up later as a fallback anyway.
+function markerChapters(initial: any): Chapter[] {
+  const markers: any[] = initial.playerOverlays?.playerOverlayRenderer?.decoratedPlayerBarRenderer
+    ?.decoratedPlayerBarRenderer?.playerBar?.multiMarkersPlayerBarRenderer?.markersMap || [];
+  const entry = markers.find(m => m.key === 'DESCRIPTION_CHAPTERS') || markers.find(m => m.key === 'AUTO_CHAPTERS');
+  return (entry?.value?.chapters || [])
+    .map((c: any) => c.chapterRenderer)
+    .filter(Boolean)
+    .map((c: any, i: number): Chapter => ({
+      id: `platform-${i}`,
+      start: (c.timeRangeStartMillis || 0) / 1000,
+      title: c.title?.simpleText || `章节 ${i + 1}`,
+      source: 'platform',
+    }));
+}
@@ -0,0 +1,93 @@
+import { ListFetchOptions, VideoList, VideoListEntry } from "../../types";
+import { ParseError } from "../errors";
+import { relayFetch } from "../proxy";
+import { extractJsonAssignment, formatDuration } from "./shared";
+
+// Any link carrying a playlist: a playlist page, or a video opened from within a playlist
+const LIST_REGEX = /(?:youtube\.com|youtu\.be)\/.*[?&]list=([\w-]+)/;
+const PLAYLIST_PAGE_REGEX = /youtube\.com\/playlist\?/;
+
+// Mixes (RD...) are generated per viewer and never end
+const playlistId = (url: string): string | null => {
+  const id = url.match(LIST_REGEX)?.[1];
+  return id && !id.startsWith('RD') ? id : null;
+};
+
+// Only playlist pages are lists; a watch link with `list=` still opens its video
+export const matchesYoutubePlaylist = (url: string): boolean =>
+  PLAYLIST_PAGE_REGEX.test(url) && playlistId(url) !== null;
+
+// Playlist page of a video link opened from within a playlist
+export const youtubePlaylistFor = (url: string): string | null => {
+  const id = playlistId(url);
+  return id ? `https://www.youtube.com/playlist?list=${id}` : null;
+};
+
+// Reads the entries rendered into the playlist page. Further pages come from a POST to the
+// InnerTube API, which the relays can't send, so long playlists stop at the first ~100 videos.
+export const fetchYoutubePlaylist = async (url: string, options: ListFetchOptions = {}): Promise<VideoList> => {
+  const id = playlistId(url);
+  if (!id) throw new ParseError('unsupported_url');
+  const { tracer } = options;
+
+  const { body } = await relayFetch(`https://www.youtube.com/playlist?list=${id}&hl=zh-CN`, {
+    signal: options.signal,
+    tracer,
+    validate: (r) => r.body.includes('ytInitialData'),
+  });
+  const data = extractJsonAssignment(body, 'ytInitialData');
+  if (!data) throw new ParseError('metadata_api', '无法读取播放列表数据');
+  if (data.alerts?.some((a: any) => a.alertRenderer?.type === 'ERROR')) {
+    throw new ParseError('video_deleted', '播放列表不存在或未公开');
+  }
+
+  const renderers = findRenderers(data, 'playlistVideoRenderer');
+  const entries = renderers.map(toEntry);
+  const header = data.header?.playlistHeaderRenderer;
+  const title = data.metadata?.playlistMetadataRenderer?.title || text(header?.title) || `播放列表 ${id}`;
+  const total = parseCount(text(header?.numVideosText) || text(header?.stats?.[0])) ?? entries.length;
+
+  options.onPage?.(entries, total);
+  tracer?.log('ok', '获取播放列表', `${title} · ${entries.length} 个视频`);
+  if (total > entries.length) tracer?.log('warn', '列表过长', `只读取了前 ${entries.length} 个视频`);
+  return { title, kind: '播放列表', total, entries };
+};
+
+function toEntry(renderer: any): VideoListEntry {
+  const seconds = Number(renderer.lengthSeconds);
+  return {
+    id: renderer.videoId,
+    input: `https://www.youtube.com/watch?v=${renderer.videoId}`,
+    title: text(renderer.title) || renderer.videoId,
+    thumbnailUrl: `https://i.ytimg.com/vi/${renderer.videoId}/mqdefault.jpg`,
+    duration: seconds > 0 ? formatDuration(seconds) : text(renderer.lengthText),
+    author: text(renderer.shortBylineText),
+    // Private and deleted videos keep their place in the list
+    unavailable: renderer.isPlayable === false,
+  };
+}
+
+// Every object under `key` anywhere in the tree; the page layout nests them differently over time
+function findRenderers(node: any, key: string, found: any[] = []): any[] {
+  if (Array.isArray(node)) {
+    for (const child of node) findRenderers(child, key, found);
+  } else if (node && typeof node === 'object') {
+    for (const [name, child] of Object.entries(node)) {
+      if (name === key && (child as any)?.videoId) found.push(child);
+      else findRenderers(child, key, found);
+    }
+  }
+  return found;
+}
+
+// YouTube's text objects: { simpleText } or { runs: [{ text }] }
+function text(value: any): string | undefined {
+  if (!value) return undefined;
+  return value.simpleText ?? value.runs?.map((run: any) => run.text).join('');
+}
+
+// '123 个视频', '1,234 videos'
+function parseCount(value: string | undefined): number | undefined {
+  const digits = value?.match(/[\d,]+/)?.[0].replace(/,/g, '');
+  return digits ? Number(digits) : undefined;
+}
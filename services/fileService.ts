@@ -0,0 +1,13 @@
+// Saves a Blob through a temporary download link
+export const saveBlob = (blob: Blob, filename: string) => {
+  const blobUrl = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = filename || `video_${Date.now()}.mp4`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  setTimeout(() => URL.revokeObjectURL(blobUrl), 1000);
+};
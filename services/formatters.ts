@@ -0,0 +1,53 @@
+import { VideoSource } from "../types";
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value >= 100 ? 0 : 1)} ${units[unit]}`;
+}
+
+export function formatBitrate(bps: number): string {
+  if (bps >= 1_000_000) return `${(bps / 1_000_000).toFixed(1)} Mbps`;
+  return `${Math.round(bps / 1000)} kbps`;
+}
+
+// Short codec family name from an RFC 6381 string, e.g. 'avc1.640028' -> 'AVC'
+export function codecName(codec: string): string {
+  const family = codec.split('.')[0].toLowerCase();
+  const names: Record<string, string> = {
+    avc1: 'AVC', avc3: 'AVC', hev1: 'HEVC', hvc1: 'HEVC', av01: 'AV1',
+    vp09: 'VP9', vp9: 'VP9', vp8: 'VP8', mp4a: 'AAC', opus: 'Opus', 'ec-3': 'E-AC-3', flac: 'FLAC',
+  };
+  return names[family] || codec;
+}
+
+// One-line technical summary of a source, e.g. '1920×1080 · AVC · 2.4 Mbps · 180 MB'
+export function describeSource(source: VideoSource): string {
+  const parts: string[] = [];
+  if (source.width && source.height) parts.push(`${source.width}×${source.height}`);
+  else if (source.height) parts.push(`${source.height}p`);
+  if (source.codec) parts.push(codecName(source.codec));
+  if (source.bitrate) parts.push(formatBitrate(source.bitrate));
+  if (source.bytes) parts.push(formatBytes(source.bytes));
+  return parts.join(' · ');
+}
+
+export function formatEta(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return '--:--';
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  const mm = `${m < 10 && h > 0 ? '0' : ''}${m}`;
+  return `${h > 0 ? `${h}:` : ''}${mm}:${s < 10 ? '0' : ''}${s}`;
+}
+
+// Strips characters that are not allowed in file names on common systems
+export function safeFilename(name: string): string {
+  return name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').trim().slice(0, 180) || 'video';
+}
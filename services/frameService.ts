@@ -0,0 +1,85 @@
+import { CapturedFrame } from "../types";
+
+export interface FrameOptions {
+  // Frames wider than this are scaled down, keeping the aspect ratio
+  maxWidth?: number;
+  mime?: 'image/png' | 'image/jpeg' | 'image/webp';
+  quality?: number; // 0..1, ignored for PNG
+}
+
+// An offscreen video element for seeking around without disturbing the visible player.
+// `src` should be a same-origin (e.g. Blob) URL, or the canvas will be tainted.
+export const loadVideo = (src: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.playsInline = true;
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('视频加载失败'));
+    video.src = src;
+  });
+
+export const seekTo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (Math.abs(video.currentTime - time) < 0.001 && video.readyState >= 2) return resolve();
+    const onSeeked = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error('视频定位失败')); };
+    const cleanup = () => {
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    video.currentTime = time;
+  });
+
+// Draws the current frame of `video` onto `canvas`, scaled to at most `maxWidth`
+export const drawFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement, maxWidth?: number): CanvasRenderingContext2D => {
+  const scale = maxWidth && video.videoWidth > maxWidth ? maxWidth / video.videoWidth : 1;
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 不可用');
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return ctx;
+};
+
+export const canvasBlob = (canvas: HTMLCanvasElement, mime: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('图片编码失败')), mime, quality)
+  );
+
+export const grabFrame = (video: HTMLVideoElement, options: FrameOptions = {}, canvas = document.createElement('canvas')): CapturedFrame => {
+  drawFrame(video, canvas, options.maxWidth);
+  return {
+    time: video.currentTime,
+    dataUrl: canvas.toDataURL(options.mime || 'image/png', options.quality),
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
+
+// `count` evenly spaced frames, each taken from the middle of its slice of the video
+export const sampleFrames = async (
+  src: string,
+  count: number,
+  options: FrameOptions & { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<CapturedFrame[]> => {
+  const video = await loadVideo(src);
+  const canvas = document.createElement('canvas');
+  const frames: CapturedFrame[] = [];
+  try {
+    const step = video.duration / count;
+    for (let i = 0; i < count; i++) {
+      options.signal?.throwIfAborted();
+      await seekTo(video, (i + 0.5) * step);
+      frames.push(grabFrame(video, options, canvas));
+      options.onProgress?.(i + 1, count);
+    }
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+  return frames;
+};
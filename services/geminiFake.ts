@@ -0,0 +1,55 @@
+import { AISummary, FrameAnalysis } from "../types";
+import { GeminiClient } from "./geminiService";
+
+// Offline stand-in for the Gemini client. It answers the same requests with JSON derived
+// from the prompt itself, so the analysis features (prompt building, response parsing,
+// seekable scenes) can be used and checked without a network or an API key.
+// Results carry `isMock` so the cards label them as demo data.
+export const createFakeGeminiClient = (delay = 600): GeminiClient => ({
+  models: {
+    generateContent: async (params) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      const texts = promptTexts(params.contents);
+      const frameTimes = texts
+        .map(text => text.match(/^Frame at .*\(([\d.]+)s\):$/)?.[1])
+        .filter((time): time is string => time != null)
+        .map(Number);
+      const title = texts.join('\n').match(/Video Title: "(.*)"/)?.[1] || '未命名视频';
+      return { text: JSON.stringify(frameTimes.length > 0 ? fakeFrames(title, frameTimes) : fakeSummary(title)) };
+    },
+  },
+});
+
+function fakeSummary(title: string): AISummary {
+  return {
+    tags: ['离线', '模拟', ...title.split(/[\s:：,，|｜【】\[\]()（）]+/).filter(word => word.length >= 2).slice(0, 3)],
+    summary: `（离线模拟）《${title}》的摘要会显示在这里。当前使用本地模拟客户端，未请求 Gemini。`,
+    sentiment: '中性',
+    isMock: true,
+  };
+}
+
+// One scene per sampled frame, at the exact timestamps the prompt gave
+function fakeFrames(title: string, times: number[]): FrameAnalysis {
+  return {
+    overview: `（离线模拟）根据 ${times.length} 帧画面对《${title}》的概述会显示在这里。`,
+    scenes: times.map((time, i) => ({
+      time,
+      title: `场景 ${i + 1}`,
+      description: '（离线模拟）此处将显示该时间点画面内容的描述。',
+    })),
+    isMock: true,
+  };
+}
+
+// Text parts of the request, whether `contents` is a plain prompt or a list of turns
+function promptTexts(contents: unknown): string[] {
+  if (typeof contents === 'string') return [contents];
+  if (Array.isArray(contents)) return contents.flatMap(promptTexts);
+  if (contents && typeof contents === 'object') {
+    const { text, parts } = contents as { text?: unknown; parts?: unknown };
+    if (typeof text === 'string') return [text.trim()];
+    if (parts) return promptTexts(parts);
+  }
+  return [];
+}
@@ -1,72 +1,203 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { AISummary } from "../types";
+import { AISummary, CapturedFrame, FrameAnalysis, ParsedVideoData } from "../types";
 
 const GEMINI_API_KEY = process.env.API_KEY || '';
 
+// Keeps prompts small for long descriptions and courses with hundreds of parts
+const MAX_DESCRIPTION_CHARS = 1500;
+const MAX_PART_TITLES = 40;
+
 // Mock response for when API key is missing or for demo purposes
 const MOCK_SUMMARY: AISummary = {
   tags: ['动画', '自然', '兔八哥', '高清', '测试视频'],
   summary: "这是一个经典的开源测试视频《Big Buck Bunny》。视频展示了一只巨大的兔子在森林中的冒险，画面精美，常用于测试视频编码和流媒体播放功能。",
   sentiment: "积极幽默",
+  isMock: true,
 };
 
-export const analyzeVideoMetadata = async (title: string, platform: string): Promise<AISummary> => {
-  if (!GEMINI_API_KEY) {
-    console.warn("No Gemini API Key found. Using mock data.");
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    return MOCK_SUMMARY;
+const MODEL = 'gemini-3-flash-preview';
+
+export const isGeminiConfigured = () => !!GEMINI_API_KEY;
+
+// The part of the SDK client the app uses. Pass a local fake implementing this
+// (see geminiFake.ts) to run the analysis features offline.
+export interface GeminiClient {
+  models: {
+    generateContent: (params: Parameters<GoogleGenAI['models']['generateContent']>[0]) => Promise<{ text?: string }>;
+  };
+}
+
+export interface GeminiOptions {
+  // Defaults to the SDK client for the configured API key, or mock data without one
+  client?: GeminiClient;
+}
+
+const defaultClient = (): GeminiClient | null =>
+  GEMINI_API_KEY ? new GoogleGenAI({ apiKey: GEMINI_API_KEY }) : null;
+
+export type VideoContext = Pick<ParsedVideoData, 'title' | 'platform' | 'description' | 'duration' | 'parts' | 'episodes'>;
+
+const buildPrompt = (video: VideoContext): string => {
+  const lines = [
+    `Video Title: "${video.title}"`,
+    `Platform: "${video.platform}"`,
+  ];
+  if (video.duration) lines.push(`Duration: ${video.duration}`);
+  if (video.description) {
+    const description = video.description.length > MAX_DESCRIPTION_CHARS
+      ? `${video.description.slice(0, MAX_DESCRIPTION_CHARS)}…`
+      : video.description;
+    lines.push(`Description:\n${description}`);
+  }
+
+  const parts = video.parts || video.episodes;
+  if (parts && parts.length > 0) {
+    const titles = parts.slice(0, MAX_PART_TITLES).map((p, i) => `${i + 1}. ${p.title}${p.duration ? ` (${p.duration})` : ''}`);
+    if (parts.length > MAX_PART_TITLES) titles.push(`… (${parts.length - MAX_PART_TITLES} more)`);
+    lines.push(`${video.parts ? 'Parts' : 'Collection episodes'}:\n${titles.join('\n')}`);
   }
 
-  try {
-    const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
-    
-    const prompt = `
+  return `
       Analyze the following video metadata and provide a summary in Chinese.
-      Video Title: "${title}"
-      Platform: "${platform}"
+      ${lines.join('\n')}
 
       Please generate:
       1. A list of 5 relevant hashtags/tags.
       2. A short, engaging summary (max 100 words).
       3. The general sentiment of the content.
     `;
+};
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            tags: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-              description: "List of relevant tags"
-            },
-            summary: {
-              type: Type.STRING,
-              description: "A short summary in Chinese"
-            },
-            sentiment: {
-              type: Type.STRING,
-              description: "General sentiment of the video"
-            }
+// Without an API key this resolves to labelled mock data; with one, failures are thrown
+// so callers can offer a retry instead of passing canned text off as a real analysis.
+export const analyzeVideoMetadata = async (video: VideoContext, options: GeminiOptions = {}): Promise<AISummary> => {
+  const ai = options.client || defaultClient();
+  if (!ai) {
+    console.warn("No Gemini API Key found. Using mock data.");
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 1500));
+    return MOCK_SUMMARY;
+  }
+
+  const response = await ai.models.generateContent({
+    model: MODEL,
+    contents: buildPrompt(video),
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          tags: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "List of relevant tags"
+          },
+          summary: {
+            type: Type.STRING,
+            description: "A short summary in Chinese"
           },
-          required: ["tags", "summary", "sentiment"]
-        }
+          sentiment: {
+            type: Type.STRING,
+            description: "General sentiment of the video"
+          }
+        },
+        required: ["tags", "summary", "sentiment"]
       }
-    });
+    }
+  });
+
+  if (response.text) {
+    return JSON.parse(response.text) as AISummary;
+  }
+
+  throw new Error("Empty response from Gemini");
+};
+
+const formatTimestamp = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s < 10 ? '0' : ''}${s}`;
+};
+
+// Scene-by-scene description from sampled frames, sent as inline images each
+// preceded by its timestamp so the model can refer back to them.
+export const analyzeVideoFrames = async (
+  frames: CapturedFrame[],
+  video: VideoContext,
+  options: GeminiOptions = {}
+): Promise<FrameAnalysis> => {
+  const ai = options.client || defaultClient();
+  if (!ai) {
+    console.warn("No Gemini API Key found. Using mock data.");
+    await new Promise(resolve => setTimeout(resolve, 1500));
+    return {
+      overview: '演示数据：未配置 Gemini API Key，未对画面进行真实分析。',
+      scenes: frames.map((frame, i) => ({
+        time: frame.time,
+        title: `画面 ${i + 1}`,
+        description: '（演示）此处将显示该时间点画面内容的描述。',
+      })),
+      isMock: true,
+    };
+  }
+
+  const frameParts = frames.flatMap(frame => [
+    { text: `Frame at ${formatTimestamp(frame.time)} (${frame.time.toFixed(2)}s):` },
+    { inlineData: { mimeType: frame.dataUrl.slice(5, frame.dataUrl.indexOf(';')), data: frame.dataUrl.split(',')[1] } },
+  ]);
+
+  const response = await ai.models.generateContent({
+    model: MODEL,
+    contents: [{
+      role: 'user',
+      parts: [
+        {
+          text: `
+            The following images are frames sampled at even intervals from a video.
+            Video Title: "${video.title}"
+            Platform: "${video.platform}"${video.duration ? `\n            Duration: ${video.duration}` : ''}
 
-    if (response.text) {
-      return JSON.parse(response.text) as AISummary;
+            Describe the video scene by scene in Chinese, based on what is visible in the frames.
+            Group consecutive frames showing the same scene. For each scene give the timestamp
+            in seconds of its first frame (use the exact values given), a short title and a
+            one or two sentence description. Also give a short overall summary.
+          `
+        },
+        ...frameParts,
+      ],
+    }],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          overview: {
+            type: Type.STRING,
+            description: "Overall summary in Chinese"
+          },
+          scenes: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                time: { type: Type.NUMBER, description: "Start of the scene in seconds" },
+                title: { type: Type.STRING },
+                description: { type: Type.STRING }
+              },
+              required: ["time", "title", "description"]
+            }
+          }
+        },
+        required: ["overview", "scenes"]
+      }
     }
-    
-    throw new Error("Empty response from Gemini");
+  });
 
-  } catch (error) {
-    console.error("Gemini Analysis Failed:", error);
-    return MOCK_SUMMARY;
+  if (response.text) {
+    const result = JSON.parse(response.text) as FrameAnalysis;
+    result.scenes.sort((a, b) => a.time - b.time);
+    return result;
   }
+
+  throw new Error("Empty response from Gemini");
 };
@@ -0,0 +1,122 @@
+import { HistoryEntry, ParsedVideoData } from "../types";
+import { STORES, dbDelete, dbGetAll, dbPut } from "./db";
+import { refreshSources, sourcesExpired } from "./parserService";
+
+const MAX_ENTRIES = 500; // oldest non-favourites beyond this are dropped
+
+export const historyEntryKey = (data: Pick<ParsedVideoData, 'platform' | 'id'>) => `${data.platform}:${data.id}`;
+
+// Parse history kept in IndexedDB, newest first. Shaped for useSyncExternalStore.
+class HistoryStore {
+  private entries = new Map<string, HistoryEntry>();
+  private listeners = new Set<() => void>();
+  private snapshot: HistoryEntry[] = [];
+  private loaded: Promise<void> = Promise.resolve();
+
+  constructor() {
+    if (typeof indexedDB !== 'undefined') this.loaded = this.load();
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  get(key: string) {
+    return this.entries.get(key);
+  }
+
+  // Adds or refreshes the entry for a fresh parse and returns its key
+  record(input: string, data: ParsedVideoData): string {
+    const key = historyEntryKey(data);
+    const now = Date.now();
+    const previous = this.entries.get(key);
+    this.save({
+      key,
+      input: input.trim(),
+      data,
+      parsedAt: now,
+      resolvedAt: now,
+      favourite: previous?.favourite ?? false,
+    });
+    this.prune();
+    return key;
+  }
+
+  // Stores later changes to an entry's result, e.g. another part or an AI summary
+  update(key: string, data: ParsedVideoData) {
+    const entry = this.entries.get(key);
+    if (!entry || entry.data === data) return;
+    // New sources (another part, a refresh) were resolved just now
+    const resolvedAt = data.sources !== entry.data.sources ? Date.now() : entry.resolvedAt;
+    this.save({ ...entry, data, resolvedAt });
+  }
+
+  toggleFavourite(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) this.save({ ...entry, favourite: !entry.favourite });
+  }
+
+  remove(key: string) {
+    if (!this.entries.delete(key)) return;
+    this.notify();
+    dbDelete(STORES.history, key).catch(e => console.warn("Failed to delete history entry", e));
+  }
+
+  // Clears everything except favourites
+  clear() {
+    for (const entry of [...this.entries.values()]) {
+      if (!entry.favourite) this.remove(entry.key);
+    }
+  }
+
+  needsRefresh(key: string) {
+    const entry = this.entries.get(key);
+    return !!entry && sourcesExpired(entry.data, entry.resolvedAt);
+  }
+
+  // The entry's result with stream URLs re-resolved if they may have expired
+  async restore(key: string): Promise<ParsedVideoData> {
+    await this.loaded;
+    const entry = this.entries.get(key);
+    if (!entry) throw new Error('历史记录不存在');
+    if (!sourcesExpired(entry.data, entry.resolvedAt)) return entry.data;
+
+    const data = await refreshSources(entry.data);
+    this.update(key, data);
+    return data;
+  }
+
+  private async load() {
+    try {
+      const stored = await dbGetAll<HistoryEntry>(STORES.history);
+      // Entries written during the load win over stored copies
+      for (const entry of stored) {
+        if (!this.entries.has(entry.key)) this.entries.set(entry.key, entry);
+      }
+      this.notify();
+    } catch (e) {
+      console.warn("Failed to load history", e);
+    }
+  }
+
+  private save(entry: HistoryEntry) {
+    this.entries.set(entry.key, entry);
+    this.notify();
+    dbPut(STORES.history, entry).catch(e => console.warn("Failed to save history entry", e));
+  }
+
+  private prune() {
+    const stale = this.snapshot.filter(e => !e.favourite).slice(MAX_ENTRIES);
+    stale.forEach(e => this.remove(e.key));
+  }
+
+  private notify() {
+    this.snapshot = [...this.entries.values()].sort((a, b) => b.parsedAt - a.parsedAt);
+    this.listeners.forEach(l => l());
+  }
+}
+
+export const historyStore = new HistoryStore();
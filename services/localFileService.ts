@@ -0,0 +1,85 @@
+import { ParsedVideoData } from "../types";
+import { ParseError, ParseTrace } from "./errors";
+import { grabFrame, loadVideo, seekTo } from "./frameService";
+import { inspectMp4 } from "./mp4/inspect";
+import { formatDuration, hashString } from "./extractors/shared";
+import { formatBytes } from "./formatters";
+
+// What the file picker offers; dropped files are checked by trying to play them instead
+export const LOCAL_FILE_ACCEPT = 'video/*,.mp4,.m4v,.mov,.webm,.mkv,.ogv';
+
+const POSTER_WIDTH = 640;
+
+// Opens a file from disk as a native-player result backed by an object URL, so every tool works without network.
+// The caller owns the URL and revokes it once the result is closed.
+// Duration and size come from the browser's decoder, the codec from the MP4 sample description when there is one.
+export const openLocalFile = async (file: File): Promise<ParsedVideoData> => {
+  const trace = new ParseTrace();
+  trace.log('info', '读取本地文件', `${file.name} · ${formatBytes(file.size)}`);
+
+  const url = URL.createObjectURL(file);
+  let video: HTMLVideoElement;
+  try {
+    video = await loadVideo(url);
+  } catch {
+    URL.revokeObjectURL(url);
+    throw new ParseError('unsupported_file', file.type || extensionOf(file.name) || undefined);
+  }
+
+  try {
+    if (!video.videoWidth || !video.videoHeight) throw new ParseError('unsupported_file', '文件中没有视频画面');
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    trace.log('ok', '探测媒体信息', `${video.videoWidth}×${video.videoHeight}${duration ? ` · ${duration.toFixed(2)} 秒` : ''}`);
+
+    // Only the MP4 index is read here; other containers are left to the media inspector
+    let codec: string | undefined;
+    try {
+      codec = (await inspectMp4(file)).tracks.find(t => t.kind === 'video')?.codec || undefined;
+      if (codec) trace.log('ok', '读取编码信息', codec);
+    } catch (e) {
+      trace.log('info', '读取编码信息', (e as Error).message);
+    }
+
+    let thumbnailUrl: string | undefined;
+    try {
+      // A little way in, past fade-ins from black
+      await seekTo(video, Math.min(duration * 0.1, 5));
+      thumbnailUrl = grabFrame(video, { maxWidth: POSTER_WIDTH, mime: 'image/jpeg', quality: 0.8 }).dataUrl;
+    } catch {
+      // The player shows the first frame instead
+    }
+
+    const ext = extensionOf(file.name);
+    return {
+      id: `local_${hashString(`${file.name}:${file.size}:${file.lastModified}`)}`,
+      title: file.name.replace(/\.[^.]+$/, '') || file.name,
+      platform: 'local',
+      playerType: 'native',
+      thumbnailUrl,
+      duration: duration ? formatDuration(Math.round(duration)) : undefined,
+      sources: [{
+        url,
+        format: ext ? ext.toUpperCase() : 'Local',
+        label: `${video.videoHeight}P`,
+        width: video.videoWidth,
+        height: video.videoHeight,
+        bitrate: duration ? Math.round(file.size * 8 / duration) : undefined,
+        codec,
+        mime: file.type || undefined,
+        bytes: file.size,
+        isDownloadable: true,
+      }],
+      trace: trace.steps,
+    };
+  } catch (e) {
+    URL.revokeObjectURL(url);
+    throw e;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+function extensionOf(name: string): string {
+  return name.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase() || '';
+}
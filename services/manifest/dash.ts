@@ -0,0 +1,188 @@
+import { MediaSegment, Rendition, SegmentRef, StreamManifest } from "../../types";
+
+const children = (el: Element | null | undefined, name: string): Element[] =>
+  el ? Array.from(el.children).filter(c => c.localName === name) : [];
+
+const child = (el: Element | null | undefined, name: string): Element | undefined => children(el, name)[0];
+
+// ISO 8601 durations as used by MPDs, e.g. `PT1H2M3.5S`
+export const parseIsoDuration = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const match = value.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return undefined;
+  const [, d, h, m, s] = match.map(v => (v ? parseFloat(v) : 0));
+  return d * 86400 + h * 3600 + m * 60 + s;
+};
+
+const parseRange = (value: string | null): [number, number] | undefined => {
+  if (!value) return undefined;
+  const [start, end] = value.split('-').map(Number);
+  return [start, end];
+};
+
+// Resolves the BaseURL chain from the MPD down to the given elements
+const resolveBase = (base: string, ...elements: (Element | undefined)[]): string =>
+  elements.reduce((url, el) => {
+    const baseUrl = child(el, 'BaseURL')?.textContent?.trim();
+    return baseUrl ? new URL(baseUrl, url).href : url;
+  }, base);
+
+// `$RepresentationID$`, `$Number%05d$` etc.
+const fillTemplate = (template: string, vars: Record<string, string | number>): string =>
+  template
+    .replace(/\$(RepresentationID|Bandwidth|Number|Time)(?:%0(\d+)d)?\$/g, (_, name: string, width?: string) => {
+      const value = String(vars[name] ?? '');
+      return width ? value.padStart(parseInt(width, 10), '0') : value;
+    })
+    .replace(/\$\$/g, '$');
+
+// Attribute lookup that falls back from the Representation's element to the AdaptationSet's
+const inherited = (name: string, ...elements: (Element | undefined)[]): string | null => {
+  for (const el of elements) {
+    const value = el?.getAttribute(name);
+    if (value != null) return value;
+  }
+  return null;
+};
+
+interface SegmentInfo {
+  init?: SegmentRef;
+  segments: MediaSegment[];
+}
+
+const templateSegments = (
+  templates: Element[],
+  base: string,
+  rep: Element,
+  periodDuration: number
+): SegmentInfo => {
+  const attr = (name: string) => inherited(name, ...templates);
+  const timescale = parseInt(attr('timescale') || '1', 10);
+  const startNumber = parseInt(attr('startNumber') || '1', 10);
+  const offset = parseInt(attr('presentationTimeOffset') || '0', 10);
+  const media = attr('media') || '';
+  const initialization = attr('initialization');
+  const vars = { RepresentationID: rep.getAttribute('id') || '', Bandwidth: rep.getAttribute('bandwidth') || '' };
+
+  const init = initialization ? { url: new URL(fillTemplate(initialization, vars), base).href } : undefined;
+  const segments: MediaSegment[] = [];
+  const timeline = templates.map(t => child(t, 'SegmentTimeline')).find(Boolean);
+
+  if (timeline) {
+    let number = startNumber;
+    let time = 0;
+    const entries = children(timeline, 'S');
+    entries.forEach((s, index) => {
+      const t = s.getAttribute('t');
+      if (t != null) time = parseInt(t, 10);
+      const d = parseInt(s.getAttribute('d') || '0', 10);
+      let repeat = parseInt(s.getAttribute('r') || '0', 10);
+      if (repeat < 0) {
+        // Repeat until the next S element's start, or the end of the period
+        const nextT = entries[index + 1]?.getAttribute('t');
+        const end = nextT != null ? parseInt(nextT, 10) : offset + periodDuration * timescale;
+        repeat = Math.ceil((end - time) / d) - 1;
+      }
+      for (let i = 0; i <= repeat; i++) {
+        segments.push({
+          url: new URL(fillTemplate(media, { ...vars, Number: number, Time: time }), base).href,
+          start: (time - offset) / timescale,
+          duration: d / timescale,
+        });
+        time += d;
+        number++;
+      }
+    });
+  } else {
+    const duration = parseInt(attr('duration') || '0', 10) / timescale;
+    if (!duration) throw new Error('SegmentTemplate 缺少 duration 或 SegmentTimeline');
+    const count = Math.ceil(periodDuration / duration);
+    for (let i = 0; i < count; i++) {
+      segments.push({
+        url: new URL(fillTemplate(media, { ...vars, Number: startNumber + i, Time: i * duration * timescale }), base).href,
+        start: i * duration,
+        duration: Math.min(duration, periodDuration - i * duration),
+      });
+    }
+  }
+
+  return { init, segments };
+};
+
+const listSegments = (list: Element, base: string, periodDuration: number): SegmentInfo => {
+  const timescale = parseInt(list.getAttribute('timescale') || '1', 10);
+  const duration = parseInt(list.getAttribute('duration') || '0', 10) / timescale;
+  const initEl = child(list, 'Initialization');
+  const init = initEl
+    ? { url: new URL(initEl.getAttribute('sourceURL') || '', base).href, range: parseRange(initEl.getAttribute('range')) }
+    : undefined;
+  const urls = children(list, 'SegmentURL');
+  const segments = urls.map((el, i) => ({
+    url: new URL(el.getAttribute('media') || '', base).href,
+    range: parseRange(el.getAttribute('mediaRange')),
+    start: i * duration,
+    duration: duration || periodDuration / urls.length,
+  }));
+  return { init, segments };
+};
+
+export const parseDash = (text: string, url: string): StreamManifest => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const mpd = doc.documentElement;
+  if (!mpd || mpd.localName !== 'MPD') throw new Error('不是有效的 MPD 清单');
+  if (mpd.getAttribute('type') === 'dynamic') throw new Error('暂不支持直播 DASH 流');
+
+  // Multi-period VOD is rare; only the first period is played
+  const period = child(mpd, 'Period');
+  if (!period) throw new Error('MPD 中没有 Period');
+
+  const duration = parseIsoDuration(period.getAttribute('duration'))
+    ?? parseIsoDuration(mpd.getAttribute('mediaPresentationDuration'))
+    ?? 0;
+
+  const video: Rendition[] = [];
+  const audio: Rendition[] = [];
+
+  for (const set of children(period, 'AdaptationSet')) {
+    for (const rep of children(set, 'Representation')) {
+      const mimeType = inherited('mimeType', rep, set) || '';
+      const contentType = set.getAttribute('contentType') || mimeType.split('/')[0];
+      if (contentType !== 'video' && contentType !== 'audio') continue;
+
+      const base = resolveBase(url, mpd, period, set, rep);
+      const templates = [child(rep, 'SegmentTemplate'), child(set, 'SegmentTemplate')].filter(Boolean) as Element[];
+      const list = child(rep, 'SegmentList') || child(set, 'SegmentList');
+
+      let info: SegmentInfo;
+      if (templates.length > 0) info = templateSegments(templates, base, rep, duration);
+      else if (list) info = listSegments(list, base, duration);
+      // SegmentBase or a bare BaseURL: the whole file is one segment
+      else info = { segments: [{ url: base, start: 0, duration }] };
+
+      const rendition: Rendition = {
+        id: rep.getAttribute('id') || `${contentType}${video.length + audio.length}`,
+        type: contentType as Rendition['type'],
+        bandwidth: parseInt(rep.getAttribute('bandwidth') || '0', 10),
+        width: parseInt(inherited('width', rep, set) || '', 10) || undefined,
+        height: parseInt(inherited('height', rep, set) || '', 10) || undefined,
+        frameRate: parseFrameRate(inherited('frameRate', rep, set)),
+        codecs: inherited('codecs', rep, set) || undefined,
+        mimeType: mimeType || `${contentType}/mp4`,
+        container: mimeType.endsWith('webm') ? 'webm' : 'fmp4',
+        init: info.init,
+        segments: info.segments,
+      };
+      (contentType === 'video' ? video : audio).push(rendition);
+    }
+  }
+
+  return { kind: 'dash', url, duration, live: false, video, audio };
+};
+
+// `30000/1001` or `25`
+function parseFrameRate(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const [num, den] = value.split('/').map(Number);
+  const rate = den ? num / den : num;
+  return Number.isFinite(rate) && rate > 0 ? rate : undefined;
+}
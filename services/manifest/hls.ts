@@ -0,0 +1,167 @@
+import { MediaSegment, Rendition, SegmentRef, StreamManifest } from "../../types";
+
+const resolveUrl = (uri: string, base: string) => new URL(uri, base).href;
+
+// Parses an attribute list like `BANDWIDTH=1280000,CODECS="avc1.4d401f,mp4a.40.2"`
+const parseAttributes = (input: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  const re = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(input)) !== null) {
+    attrs[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attrs;
+};
+
+// `length[@offset]`; without an offset the range continues from the previous one
+const parseByteRange = (value: string, previousEnd: number): [number, number] => {
+  const [length, offset] = value.split('@').map(Number);
+  const start = Number.isFinite(offset) ? offset : previousEnd;
+  return [start, start + length - 1];
+};
+
+const lines = (text: string) => text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+
+const AUDIO_CODEC = /^(mp4a|ac-3|ec-3|opus|flac)/;
+
+export const isMasterPlaylist = (text: string) => text.includes('#EXT-X-STREAM-INF');
+
+export interface HlsMediaPlaylist {
+  init?: SegmentRef;
+  segments: MediaSegment[];
+  container: 'fmp4' | 'ts';
+  live: boolean;
+  duration: number;
+}
+
+export const parseMediaPlaylist = (text: string, baseUrl: string): HlsMediaPlaylist => {
+  const segments: MediaSegment[] = [];
+  let init: SegmentRef | undefined;
+  let pendingDuration = 0;
+  let pendingRange: [number, number] | undefined;
+  let lastRangeEnd = 0;
+  let time = 0;
+  let live = true;
+
+  for (const line of lines(text)) {
+    if (line.startsWith('#EXTINF:')) {
+      pendingDuration = parseFloat(line.slice(8));
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      pendingRange = parseByteRange(line.slice(17), lastRangeEnd);
+      lastRangeEnd = pendingRange[1] + 1;
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const attrs = parseAttributes(line.slice(11));
+      init = {
+        url: resolveUrl(attrs.URI, baseUrl),
+        range: attrs.BYTERANGE ? parseByteRange(attrs.BYTERANGE, 0) : undefined,
+      };
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      const attrs = parseAttributes(line.slice(11));
+      if (attrs.METHOD && attrs.METHOD !== 'NONE') {
+        throw new Error(`不支持加密的 HLS 流 (${attrs.METHOD})`);
+      }
+    } else if (line === '#EXT-X-ENDLIST') {
+      live = false;
+    } else if (!line.startsWith('#')) {
+      segments.push({
+        url: resolveUrl(line, baseUrl),
+        range: pendingRange,
+        start: time,
+        duration: pendingDuration,
+      });
+      time += pendingDuration;
+      pendingDuration = 0;
+      pendingRange = undefined;
+    }
+  }
+
+  return { init, segments, container: init ? 'fmp4' : 'ts', live, duration: time };
+};
+
+export const parseMasterPlaylist = (text: string, baseUrl: string): StreamManifest => {
+  const video: Rendition[] = [];
+  const audio: Rendition[] = [];
+  const all = lines(text);
+
+  for (let i = 0; i < all.length; i++) {
+    const line = all[i];
+
+    if (line.startsWith('#EXT-X-MEDIA:')) {
+      const attrs = parseAttributes(line.slice(13));
+      // Audio renditions without a URI are muxed into the variant streams
+      if (attrs.TYPE === 'AUDIO' && attrs.URI) {
+        audio.push({
+          id: `audio:${attrs['GROUP-ID']}:${attrs.NAME || audio.length}`,
+          type: 'audio',
+          bandwidth: 0,
+          mimeType: 'audio/mp4',
+          audioGroup: attrs['GROUP-ID'],
+          playlistUrl: resolveUrl(attrs.URI, baseUrl),
+        });
+      }
+    } else if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      const attrs = parseAttributes(line.slice(18));
+      const uri = all.slice(i + 1).find(l => !l.startsWith('#'));
+      if (!uri) continue;
+      const [width, height] = (attrs.RESOLUTION || '').split('x').map(Number);
+      const codecs = attrs.CODECS;
+      const videoOnly = !!codecs && codecs.split(',').every(c => !AUDIO_CODEC.test(c.trim()));
+      video.push({
+        id: `v${video.length}`,
+        type: videoOnly ? 'video' : 'muxed',
+        bandwidth: parseInt(attrs['AVERAGE-BANDWIDTH'] || attrs.BANDWIDTH || '0', 10),
+        width: width || undefined,
+        height: height || undefined,
+        frameRate: attrs['FRAME-RATE'] ? parseFloat(attrs['FRAME-RATE']) : undefined,
+        codecs,
+        mimeType: 'video/mp4',
+        playlistUrl: resolveUrl(uri, baseUrl),
+        audioGroup: attrs.AUDIO,
+      });
+    }
+  }
+
+  // A variant that points at a separate audio group carries video only
+  for (const variant of video) {
+    if (variant.audioGroup && audio.some(a => a.audioGroup === variant.audioGroup)) {
+      variant.type = 'video';
+      if (variant.codecs) {
+        const videoCodecs = variant.codecs.split(',').map(c => c.trim()).filter(c => !AUDIO_CODEC.test(c));
+        const audioCodec = variant.codecs.split(',').map(c => c.trim()).find(c => AUDIO_CODEC.test(c));
+        variant.codecs = videoCodecs.join(',');
+        if (audioCodec) {
+          audio.filter(a => a.audioGroup === variant.audioGroup && !a.codecs).forEach(a => { a.codecs = audioCodec; });
+        }
+      }
+    }
+  }
+
+  return { kind: 'hls', url: baseUrl, live: false, video, audio };
+};
+
+// A manifest from either kind of playlist. Media playlists become a single muxed rendition.
+export const parseHls = (text: string, url: string): StreamManifest => {
+  if (!text.trimStart().startsWith('#EXTM3U')) {
+    throw new Error('不是有效的 M3U8 播放列表');
+  }
+  if (isMasterPlaylist(text)) return parseMasterPlaylist(text, url);
+
+  const media = parseMediaPlaylist(text, url);
+  return {
+    kind: 'hls',
+    url,
+    duration: media.duration,
+    live: media.live,
+    video: [{
+      id: 'v0',
+      type: 'muxed',
+      bandwidth: 0,
+      mimeType: 'video/mp4',
+      container: media.container,
+      playlistUrl: url,
+      init: media.init,
+      segments: media.segments,
+    }],
+    audio: [],
+  };
+};
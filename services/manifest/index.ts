@@ -0,0 +1,103 @@
+import { ManifestKind, Rendition, SegmentRef, StreamManifest, VideoSource } from "../../types";
+import { parseDash } from "./dash";
+import { parseHls, parseMediaPlaylist } from "./hls";
+
+const MANIFEST_REGEX = /\.(m3u8|mpd)(?:[?#].*)?$/i;
+
+export const detectManifest = (url: string): ManifestKind | null => {
+  const match = url.match(MANIFEST_REGEX);
+  if (!match) return null;
+  return match[1].toLowerCase() === 'mpd' ? 'dash' : 'hls';
+};
+
+export const loadManifest = async (url: string, kind: ManifestKind, signal?: AbortSignal): Promise<StreamManifest> => {
+  const res = await fetch(url, { signal, referrerPolicy: 'no-referrer' });
+  if (!res.ok) throw new Error(`清单请求失败 (HTTP ${res.status})`);
+  const text = await res.text();
+  // Redirects change the base that relative segment URLs resolve against
+  const baseUrl = res.url || url;
+  return kind === 'dash' ? parseDash(text, baseUrl) : parseHls(text, baseUrl);
+};
+
+// Fills in the segment list of an HLS variant, whose media playlist is fetched lazily
+export const ensureSegments = async (rendition: Rendition, signal?: AbortSignal): Promise<Rendition> => {
+  if (rendition.segments || !rendition.playlistUrl) return rendition;
+  const res = await fetch(rendition.playlistUrl, { signal, referrerPolicy: 'no-referrer' });
+  if (!res.ok) throw new Error(`播放列表请求失败 (HTTP ${res.status})`);
+  const media = parseMediaPlaylist(await res.text(), res.url || rendition.playlistUrl);
+  rendition.init = media.init;
+  rendition.segments = media.segments;
+  rendition.container = media.container;
+  return rendition;
+};
+
+export const fetchSegment = async (segment: SegmentRef, signal?: AbortSignal): Promise<ArrayBuffer> => {
+  const headers: HeadersInit = segment.range ? { Range: `bytes=${segment.range[0]}-${segment.range[1]}` } : {};
+  const res = await fetch(segment.url, { signal, headers, referrerPolicy: 'no-referrer' });
+  if (!res.ok) throw new Error(`分片请求失败 (HTTP ${res.status})`);
+  return res.arrayBuffer();
+};
+
+// Full MSE type string, e.g. `video/mp4; codecs="avc1.64001f,mp4a.40.2"`
+export const renditionMime = (rendition: Rendition): string => {
+  // HLS playlists without CODECS are almost always H.264 + AAC
+  const fallback: Record<Rendition['type'], string> = { muxed: 'avc1.42E01E,mp4a.40.2', video: 'avc1.42E01E', audio: 'mp4a.40.2' };
+  const codecs = rendition.codecs || fallback[rendition.type];
+  return `${rendition.mimeType}; codecs="${codecs}"`;
+};
+
+// Video renditions as selectable sources: an adaptive 'Auto' entry followed by each rendition, best first
+export const manifestSources = (manifest: StreamManifest): VideoSource[] => {
+  const format = manifest.kind === 'hls' ? 'HLS' : 'DASH';
+  const renditions = [...manifest.video].sort((a, b) => b.bandwidth - a.bandwidth);
+
+  const auto: VideoSource = {
+    url: manifest.url,
+    format,
+    label: 'Auto',
+    mime: manifest.kind === 'hls' ? 'application/vnd.apple.mpegurl' : 'application/dash+xml',
+    isDownloadable: renditions.length > 0,
+    manifest: { kind: manifest.kind, url: manifest.url },
+  };
+  if (renditions.length <= 1) return [auto];
+
+  return [auto, ...renditions.map((rendition): VideoSource => ({
+    url: rendition.playlistUrl || manifest.url,
+    format,
+    label: rendition.height ? `${rendition.height}P` : `${Math.round(rendition.bandwidth / 1000)}k`,
+    width: rendition.width,
+    height: rendition.height,
+    bitrate: rendition.bandwidth || undefined,
+    codec: rendition.codecs,
+    mime: rendition.mimeType,
+    isDownloadable: true,
+    manifest: { kind: manifest.kind, url: manifest.url, renditionId: rendition.id },
+  }))];
+};
+
+export interface RenditionParts {
+  parts: SegmentRef[];
+  mime: string;
+  extension: string;
+}
+
+// Init and media segments of one rendition, in file order. Without a rendition id
+// the best one is taken. For DASH and HLS with alternate audio this is video-only.
+export const renditionParts = async (
+  source: NonNullable<VideoSource['manifest']>,
+  signal?: AbortSignal
+): Promise<RenditionParts> => {
+  const manifest = await loadManifest(source.url, source.kind, signal);
+  const best = [...manifest.video].sort((a, b) => b.bandwidth - a.bandwidth)[0];
+  const picked = manifest.video.find(r => r.id === source.renditionId) || best;
+  if (!picked) throw new Error('清单中没有视频轨道');
+
+  const rendition = await ensureSegments(picked, signal);
+  const isTs = rendition.container === 'ts';
+  const isWebm = rendition.container === 'webm';
+  return {
+    parts: [...(rendition.init ? [rendition.init] : []), ...(rendition.segments || [])],
+    mime: isTs ? 'video/mp2t' : isWebm ? 'video/webm' : 'video/mp4',
+    extension: isTs ? 'ts' : isWebm ? 'webm' : 'mp4',
+  };
+};
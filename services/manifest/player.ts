@@ -0,0 +1,320 @@
+import { ManifestKind, MediaSegment, Rendition, StreamManifest } from "../../types";
+import { ensureSegments, fetchSegment, loadManifest, renditionMime } from "./index";
+
+const BUFFER_AHEAD = 30; // seconds buffered ahead of the playhead
+const BUFFER_BEHIND = 30; // seconds kept behind the playhead before eviction
+const INITIAL_ESTIMATE = 2_000_000; // bits per second, until the first segment has been measured
+const ABR_SAFETY = 0.8; // only pick renditions that fit in this share of the measured throughput
+
+interface Track {
+  kind: 'video' | 'audio';
+  renditions: Rendition[]; // ascending bandwidth
+  buffer: SourceBuffer;
+  mime: string;
+  // Rendition whose init segment is currently in the buffer
+  current?: Rendition;
+  nextTime: number;
+  done: boolean;
+  flushAhead: boolean;
+}
+
+export interface ManifestPlayerEvents {
+  onRendition?: (rendition: Rendition) => void;
+  onError?: (message: string) => void;
+}
+
+// Plays an HLS (fMP4) or DASH manifest through Media Source Extensions. One
+// loader loop per SourceBuffer keeps BUFFER_AHEAD seconds buffered, picking the
+// rendition per segment: either the pinned one or the best fit for the
+// measured throughput.
+export class ManifestPlayer {
+  readonly objectUrl: string;
+
+  private mediaSource = new MediaSource();
+  private controller = new AbortController();
+  private tracks: Track[] = [];
+  private duration = 0;
+  private pinnedId: string | null = null;
+  private throughput = 0;
+  // Bumped on every seek so segments requested before it are dropped
+  private generation = 0;
+  private waiters: (() => void)[] = [];
+  private destroyed = false;
+  private video: HTMLVideoElement | null = null;
+
+  constructor(
+    private url: string,
+    private kind: ManifestKind,
+    private getVideo: () => HTMLVideoElement | null,
+    private events: ManifestPlayerEvents = {}
+  ) {
+    this.objectUrl = URL.createObjectURL(this.mediaSource);
+    this.mediaSource.addEventListener('sourceopen', () => this.start(), { once: true });
+  }
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'MediaSource' in window;
+  }
+
+  // Pins the video track to a rendition, or returns to adaptive selection with null
+  setRendition(id: string | null) {
+    if (id === this.pinnedId) return;
+    this.pinnedId = id;
+    this.tracks.filter(t => t.kind === 'video').forEach(t => { t.flushAhead = true; });
+    this.wake();
+  }
+
+  destroy() {
+    this.destroyed = true;
+    this.controller.abort();
+    this.video?.removeEventListener('seeking', this.handleSeeking);
+    this.video?.removeEventListener('timeupdate', this.wake);
+    this.wake();
+    URL.revokeObjectURL(this.objectUrl);
+  }
+
+  private async start() {
+    try {
+      const manifest = await loadManifest(this.url, this.kind, this.controller.signal);
+      if (this.destroyed) return;
+      await this.setupTracks(manifest);
+
+      this.video = this.getVideo();
+      this.video?.addEventListener('seeking', this.handleSeeking);
+      this.video?.addEventListener('timeupdate', this.wake);
+
+      this.tracks.forEach(track => this.runTrack(track));
+    } catch (e: any) {
+      this.fail(e);
+    }
+  }
+
+  private async setupTracks(manifest: StreamManifest) {
+    const signal = this.controller.signal;
+    const videoRenditions = [...manifest.video].sort((a, b) => a.bandwidth - b.bandwidth);
+    if (videoRenditions.length === 0) throw new Error('清单中没有视频轨道');
+
+    // The container is only known once a media playlist has been read
+    const first = await ensureSegments(videoRenditions[0], signal);
+    if (first.container === 'ts') {
+      throw new Error('该 HLS 流使用 MPEG-TS 分片，浏览器需转封装后才能通过 MSE 播放');
+    }
+
+    const playable = videoRenditions.filter(r => MediaSource.isTypeSupported(renditionMime(r)));
+    if (playable.length === 0) throw new Error(`浏览器不支持该编码 (${renditionMime(first)})`);
+    this.tracks.push(this.createTrack('video', playable));
+
+    // Separate audio is only needed when the video renditions don't carry it
+    if (playable[0].type === 'video' && manifest.audio.length > 0) {
+      const group = playable[0].audioGroup;
+      const candidates = manifest.audio
+        .filter(a => !group || !a.audioGroup || a.audioGroup === group)
+        .filter(a => MediaSource.isTypeSupported(renditionMime(a)))
+        .sort((a, b) => a.bandwidth - b.bandwidth);
+      if (candidates.length > 0) this.tracks.push(this.createTrack('audio', candidates));
+    }
+
+    this.duration = manifest.duration || first.segments?.reduce((sum, s) => sum + s.duration, 0) || 0;
+    if (this.duration > 0) this.mediaSource.duration = this.duration;
+  }
+
+  private createTrack(kind: Track['kind'], renditions: Rendition[]): Track {
+    const mime = renditionMime(renditions[0]);
+    return {
+      kind,
+      renditions,
+      buffer: this.mediaSource.addSourceBuffer(mime),
+      mime,
+      nextTime: 0,
+      done: false,
+      flushAhead: false,
+    };
+  }
+
+  private async runTrack(track: Track) {
+    const signal = this.controller.signal;
+    while (!this.destroyed) {
+      try {
+        const video = this.video;
+        if (!video) return;
+
+        if (track.flushAhead) {
+          track.flushAhead = false;
+          const keepUntil = video.currentTime + 1;
+          if (track.nextTime > keepUntil) {
+            await this.remove(track, keepUntil, Infinity);
+            track.nextTime = keepUntil;
+            track.done = false;
+          }
+        }
+
+        if (track.done || track.nextTime - video.currentTime > BUFFER_AHEAD) {
+          await this.waitForWake();
+          continue;
+        }
+
+        const rendition = await ensureSegments(this.pick(track), signal);
+        const segment = segmentAt(rendition.segments || [], track.nextTime);
+        if (!segment) {
+          track.done = true;
+          this.maybeEnd();
+          continue;
+        }
+
+        const generation = this.generation;
+        if (track.current !== rendition) {
+          await this.switchRendition(track, rendition);
+        }
+
+        const started = performance.now();
+        const data = await fetchSegment(segment, signal);
+        this.measure(data.byteLength, performance.now() - started);
+        if (generation !== this.generation || this.destroyed) continue;
+
+        await this.append(track, data);
+        if (generation === this.generation) track.nextTime = segment.start + segment.duration;
+        await this.evictBehind(track, video.currentTime);
+      } catch (e: any) {
+        if (this.destroyed || e?.name === 'AbortError') return;
+        this.fail(e);
+        return;
+      }
+    }
+  }
+
+  private pick(track: Track): Rendition {
+    if (track.kind === 'video' && this.pinnedId) {
+      const pinned = track.renditions.find(r => r.id === this.pinnedId);
+      if (pinned) return pinned;
+    }
+    // Audio is cheap; always take the best
+    if (track.kind === 'audio') return track.renditions[track.renditions.length - 1];
+
+    const budget = (this.throughput || INITIAL_ESTIMATE) * ABR_SAFETY;
+    let choice = track.renditions[0];
+    for (const rendition of track.renditions) {
+      if (rendition.bandwidth <= budget) choice = rendition;
+    }
+    return choice;
+  }
+
+  private async switchRendition(track: Track, rendition: Rendition) {
+    const mime = renditionMime(rendition);
+    if (mime !== track.mime && 'changeType' in track.buffer) {
+      track.buffer.changeType(mime);
+      track.mime = mime;
+    }
+    if (rendition.init) {
+      await this.append(track, await fetchSegment(rendition.init, this.controller.signal));
+    }
+    track.current = rendition;
+    if (track.kind === 'video') this.events.onRendition?.(rendition);
+  }
+
+  // Exponentially weighted throughput estimate in bits per second
+  private measure(bytes: number, ms: number) {
+    if (ms <= 0 || bytes < 16 * 1024) return;
+    const sample = (bytes * 8 * 1000) / ms;
+    this.throughput = this.throughput ? this.throughput * 0.7 + sample * 0.3 : sample;
+  }
+
+  private handleSeeking = () => {
+    const video = this.video;
+    if (!video) return;
+    this.generation++;
+    for (const track of this.tracks) {
+      const range = bufferedRangeAt(track.buffer, video.currentTime);
+      track.nextTime = range ? range[1] : video.currentTime;
+      track.done = false;
+    }
+    this.wake();
+  };
+
+  private append(track: Track, data: ArrayBuffer): Promise<void> {
+    return this.bufferOp(track, () => track.buffer.appendBuffer(data)).catch(async (e) => {
+      // The buffer is full: drop what has already been played and retry once
+      if (e?.name !== 'QuotaExceededError' || !this.video) throw e;
+      await this.remove(track, 0, Math.max(0, this.video.currentTime - 5));
+      return this.bufferOp(track, () => track.buffer.appendBuffer(data));
+    });
+  }
+
+  private remove(track: Track, start: number, end: number): Promise<void> {
+    const limit = Math.min(end, this.mediaSource.duration || end);
+    if (limit <= start) return Promise.resolve();
+    return this.bufferOp(track, () => track.buffer.remove(start, limit));
+  }
+
+  private async evictBehind(track: Track, currentTime: number) {
+    const buffered = track.buffer.buffered;
+    if (buffered.length > 0 && currentTime - buffered.start(0) > BUFFER_BEHIND * 2) {
+      await this.remove(track, 0, currentTime - BUFFER_BEHIND);
+    }
+  }
+
+  // Runs one SourceBuffer operation and waits for it to finish
+  private bufferOp(track: Track, op: () => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.mediaSource.readyState === 'closed') return resolve();
+      const onEnd = () => { cleanup(); resolve(); };
+      const onError = () => { cleanup(); reject(new Error('SourceBuffer 写入失败')); };
+      const cleanup = () => {
+        track.buffer.removeEventListener('updateend', onEnd);
+        track.buffer.removeEventListener('error', onError);
+      };
+      track.buffer.addEventListener('updateend', onEnd);
+      track.buffer.addEventListener('error', onError);
+      try {
+        op();
+      } catch (e) {
+        cleanup();
+        reject(e);
+      }
+    });
+  }
+
+  private maybeEnd() {
+    const allDone = this.tracks.every(t => t.done && !t.buffer.updating);
+    if (allDone && this.mediaSource.readyState === 'open') {
+      try {
+        this.mediaSource.endOfStream();
+      } catch {
+        // A buffer started updating in between; the next track to finish retries
+      }
+    }
+  }
+
+  private wake = () => {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  };
+
+  private waitForWake(): Promise<void> {
+    return new Promise(resolve => {
+      this.waiters.push(resolve);
+      setTimeout(resolve, 1000);
+    });
+  }
+
+  private fail(e: any) {
+    console.error("Manifest playback failed", e);
+    this.events.onError?.(e?.message || String(e));
+  }
+}
+
+// The segment that covers `time`, allowing for small gaps between segment timestamps
+function segmentAt(segments: MediaSegment[], time: number): MediaSegment | undefined {
+  const t = time + 0.05;
+  if (segments.length > 0 && t < segments[0].start) return segments[0];
+  return segments.find(s => s.start <= t && t < s.start + s.duration);
+}
+
+function bufferedRangeAt(buffer: SourceBuffer, time: number): [number, number] | null {
+  for (let i = 0; i < buffer.buffered.length; i++) {
+    if (buffer.buffered.start(i) <= time && time <= buffer.buffered.end(i)) {
+      return [buffer.buffered.start(i), buffer.buffered.end(i)];
+    }
+  }
+  return null;
+}
@@ -0,0 +1,289 @@
+import { MediaInfo, MediaTrackInfo, MediaTrackKind } from "../../types";
+
+// Files are read whole to walk the clusters; beyond this only the start is read
+const MAX_READ_BYTES = 1024 * 1024 * 1024;
+const PARTIAL_READ_BYTES = 64 * 1024 * 1024;
+// Matroska dates count nanoseconds from 2001-01-01
+const MATROSKA_EPOCH_MS = Date.UTC(2001, 0, 1);
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  DocType: 0x4282,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Duration: 0x4489,
+  DateUTC: 0x4461,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  Language: 0x22b59c,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+};
+
+// Elements that may follow a cluster of unknown size, ending it
+const SEGMENT_LEVEL = new Set([ID.Cluster, ID.Cues, ID.Info, ID.Tracks, 0x114d9b74, 0x1254c367, 0x1941a469, 0x1043a770]);
+
+const TRACK_KINDS: Record<number, MediaTrackKind> = { 1: 'video', 2: 'audio', 0x11: 'subtitle' };
+
+interface Element {
+  id: number;
+  dataStart: number;
+  // Undefined for elements of unknown size (live recordings, MediaRecorder output)
+  size?: number;
+}
+
+// Per-track totals collected from the blocks
+interface BlockStats {
+  frames: number;
+  bytes: number;
+  keyframes: number[];
+  lastTime: number;
+}
+
+// Reads container details from a WebM/Matroska file: Info, Tracks and Cues, plus every block for keyframes and bitrates
+export const inspectMatroska = async (blob: Blob): Promise<MediaInfo> => {
+  const partial = blob.size > MAX_READ_BYTES;
+  const data = new Uint8Array(await blob.slice(0, partial ? PARTIAL_READ_BYTES : blob.size).arrayBuffer());
+  const info: MediaInfo = { container: 'Matroska', bytes: blob.size, tracks: [], keyframes: [], warnings: [] };
+  if (partial) info.warnings.push(`文件过大，只读取了开头 ${PARTIAL_READ_BYTES / 1024 / 1024} MB，关键帧与码率不完整`);
+
+  let offset = 0;
+  let segment: Element | undefined;
+  while (offset < data.length) {
+    const element = readElement(data, offset);
+    if (!element) break;
+    if (element.id === ID.EBML) {
+      const docType = children(data, element).find(e => e.id === ID.DocType);
+      if (docType) info.brand = readString(data, docType);
+      if (info.brand === 'webm') info.container = 'WebM';
+    } else if (element.id === ID.Segment) {
+      segment = element;
+      break;
+    }
+    if (element.size === undefined) break;
+    offset = element.dataStart + element.size;
+  }
+  if (!segment) throw new Error('没有找到 Segment，文件可能不完整');
+
+  let timestampScale = 1e6; // nanoseconds per timestamp unit
+  let duration: number | undefined;
+  const cues: number[] = [];
+  const stats = new Map<number, BlockStats>();
+  const segmentEnd = segment.size === undefined ? data.length : Math.min(data.length, segment.dataStart + segment.size);
+
+  offset = segment.dataStart;
+  while (offset < segmentEnd) {
+    const element = readElement(data, offset);
+    if (!element) break;
+    switch (element.id) {
+      case ID.Info:
+        for (const child of children(data, element)) {
+          if (child.id === ID.TimestampScale) timestampScale = readUint(data, child);
+          else if (child.id === ID.Duration) duration = readFloat(data, child);
+          else if (child.id === ID.DateUTC) info.createdAt = new Date(MATROSKA_EPOCH_MS + readInt(data, child) / 1e6).toISOString();
+          else if (child.id === ID.MuxingApp) info.muxer ??= readString(data, child);
+          else if (child.id === ID.WritingApp) info.muxer = readString(data, child);
+        }
+        break;
+      case ID.Tracks:
+        for (const entry of children(data, element)) {
+          if (entry.id === ID.TrackEntry) info.tracks.push(readTrackEntry(data, entry));
+        }
+        break;
+      case ID.Cues:
+        for (const point of children(data, element)) {
+          if (point.id !== ID.CuePoint) continue;
+          const time = children(data, point).find(e => e.id === ID.CueTime);
+          if (time) cues.push(readUint(data, time));
+        }
+        break;
+      case ID.Cluster:
+        offset = readCluster(data, element, segmentEnd, stats);
+        continue;
+    }
+    if (element.size === undefined) break;
+    offset = element.dataStart + element.size;
+  }
+
+  const scale = timestampScale / 1e9; // timestamp units to seconds
+  info.duration = duration ? duration * scale : undefined;
+  if (!info.duration) {
+    // Recordings often carry no duration; the last block is the best estimate
+    const last = Math.max(0, ...[...stats.values()].map(s => s.lastTime));
+    if (last > 0) info.duration = last * scale;
+    if (info.duration) info.warnings.push('文件没有记录时长，按最后一帧估算');
+  }
+  if (info.duration && !partial) info.bitrate = Math.round(blob.size * 8 / info.duration);
+
+  for (const track of info.tracks) {
+    const s = stats.get(track.id);
+    if (!s || !info.duration) continue;
+    track.duration ??= info.duration;
+    track.samples = s.frames;
+    if (!partial) track.bitrate = Math.round(s.bytes * 8 / info.duration);
+    if (track.kind === 'video' && !track.frameRate && !partial) track.frameRate = Math.round(s.frames / info.duration * 1000) / 1000;
+  }
+
+  const video = info.tracks.find(t => t.kind === 'video');
+  const blockKeyframes = video ? stats.get(video.id)?.keyframes : undefined;
+  // Cues only index some keyframes, so blocks are preferred when they were read
+  const keyframes = blockKeyframes?.length ? blockKeyframes : cues;
+  info.keyframes = [...new Set(keyframes.map(t => Math.round(t * scale * 1e6) / 1e6))].sort((a, b) => a - b);
+  return info;
+};
+
+function readTrackEntry(data: Uint8Array, entry: Element): MediaTrackInfo {
+  const track: MediaTrackInfo = { id: 0, kind: 'other', codec: '' };
+  for (const child of children(data, entry)) {
+    switch (child.id) {
+      case ID.TrackNumber: track.id = readUint(data, child); break;
+      case ID.TrackType: track.kind = TRACK_KINDS[readUint(data, child)] || 'other'; break;
+      case ID.CodecID: track.codec = readString(data, child); break;
+      case ID.Language: {
+        const language = readString(data, child);
+        if (language && language !== 'und') track.language = language;
+        break;
+      }
+      case ID.DefaultDuration: track.frameRate = Math.round(1e9 / readUint(data, child) * 1000) / 1000; break;
+      case ID.Video:
+        for (const v of children(data, child)) {
+          if (v.id === ID.PixelWidth) track.width = readUint(data, v);
+          else if (v.id === ID.PixelHeight) track.height = readUint(data, v);
+        }
+        break;
+      case ID.Audio:
+        for (const a of children(data, child)) {
+          if (a.id === ID.SamplingFrequency) track.sampleRate = readFloat(data, a);
+          else if (a.id === ID.Channels) track.channels = readUint(data, a);
+        }
+        break;
+    }
+  }
+  // DefaultDuration of audio tracks is a packet length, not a frame rate
+  if (track.kind !== 'video') delete track.frameRate;
+  return track;
+}
+
+// Tallies the cluster's blocks and returns the offset after it
+function readCluster(data: Uint8Array, cluster: Element, segmentEnd: number, stats: Map<number, BlockStats>): number {
+  const end = cluster.size === undefined ? segmentEnd : Math.min(segmentEnd, cluster.dataStart + cluster.size);
+  let clusterTime = 0;
+  let offset = cluster.dataStart;
+  while (offset < end) {
+    const element = readElement(data, offset);
+    // A cluster of unknown size ends where the next segment-level element starts
+    if (element && cluster.size === undefined && SEGMENT_LEVEL.has(element.id)) return offset;
+    if (!element || element.size === undefined) return end;
+
+    if (element.id === ID.Timestamp) {
+      clusterTime = readUint(data, element);
+    } else if (element.id === ID.SimpleBlock) {
+      countBlock(data, element, clusterTime, (data[blockHeaderEnd(data, element.dataStart) - 1] & 0x80) !== 0, stats);
+    } else if (element.id === ID.BlockGroup) {
+      const parts = children(data, element);
+      const block = parts.find(e => e.id === ID.Block);
+      if (block) countBlock(data, block, clusterTime, !parts.some(e => e.id === ID.ReferenceBlock), stats);
+    }
+    offset = element.dataStart + element.size;
+  }
+  return end;
+}
+
+function countBlock(data: Uint8Array, block: Element, clusterTime: number, keyframe: boolean, stats: Map<number, BlockStats>) {
+  const track = readVint(data, block.dataStart);
+  if (!track) return;
+  const at = block.dataStart + track.length;
+  const relative = (data[at] << 24 >> 16) | data[at + 1]; // signed 16-bit
+  const time = clusterTime + relative;
+  const s = stats.get(track.value) || { frames: 0, bytes: 0, keyframes: [], lastTime: 0 };
+  s.frames++;
+  s.bytes += block.size! - (at + 3 - block.dataStart);
+  s.lastTime = Math.max(s.lastTime, time);
+  if (keyframe) s.keyframes.push(time);
+  stats.set(track.value, s);
+}
+
+// Offset just past a block's track number, timestamp and flags
+function blockHeaderEnd(data: Uint8Array, start: number): number {
+  return start + (readVint(data, start)?.length || 1) + 3;
+}
+
+function children(data: Uint8Array, parent: Element): Element[] {
+  const list: Element[] = [];
+  const end = parent.size === undefined ? data.length : Math.min(data.length, parent.dataStart + parent.size);
+  let offset = parent.dataStart;
+  while (offset < end) {
+    const element = readElement(data, offset);
+    if (!element || element.size === undefined) break;
+    list.push(element);
+    offset = element.dataStart + element.size;
+  }
+  return list;
+}
+
+function readElement(data: Uint8Array, offset: number): Element | undefined {
+  const id = readVint(data, offset, true);
+  if (!id) return undefined;
+  const size = readVint(data, offset + id.length);
+  if (!size) return undefined;
+  return { id: id.value, dataStart: offset + id.length + size.length, size: size.unknown ? undefined : size.value };
+}
+
+// EBML variable-length integer; IDs keep their length marker, sizes drop it
+function readVint(data: Uint8Array, offset: number, keepMarker = false): { value: number; length: number; unknown: boolean } | undefined {
+  const first = data[offset];
+  if (!first) return undefined;
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || offset + length > data.length) return undefined;
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i];
+    if (data[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readUint(data: Uint8Array, element: Element): number {
+  let value = 0;
+  for (let i = 0; i < element.size!; i++) value = value * 256 + data[element.dataStart + i];
+  return value;
+}
+
+function readInt(data: Uint8Array, element: Element): number {
+  const value = readUint(data, element);
+  const bits = element.size! * 8;
+  return element.size && data[element.dataStart] & 0x80 ? value - 2 ** bits : value;
+}
+
+function readFloat(data: Uint8Array, element: Element): number {
+  const view = new DataView(data.buffer, data.byteOffset + element.dataStart, element.size);
+  return element.size === 4 ? view.getFloat32(0) : element.size === 8 ? view.getFloat64(0) : 0;
+}
+
+function readString(data: Uint8Array, element: Element): string {
+  return new TextDecoder().decode(data.subarray(element.dataStart, element.dataStart + element.size!)).replace(/\0+$/, '');
+}
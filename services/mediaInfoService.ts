@@ -0,0 +1,43 @@
+import { MediaInfo, ParsedVideoData, VideoSource } from "../types";
+import { inspectMp4 } from "./mp4/inspect";
+import { inspectMatroska } from "./matroska/inspect";
+import { fourcc } from "./mp4/boxes";
+
+const FORMAT_VERSION = 1;
+// Top-level boxes an MP4/MOV may start with
+const MP4_LEADING_BOXES = new Set(['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pdin']);
+
+// Reads the container of a cached or local video, picking the parser from the first bytes
+export const inspectMedia = async (blob: Blob): Promise<MediaInfo> => {
+  const head = new Uint8Array(await blob.slice(0, 8).arrayBuffer());
+  if (head.length < 8) throw new Error('文件过小，无法识别');
+  if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) return inspectMatroska(blob);
+  if (MP4_LEADING_BOXES.has(fourcc(head, 4))) return inspectMp4(blob);
+  throw new Error('暂不支持该容器格式，目前支持 MP4/MOV 与 WebM/MKV');
+};
+
+// Same, for the player's Blob URL of a fully cached video
+export const inspectMediaUrl = async (url: string): Promise<MediaInfo> =>
+  inspectMedia(await (await fetch(url)).blob());
+
+export const mediaInfoToJson = (video: Pick<ParsedVideoData, 'platform' | 'id' | 'title' | 'sourceUrl'>, source: VideoSource | undefined, info: MediaInfo): string =>
+  JSON.stringify({
+    version: FORMAT_VERSION,
+    video: { platform: video.platform, id: video.id, title: video.title, sourceUrl: video.sourceUrl },
+    source: source && { label: source.label, format: source.format },
+    inspectedAt: new Date().toISOString(),
+    ...info,
+  }, null, 2);
+
+// Last keyframe before `time`, for stepping back through keyframes
+export const keyframeBefore = (keyframes: number[], time: number): number | undefined => {
+  let found: number | undefined;
+  for (const keyframe of keyframes) {
+    if (keyframe >= time - 1e-3) break;
+    found = keyframe;
+  }
+  return found;
+};
+
+export const keyframeAfter = (keyframes: number[], time: number): number | undefined =>
+  keyframes.find(keyframe => keyframe > time + 1e-3);
@@ -0,0 +1,166 @@
+import { AudioTags } from "../../types";
+import { ascii, boxBytes, findBox, fourcc, handlerType, makeBox, makeFullBox, Mp4Box, payload, readBoxes, u32 } from "./boxes";
+
+export interface AudioTrackInfo {
+  codec: string; // sample entry type, e.g. 'mp4a'
+  channels: number;
+  sampleRate: number;
+  duration?: number; // seconds, from the media header
+}
+
+// Copies the audio track of a progressive MP4 into a new M4A file without re-encoding.
+// Samples are laid out chunk by chunk in a fresh mdat and the chunk offsets rewritten.
+export const remuxAudioTrack = (data: Uint8Array, tags: AudioTags = {}): { file: Uint8Array; info: AudioTrackInfo } => {
+  const boxes = readBoxes(data);
+  const moov = findBox(boxes, 'moov');
+  if (!moov) throw new Error('不是有效的 MP4 文件');
+
+  const trak = moov.children!.find(t => t.type === 'trak' && handlerType(data, t) === 'soun');
+  if (!trak) throw new Error('该视频没有音轨');
+  const stbl = findBox(trak.children, 'mdia/minf/stbl');
+  const stsz = findBox(stbl?.children, 'stsz');
+  const stsc = findBox(stbl?.children, 'stsc');
+  const stco = findBox(stbl?.children, 'stco') || findBox(stbl?.children, 'co64');
+  if (!stsz || !stsc || !stco) throw new Error('音轨索引不完整');
+
+  const sizes = sampleSizes(data, stsz);
+  if (sizes.length === 0) throw new Error('分片 MP4 暂不支持提取音频，请直接下载音频流');
+  const offsets = chunkOffsets(data, stco);
+  const perChunk = samplesPerChunk(data, stsc, offsets.length);
+
+  // Byte ranges of every chunk in the source file
+  const chunks: [number, number][] = [];
+  let sample = 0;
+  offsets.forEach((offset, i) => {
+    let length = 0;
+    for (let n = 0; n < perChunk[i]; n++) length += sizes[sample++] || 0;
+    chunks.push([offset, length]);
+  });
+  const mdatSize = 8 + chunks.reduce((sum, [, length]) => sum + length, 0);
+
+  const ftyp = makeBox('ftyp', ascii('M4A '), u32(0), ascii('M4A '), ascii('mp42'), ascii('isom'));
+  const mvhd = findBox(moov.children, 'mvhd');
+  const buildMoov = (newOffsets: number[]) => makeBox('moov',
+    ...(mvhd ? [boxBytes(data, mvhd)] : []),
+    rebuild(data, trak, newOffsets),
+    metadataBox(tags),
+  );
+
+  // The moov size doesn't depend on the offset values, so measure it once with zeros
+  const dataStart = ftyp.length + buildMoov(offsets.map(() => 0)).length + 8;
+  let cursor = dataStart;
+  const moovBox = buildMoov(chunks.map(([, length]) => {
+    const offset = cursor;
+    cursor += length;
+    return offset;
+  }));
+
+  const file = new Uint8Array(ftyp.length + moovBox.length + mdatSize);
+  file.set(ftyp, 0);
+  file.set(moovBox, ftyp.length);
+  let out = ftyp.length + moovBox.length;
+  file.set(u32(mdatSize), out);
+  file.set(ascii('mdat'), out + 4);
+  out += 8;
+  for (const [offset, length] of chunks) {
+    file.set(data.subarray(offset, offset + length), out);
+    out += length;
+  }
+
+  return { file, info: { ...sampleEntryInfo(data, stbl!), duration: trackDuration(data, trak) } };
+};
+
+function sampleSizes(data: Uint8Array, stsz: Mp4Box): number[] {
+  const view = viewOf(data, stsz);
+  const fixed = view.getUint32(4);
+  const count = view.getUint32(8);
+  if (fixed) return new Array(count).fill(fixed);
+  return Array.from({ length: count }, (_, i) => view.getUint32(12 + i * 4));
+}
+
+function chunkOffsets(data: Uint8Array, box: Mp4Box): number[] {
+  const view = viewOf(data, box);
+  const count = view.getUint32(4);
+  return Array.from({ length: count }, (_, i) =>
+    box.type === 'co64' ? Number(view.getBigUint64(8 + i * 8)) : view.getUint32(8 + i * 4)
+  );
+}
+
+// stsc stores runs of chunks sharing a samples-per-chunk count; expands them to one count per chunk
+function samplesPerChunk(data: Uint8Array, stsc: Mp4Box, chunkCount: number): number[] {
+  const view = viewOf(data, stsc);
+  const entries = view.getUint32(4);
+  const counts = new Array(chunkCount).fill(0);
+  for (let e = 0; e < entries; e++) {
+    const first = view.getUint32(8 + e * 12) - 1;
+    const perChunk = view.getUint32(12 + e * 12);
+    const next = e + 1 < entries ? view.getUint32(8 + (e + 1) * 12) - 1 : chunkCount;
+    for (let c = first; c < next && c < chunkCount; c++) counts[c] = perChunk;
+  }
+  return counts;
+}
+
+function sampleEntryInfo(data: Uint8Array, stbl: Mp4Box): AudioTrackInfo {
+  const stsd = findBox(stbl.children, 'stsd')!;
+  const entry = stsd.start + stsd.headerSize + 8;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return {
+    codec: fourcc(data, entry + 4),
+    channels: view.getUint16(entry + 24),
+    sampleRate: view.getUint16(entry + 32), // integer part of a 16.16 value
+  };
+}
+
+function trackDuration(data: Uint8Array, trak: Mp4Box): number | undefined {
+  const mdhd = findBox(trak.children, 'mdia/mdhd');
+  if (!mdhd) return undefined;
+  const view = viewOf(data, mdhd);
+  const v1 = view.getUint8(0) === 1;
+  const timescale = view.getUint32(v1 ? 20 : 12);
+  const duration = v1 ? Number(view.getBigUint64(24)) : view.getUint32(16);
+  return timescale && duration ? duration / timescale : undefined;
+}
+
+// Copies the track, replacing its chunk offset table
+function rebuild(data: Uint8Array, box: Mp4Box, offsets: number[]): Uint8Array {
+  if (box.type === 'stco' || box.type === 'co64') {
+    const table = new Uint8Array(4 + offsets.length * 4);
+    const view = new DataView(table.buffer);
+    view.setUint32(0, offsets.length);
+    offsets.forEach((offset, i) => view.setUint32(4 + i * 4, offset));
+    return makeFullBox('stco', 0, 0, table);
+  }
+  if (['trak', 'mdia', 'minf', 'stbl'].includes(box.type) && box.children) {
+    return makeBox(box.type, ...box.children.map(child => rebuild(data, child, offsets)));
+  }
+  return boxBytes(data, box);
+}
+
+// iTunes-style moov/udta/meta/ilst
+function metadataBox(tags: AudioTags): Uint8Array {
+  const utf8 = (text: string) => new TextEncoder().encode(text);
+  // Well-known data types: 1 UTF-8, 13 JPEG, 14 PNG
+  const dataAtom = (type: number, bytes: Uint8Array) => makeBox('data', u32(type), u32(0), bytes);
+  const freeform = (name: string, value: string) => makeBox('----',
+    makeFullBox('mean', 0, 0, ascii('com.apple.iTunes')),
+    makeFullBox('name', 0, 0, ascii(name)),
+    dataAtom(1, utf8(value)),
+  );
+
+  const items: Uint8Array[] = [];
+  if (tags.title) items.push(makeBox('©nam', dataAtom(1, utf8(tags.title))));
+  if (tags.comment) items.push(makeBox('©cmt', dataAtom(1, utf8(tags.comment))));
+  if (tags.cover) items.push(makeBox('covr', dataAtom(tags.cover.mime === 'image/png' ? 14 : 13, tags.cover.bytes)));
+  if (tags.replayGain) {
+    items.push(freeform('replaygain_track_gain', `${tags.replayGain.gain.toFixed(2)} dB`));
+    items.push(freeform('replaygain_track_peak', tags.replayGain.peak.toFixed(6)));
+  }
+
+  const hdlr = makeFullBox('hdlr', 0, 0, u32(0), ascii('mdir'), ascii('appl'), new Uint8Array(9));
+  return makeBox('udta', makeFullBox('meta', 0, 0, hdlr, makeBox('ilst', ...items)));
+}
+
+function viewOf(data: Uint8Array, box: Mp4Box): DataView {
+  const body = payload(data, box);
+  return new DataView(body.buffer, body.byteOffset, body.byteLength);
+}
@@ -0,0 +1,88 @@
+// Reading and writing ISO BMFF (MP4/M4A) boxes.
+
+export interface Mp4Box {
+  type: string;
+  start: number; // offset of the box header in the file
+  size: number; // including the header
+  headerSize: number;
+  children?: Mp4Box[];
+}
+
+// Boxes whose payload is just more boxes
+const CONTAINERS = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'edts', 'dinf', 'udta', 'mvex', 'moof', 'traf', 'mfra', 'ilst']);
+// Containers that start with a version/flags word before their children
+const FULL_CONTAINERS = new Set(['meta']);
+
+export const readBoxes = (data: Uint8Array, start = 0, end = data.length): Mp4Box[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = fourcc(data, offset + 4);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // extends to the end of the file
+    }
+    if (size < headerSize || offset + size > end) break; // truncated: keep what was readable
+
+    const box: Mp4Box = { type, start: offset, size, headerSize };
+    if (CONTAINERS.has(type)) box.children = readBoxes(data, offset + headerSize, offset + size);
+    else if (FULL_CONTAINERS.has(type)) box.children = readBoxes(data, offset + headerSize + 4, offset + size);
+    boxes.push(box);
+    offset += size;
+  }
+  return boxes;
+};
+
+// First box along a slash-separated path, e.g. 'moov/trak/mdia'
+export const findBox = (boxes: Mp4Box[] | undefined, path: string): Mp4Box | undefined => {
+  const [head, ...rest] = path.split('/');
+  const box = boxes?.find(b => b.type === head);
+  return rest.length === 0 ? box : findBox(box?.children, rest.join('/'));
+};
+
+// Handler of a trak box: 'vide', 'soun', 'subt'...
+export const handlerType = (data: Uint8Array, trak: Mp4Box): string | undefined => {
+  const hdlr = findBox(trak.children, 'mdia/hdlr');
+  return hdlr ? fourcc(data, hdlr.start + hdlr.headerSize + 8) : undefined;
+};
+
+export const payload = (data: Uint8Array, box: Mp4Box): Uint8Array =>
+  data.subarray(box.start + box.headerSize, box.start + box.size);
+
+export const boxBytes = (data: Uint8Array, box: Mp4Box): Uint8Array =>
+  data.subarray(box.start, box.start + box.size);
+
+export const makeBox = (type: string, ...parts: Uint8Array[]): Uint8Array => {
+  const size = 8 + parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(size);
+  new DataView(out.buffer).setUint32(0, size);
+  out.set(ascii(type), 4);
+  let offset = 8;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const makeFullBox = (type: string, version: number, flags: number, ...parts: Uint8Array[]): Uint8Array =>
+  makeBox(type, u32((version << 24) | flags), ...parts);
+
+export const u32 = (value: number): Uint8Array => {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value >>> 0);
+  return out;
+};
+
+export const ascii = (text: string): Uint8Array => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+export function fourcc(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+}
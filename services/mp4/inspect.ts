@@ -0,0 +1,279 @@
+import { MediaInfo, MediaTrackInfo, MediaTrackKind } from "../../types";
+import { findBox, fourcc, handlerType, Mp4Box, payload, readBoxes } from "./boxes";
+
+// The moov box is read in one piece; anything larger is not a sane index
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+// MP4 times count from 1904-01-01
+const MP4_EPOCH_OFFSET = 2082844800;
+
+const TRACK_KINDS: Record<string, MediaTrackKind> = { vide: 'video', soun: 'audio', subt: 'subtitle', text: 'subtitle', sbtl: 'subtitle' };
+
+// Reads container details from an MP4/MOV without loading it: only top-level box headers, ftyp and moov are read
+export const inspectMp4 = async (blob: Blob): Promise<MediaInfo> => {
+  const info: MediaInfo = { container: 'MP4', bytes: blob.size, tracks: [], keyframes: [], warnings: [] };
+  let moov: Uint8Array | null = null;
+  let fragmented = false;
+
+  let offset = 0;
+  while (offset + 8 <= blob.size) {
+    const header = new Uint8Array(await blob.slice(offset, offset + 16).arrayBuffer());
+    const view = new DataView(header.buffer);
+    const type = fourcc(header, 4);
+    let size = view.getUint32(0);
+    if (size === 1 && header.length >= 16) size = Number(view.getBigUint64(8));
+    else if (size === 0) size = blob.size - offset;
+    if (size < 8) break; // damaged, keep what was found
+
+    if (type === 'ftyp') {
+      info.brand = fourcc(new Uint8Array(await blob.slice(offset + 8, offset + 12).arrayBuffer()), 0).trim();
+      if (info.brand === 'qt') info.container = 'QuickTime';
+    } else if (type === 'moov') {
+      if (size > MAX_MOOV_BYTES) throw new Error('moov 索引过大，无法读取');
+      moov = new Uint8Array(await blob.slice(offset, offset + size).arrayBuffer());
+    } else if (type === 'moof') {
+      fragmented = true;
+    }
+    offset += size;
+  }
+  if (!moov) throw new Error('没有找到 moov 索引，文件可能不完整');
+
+  const moovBox = findBox(readBoxes(moov), 'moov')!;
+  const movie = movieHeader(moov, moovBox);
+  info.createdAt = movie.createdAt;
+  info.duration = movie.duration || undefined;
+
+  for (const trak of moovBox.children!.filter(b => b.type === 'trak')) {
+    const { track, keyframes } = readTrack(moov, trak, movie.timescale);
+    info.tracks.push(track);
+    if (track.kind === 'video' && info.keyframes.length === 0 && keyframes) info.keyframes = keyframes;
+  }
+
+  if (fragmented) info.warnings.push('分片 MP4 的样本在 moof 中，关键帧与码率未读取');
+  if (!info.duration) info.duration = Math.max(0, ...info.tracks.map(t => t.duration || 0)) || undefined;
+  if (info.duration) info.bitrate = Math.round(blob.size * 8 / info.duration);
+  return info;
+};
+
+// Codec string of a sample entry, with profile and level for AVC and AAC
+export const sampleEntryCodec = (data: Uint8Array, entry: number, kind: MediaTrackKind): string => {
+  const codec = fourcc(data, entry + 4);
+  const entrySize = u32At(data, entry);
+  // Sample entry fields before the child boxes: 78 bytes for video, 28 for audio
+  const childStart = entry + 8 + (kind === 'video' ? 78 : kind === 'audio' ? 28 : 8);
+  if (childStart >= entry + entrySize) return codec;
+  const children = readBoxes(data, childStart, entry + entrySize);
+
+  const avcC = children.find(b => b.type === 'avcC');
+  if ((codec === 'avc1' || codec === 'avc3') && avcC) {
+    const config = avcC.start + avcC.headerSize;
+    return `${codec}.${hex(data[config + 1])}${hex(data[config + 2])}${hex(data[config + 3])}`;
+  }
+  const esds = children.find(b => b.type === 'esds');
+  if (codec === 'mp4a' && esds) {
+    const audioType = aacObjectType(payload(data, esds));
+    if (audioType) return `mp4a.${audioType}`;
+  }
+  return codec;
+};
+
+function movieHeader(data: Uint8Array, moov: Mp4Box) {
+  const mvhd = findBox(moov.children, 'mvhd');
+  if (!mvhd) return { timescale: 1000, duration: 0 };
+  const body = payload(data, mvhd);
+  const v1 = body[0] === 1;
+  const created = v1 ? u64At(body, 4) : u32At(body, 4);
+  const timescale = u32At(body, v1 ? 20 : 12) || 1000;
+  const duration = v1 ? u64At(body, 24) : u32At(body, 16);
+  return {
+    timescale,
+    duration: duration / timescale,
+    createdAt: created > MP4_EPOCH_OFFSET ? new Date((created - MP4_EPOCH_OFFSET) * 1000).toISOString() : undefined,
+  };
+}
+
+function readTrack(data: Uint8Array, trak: Mp4Box, movieTimescale: number): { track: MediaTrackInfo; keyframes?: number[] } {
+  const kind = TRACK_KINDS[handlerType(data, trak) || ''] || 'other';
+  const track: MediaTrackInfo = { id: 0, kind, codec: '' };
+
+  const tkhd = findBox(trak.children, 'tkhd');
+  if (tkhd) {
+    const body = payload(data, tkhd);
+    const v1 = body[0] === 1;
+    track.id = u32At(body, v1 ? 20 : 12);
+    // 16.16 fixed point display size, after the rotation matrix
+    const width = u32At(body, v1 ? 88 : 76) >>> 16;
+    const height = u32At(body, v1 ? 92 : 80) >>> 16;
+    if (kind === 'video' && width && height) Object.assign(track, { width, height });
+  }
+
+  const mdhd = findBox(trak.children, 'mdia/mdhd');
+  let timescale = 1;
+  if (mdhd) {
+    const body = payload(data, mdhd);
+    const v1 = body[0] === 1;
+    timescale = u32At(body, v1 ? 20 : 12) || 1;
+    const duration = v1 ? u64At(body, 24) : u32At(body, 16);
+    if (duration) track.duration = duration / timescale;
+    const language = isoLanguage((body[v1 ? 32 : 20] << 8) | body[v1 ? 33 : 21]);
+    if (language && language !== 'und') track.language = language;
+  }
+
+  const stbl = findBox(trak.children, 'mdia/minf/stbl');
+  const stsd = findBox(stbl?.children, 'stsd');
+  if (stsd) {
+    const entry = stsd.start + stsd.headerSize + 8;
+    track.codec = sampleEntryCodec(data, entry, kind);
+    if (kind === 'video') {
+      track.width ??= (data[entry + 32] << 8) | data[entry + 33];
+      track.height ??= (data[entry + 34] << 8) | data[entry + 35];
+    } else if (kind === 'audio') {
+      track.channels = (data[entry + 24] << 8) | data[entry + 25];
+      track.sampleRate = (data[entry + 32] << 8) | data[entry + 33]; // integer part of a 16.16 value
+    }
+  }
+
+  const stts = findBox(stbl?.children, 'stts');
+  const stsz = findBox(stbl?.children, 'stsz');
+  const bytes = stsz ? sampleBytes(data, stsz) : 0;
+  const decodeTimes = stts ? sampleTimes(data, stts) : [];
+  track.samples = decodeTimes.length || undefined;
+  if (track.duration && bytes) track.bitrate = Math.round(bytes * 8 / track.duration);
+  if (kind === 'video' && track.duration && decodeTimes.length) {
+    track.frameRate = Math.round(decodeTimes.length / track.duration * 1000) / 1000;
+  }
+  if (kind !== 'video' || decodeTimes.length === 0) return { track };
+
+  // Presentation time = decode time + composition offset, shifted by the edit list
+  const ctts = findBox(stbl?.children, 'ctts');
+  const offsets = ctts ? compositionOffsets(data, ctts, decodeTimes.length) : null;
+  const { delay, mediaStart } = editShift(data, trak, movieTimescale);
+  const stss = findBox(stbl?.children, 'stss');
+  // Without a sync sample table every sample is a keyframe
+  const sync = stss ? syncSamples(data, stss) : decodeTimes.map((_, i) => i + 1);
+  const keyframes = sync
+    .filter(n => n >= 1 && n <= decodeTimes.length)
+    .map(n => {
+      const time = (decodeTimes[n - 1] + (offsets?.[n - 1] || 0) - mediaStart) / timescale + delay;
+      return Math.max(0, Math.round(time * 1e6) / 1e6);
+    })
+    .sort((a, b) => a - b);
+  return { track, keyframes };
+}
+
+// Decode time of every sample, in media timescale units
+function sampleTimes(data: Uint8Array, stts: Mp4Box): number[] {
+  const body = payload(data, stts);
+  const entries = u32At(body, 4);
+  const times: number[] = [];
+  let time = 0;
+  for (let e = 0; e < entries; e++) {
+    const count = u32At(body, 8 + e * 8);
+    const delta = u32At(body, 12 + e * 8);
+    for (let i = 0; i < count; i++) {
+      times.push(time);
+      time += delta;
+    }
+  }
+  return times;
+}
+
+function compositionOffsets(data: Uint8Array, ctts: Mp4Box, sampleCount: number): Int32Array {
+  const body = payload(data, ctts);
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  const signed = body[0] === 1;
+  const entries = view.getUint32(4);
+  const offsets = new Int32Array(sampleCount);
+  let sample = 0;
+  for (let e = 0; e < entries && sample < sampleCount; e++) {
+    const count = view.getUint32(8 + e * 8);
+    const offset = signed ? view.getInt32(12 + e * 8) : view.getUint32(12 + e * 8);
+    for (let i = 0; i < count && sample < sampleCount; i++) offsets[sample++] = offset;
+  }
+  return offsets;
+}
+
+function syncSamples(data: Uint8Array, stss: Mp4Box): number[] {
+  const body = payload(data, stss);
+  const entries = u32At(body, 4);
+  const samples: number[] = [];
+  for (let e = 0; e < entries; e++) samples.push(u32At(body, 8 + e * 4));
+  return samples;
+}
+
+function sampleBytes(data: Uint8Array, stsz: Mp4Box): number {
+  const body = payload(data, stsz);
+  const fixed = u32At(body, 4);
+  const count = u32At(body, 8);
+  if (fixed) return fixed * count;
+  let total = 0;
+  for (let i = 0; i < count; i++) total += u32At(body, 12 + i * 4);
+  return total;
+}
+
+// Leading empty edits delay the track (movie timescale); the first real edit says where in the media playback starts
+function editShift(data: Uint8Array, trak: Mp4Box, movieTimescale: number): { delay: number; mediaStart: number } {
+  const elst = findBox(trak.children, 'edts/elst');
+  if (!elst) return { delay: 0, mediaStart: 0 };
+  const body = payload(data, elst);
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  const v1 = body[0] === 1;
+  const entries = view.getUint32(4);
+  const entrySize = v1 ? 20 : 12;
+  let delay = 0;
+  for (let e = 0; e < entries; e++) {
+    const at = 8 + e * entrySize;
+    const segment = v1 ? Number(view.getBigUint64(at)) : view.getUint32(at);
+    const mediaTime = v1 ? Number(view.getBigInt64(at + 8)) : view.getInt32(at + 4);
+    if (mediaTime === -1) {
+      delay += segment / movieTimescale;
+      continue;
+    }
+    return { delay, mediaStart: mediaTime };
+  }
+  return { delay, mediaStart: 0 };
+}
+
+// Audio object type from an esds box, e.g. '40.2' for AAC-LC
+function aacObjectType(esds: Uint8Array): string | undefined {
+  let offset = 4; // version and flags
+  const descriptor = (tag: number): number | undefined => {
+    if (esds[offset] !== tag) return undefined;
+    offset++;
+    let length = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = esds[offset++];
+      length = (length << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) break;
+    }
+    return length;
+  };
+
+  if (descriptor(0x03) === undefined) return undefined;
+  const flags = esds[offset + 2];
+  offset += 3;
+  if (flags & 0x80) offset += 2; // depends-on ES id
+  if (flags & 0x40) offset += 1 + esds[offset]; // URL
+  if (flags & 0x20) offset += 2; // OCR ES id
+
+  if (descriptor(0x04) === undefined) return undefined;
+  const objectType = esds[offset];
+  offset += 13;
+  if (descriptor(0x05) === undefined) return hex(objectType);
+  return `${hex(objectType)}.${esds[offset] >> 3}`;
+}
+
+function isoLanguage(packed: number): string {
+  return String.fromCharCode(((packed >> 10) & 0x1f) + 0x60, ((packed >> 5) & 0x1f) + 0x60, (packed & 0x1f) + 0x60);
+}
+
+function u32At(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+function u64At(data: Uint8Array, offset: number): number {
+  return u32At(data, offset) * 2 ** 32 + u32At(data, offset + 4);
+}
+
+function hex(n: number): string {
+  return n.toString(16).padStart(2, '0');
+}
@@ -0,0 +1,95 @@
+import { ParsedVideoData, VideoNote } from "../types";
+import { newNoteId } from "./notes";
+
+const FORMAT_VERSION = 1;
+
+type NoteVideo = Pick<ParsedVideoData, 'platform' | 'id' | 'title' | 'sourceUrl'>;
+
+// Markdown sections start with the note's time; the id rides along in a comment so re-imports replace rather than duplicate
+const SECTION_HEADING = /^## (\d+:\d{2}:\d{2}(?:\.\d{1,3})?)(?:\s*<!--\s*(\S+)\s*-->)?\s*$/;
+const EMBEDDED_IMAGE = /^!\[[^\]]*\]\((data:image\/[^)]+)\)\s*$/;
+
+export const notesToJson = (video: NoteVideo, notes: VideoNote[]): string =>
+  JSON.stringify({
+    version: FORMAT_VERSION,
+    video: { platform: video.platform, id: video.id, title: video.title, sourceUrl: video.sourceUrl },
+    exportedAt: new Date().toISOString(),
+    notes,
+  }, null, 2);
+
+// Frames are embedded as data URLs, so the file stands on its own
+export const notesToMarkdown = (video: NoteVideo, notes: VideoNote[]): string => {
+  const lines = [`# ${video.title}`, ''];
+  if (video.sourceUrl) lines.push(`来源: <${video.sourceUrl}>`, '');
+  for (const note of notes) {
+    lines.push(`## ${noteTime(note.time)} <!-- ${note.id} -->`, '');
+    if (note.frame) lines.push(`![${noteTime(note.time)}](${note.frame})`, '');
+    if (note.text.trim()) lines.push(note.text.trim(), '');
+  }
+  return lines.join('\n');
+};
+
+// Reads notes back from either export format
+export const parseNotesFile = (text: string): VideoNote[] => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  const notes = trimmed.startsWith('{') || trimmed.startsWith('[') ? parseJson(trimmed) : parseMarkdown(trimmed);
+  if (notes.length === 0) throw new Error('文件中没有找到笔记');
+  return notes;
+};
+
+export const noteTime = (seconds: number): string => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+function parseJson(text: string): VideoNote[] {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('不是有效的 JSON 文件');
+  }
+  const list = Array.isArray(json) ? json : json?.notes;
+  if (!Array.isArray(list)) throw new Error('JSON 中缺少 notes 列表');
+  return list
+    .filter((n: any) => typeof n?.time === 'number' && Number.isFinite(n.time))
+    .map((n: any): VideoNote => ({
+      id: typeof n.id === 'string' && n.id ? n.id : newNoteId(),
+      time: Math.max(0, n.time),
+      text: typeof n.text === 'string' ? n.text : '',
+      frame: typeof n.frame === 'string' && n.frame.startsWith('data:image/') ? n.frame : undefined,
+      createdAt: typeof n.createdAt === 'number' ? n.createdAt : Date.now(),
+    }));
+}
+
+function parseMarkdown(text: string): VideoNote[] {
+  const notes: VideoNote[] = [];
+  let note: VideoNote | null = null;
+  let body: string[] = [];
+
+  const flush = () => {
+    if (note) notes.push({ ...note, text: body.join('\n').trim() });
+    note = null;
+    body = [];
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const heading = line.match(SECTION_HEADING);
+    if (heading) {
+      flush();
+      note = { id: heading[2] || newNoteId(), time: parseClock(heading[1]), text: '', createdAt: Date.now() };
+      continue;
+    }
+    if (!note) continue;
+    const image = line.match(EMBEDDED_IMAGE);
+    if (image && !note.frame) note.frame = image[1];
+    else body.push(line);
+  }
+  flush();
+  return notes;
+}
+
+function parseClock(value: string): number {
+  return value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
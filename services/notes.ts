@@ -0,0 +1,61 @@
+// Timestamped notes per video, persisted in localStorage. Shaped for useSyncExternalStore.
+
+import { VideoNote } from "../types";
+
+const STORAGE_KEY = 'vidparse-pro:notes';
+
+const EMPTY: VideoNote[] = [];
+
+const load = (): Record<string, VideoNote[]> => {
+  try {
+    const stored = typeof localStorage !== 'undefined' && localStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.warn("Failed to read notes", e);
+  }
+  return {};
+};
+
+let current = load();
+const listeners = new Set<() => void>();
+
+export const getNotes = (key: string): VideoNote[] => current[key] || EMPTY;
+
+export const subscribeNotes = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const addNote = (key: string, note: Pick<VideoNote, 'time' | 'text' | 'frame'>) =>
+  save(key, [...getNotes(key), { ...note, id: newNoteId(), createdAt: Date.now() }]);
+
+export const updateNote = (key: string, id: string, patch: Partial<Pick<VideoNote, 'text' | 'time' | 'frame'>>) =>
+  save(key, getNotes(key).map(n => n.id === id ? { ...n, ...patch } : n));
+
+export const removeNote = (key: string, id: string) =>
+  save(key, getNotes(key).filter(n => n.id !== id));
+
+// Merges imported notes; ones already present (same id) are replaced. Returns how many were added or replaced.
+export const importNotes = (key: string, notes: VideoNote[]): number => {
+  const byId = new Map(getNotes(key).map(n => [n.id, n]));
+  notes.forEach(n => byId.set(n.id, n));
+  save(key, [...byId.values()]);
+  return notes.length;
+};
+
+export const newNoteId = () => `note-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Throws when the notes don't fit in storage, leaving the stored notes as they were
+function save(key: string, notes: VideoNote[]) {
+  const next = { ...current };
+  if (notes.length > 0) next[key] = [...notes].sort((a, b) => a.time - b.time);
+  else delete next[key];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn("Failed to save notes", e);
+    throw new Error('本地存储空间不足，请删除部分带截图的笔记后重试');
+  }
+  current = next;
+  listeners.forEach(l => l());
+}
@@ -1,192 +1,142 @@
-import { ParsedVideoData } from "../types";
-
-// Proxies
-const PROXY_RAW = "https://api.allorigins.win/raw?url=";
-const PROXY_JSON = "https://api.allorigins.win/get?url=";
-
-// Third-party Parser API
-const PARSER_API = "https://api.injahow.cn/bparse/";
+import { Danmaku, ListFetchOptions, ParsedVideoData, VideoList, VideoPart } from "../types";
+import { ParseError, ParseTrace, toParseError } from "./errors";
+import { findExtractor, getExtractors, matchExtractors } from "./extractors";
 
+// Rejects with a ParseError carrying the trace of everything that was tried
 export const parseVideoInput = async (input: string): Promise<ParsedVideoData> => {
-  let url = input.trim();
-  let bvid = '';
-  let avid = '';
-
-  // 1. Resolve b23.tv short links
-  if (url.includes('b23.tv')) {
-    try {
-      // Cache buster to avoid stale redirects
-      const resolveUrl = `${PROXY_JSON}${encodeURIComponent(url)}&t=${Date.now()}`;
-      const response = await fetch(resolveUrl);
-      const data = await response.json();
-      
-      // Case A: Proxy followed redirect and gave us the final URL
-      if (data.status?.url && !data.status.url.includes('b23.tv')) {
-        url = data.status.url;
-      } 
-      // Case B: Proxy returned the redirection page content (e.g. "click here to redirect" or meta refresh)
-      else if (data.contents) {
-         // Attempt to find a standard Bilibili URL in the HTML content
-         const urlMatch = data.contents.match(/https?:\/\/(?:www|m)\.bilibili\.com\/video\/(BV[a-zA-Z0-9]{10})/);
-         if (urlMatch) {
-             url = urlMatch[0];
-             bvid = urlMatch[1];
-         } else {
-             // Fallback: Just look for any BV id in the mess
-             const rawBvMatch = data.contents.match(/(BV[a-zA-Z0-9]{10})/);
-             if (rawBvMatch) bvid = rawBvMatch[1];
-         }
+  const url = input.trim();
+  const trace = new ParseTrace();
+
+  try {
+    // Try matching extractors in registry order; one that can't find an id hands over to the next.
+    for (const extractor of matchExtractors(url)) {
+      trace.log('info', `使用 ${extractor.platform} 解析器`);
+      const target = await extractor.extractId(url, trace);
+      if (!target) {
+        trace.log('info', '未找到视频编号，尝试下一个解析器');
+        continue;
       }
-    } catch (e) {
-      console.warn("Failed to resolve b23.tv link", e);
+      trace.log('ok', '识别视频编号', target.part ? `${target.id} P${target.part}` : target.id);
+
+      const [metadata, resolved] = await Promise.all([
+        extractor.fetchMetadata(target, trace),
+        extractor.resolveSources(target, trace),
+      ]);
+      trace.log('ok', '解析完成', `${resolved.playerType === 'native' ? '原生播放器' : '内嵌播放器'} · ${resolved.sources.length} 个播放源`);
+
+      return {
+        id: target.id,
+        platform: extractor.platform,
+        sourceUrl: target.url,
+        ...metadata,
+        ...resolved,
+        trace: trace.steps,
+      };
     }
+    throw new ParseError('unsupported_url');
+  } catch (e) {
+    const error = toParseError(e);
+    trace.log('error', error.userMessage, error.detail, error.code);
+    error.trace = trace.steps;
+    throw error;
   }
+};
 
-  // 2. Extract IDs (BV, AV) - Redundant check if bvid already found in step 1, but safe
-  if (!bvid) {
-      const bvMatch = url.match(/(BV[a-zA-Z0-9]{10})/);
-      const avMatch = url.match(/(?:av)([0-9]+)/);
-      
-      if (bvMatch) bvid = bvMatch[1];
-      else if (avMatch) avid = avMatch[1];
-  }
-
-  if (bvid || avid) {
-    // A. Fetch Metadata (Title, Cover)
-    let metaData: any = {};
-    try {
-      const idParam = bvid ? `bvid=${bvid}` : `aid=${avid}`;
-      const metaUrl = `https://api.bilibili.com/x/web-interface/view?${idParam}`;
-      const res = await fetch(`${PROXY_RAW}${encodeURIComponent(metaUrl)}&t=${Date.now()}`);
-      const json = await res.json();
-      if (json.code === 0) {
-        metaData = json.data;
-      }
-    } catch (e) {
-      console.warn("Metadata fetch failed", e);
-    }
+// Whether the input links to a list of videos (uploads, favourites...) instead of a single one
+export const isVideoListInput = (input: string): boolean =>
+  getExtractors().some(e => e.matchesList?.(input.trim()));
 
-    // B. Fetch Direct Stream URL via Injahow API
-    let directUrl = '';
-    let parseError = false;
-
-    try {
-        const idParam = bvid ? `bv=${bvid}` : `av=${avid}`;
-        const parseUrl = `${PARSER_API}?${idParam}&p=1&q=80&format=mp4&otype=json`;
-        
-        // Proxy request with timestamp
-        const proxyUrl = `${PROXY_RAW}${encodeURIComponent(parseUrl)}&t=${Date.now()}`;
-        const res = await fetch(proxyUrl);
-        
-        // Sometimes proxy returns text that needs parsing
-        const text = await res.text();
-        let json;
-        try {
-            json = JSON.parse(text);
-        } catch {
-            console.error("Failed to parse parser JSON", text);
-        }
-
-        if (json && json.code === 0 && json.url) {
-            directUrl = json.url;
-        } else {
-            console.warn("Parser API returned error or empty URL:", json);
-            parseError = true;
-        }
-    } catch (e) {
-        console.warn("Direct link parsing network error", e);
-        parseError = true;
-    }
+// List the video link was opened from, offered next to the video instead of replacing it
+export const containingListUrl = (input: string): string | null => {
+  const url = input.trim();
+  for (const extractor of matchExtractors(url)) {
+    const list = extractor.containingList?.(url);
+    if (list) return list;
+  }
+  return null;
+};
 
-    const title = metaData.title || `Bilibili 视频 (${bvid || avid})`;
-    const cover = metaData.pic || '';
-    const desc = metaData.desc || '';
-    const duration = metaData.duration ? formatDuration(metaData.duration) : '';
-
-    // C. Construct Response
-    if (directUrl) {
-        return {
-            id: bvid || avid,
-            title: title,
-            platform: 'bilibili',
-            playerType: 'native',
-            thumbnailUrl: cover,
-            duration: duration,
-            description: desc,
-            sources: [
-                { 
-                    url: directUrl, 
-                    format: 'MP4 (Direct)', 
-                    quality: 'High (q=80)', 
-                    size: 'Unknown', 
-                    isDownloadable: true 
-                }
-            ]
-        };
-    } else if (parseError) {
-         console.log("Falling back to iframe due to parser error.");
-    }
+// Pages through a list link; `onPage` sees the entries as they arrive
+export const fetchVideoList = async (input: string, options: ListFetchOptions = {}): Promise<VideoList> => {
+  const url = input.trim();
+  const extractor = getExtractors().find(e => e.matchesList?.(url));
+  if (!extractor?.fetchList) throw new ParseError('unsupported_url');
+  options.tracer?.log('info', `使用 ${extractor.platform} 列表解析器`);
+  return extractor.fetchList(url, options);
+};
 
-    // Fallback: Return Iframe
-    return {
-        id: bvid || avid,
-        title: title,
-        platform: 'bilibili',
-        playerType: 'iframe',
-        thumbnailUrl: cover,
-        duration: duration,
-        description: desc,
-        sources: [
-            { 
-                url: `//player.bilibili.com/player.html?${bvid ? `bvid=${bvid}` : `aid=${avid}`}&high_quality=1&danmaku=0`, 
-                format: 'Embed', 
-                quality: 'Auto', 
-                size: 'N/A', 
-                isDownloadable: false 
-            }
-        ]
-    };
-  }
+// Resolves sources for another part or collection episode of an already parsed video
+export const selectVideoPart = async (data: ParsedVideoData, part: VideoPart): Promise<ParsedVideoData> => {
+  const extractor = findExtractor(data.platform);
+  if (!extractor) throw new Error(`No extractor for platform "${data.platform}"`);
+
+  const trace = new ParseTrace();
+  const resolved = await extractor.resolveSources({
+    id: part.videoId,
+    url: data.sourceUrl || '',
+    part: part.page,
+  }, trace);
+
+  return {
+    ...data,
+    ...resolved,
+    trace: trace.steps,
+    // Switching episode moves to a different video within the collection
+    ...(part.kind === 'episode' ? { id: part.videoId, title: part.title, duration: part.duration, aiSummary: undefined } : {}),
+    currentCid: part.cid,
+  };
+};
 
-  // 3. YouTube Parsing
-  const ytRegex = /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/;
-  const ytMatch = url.match(ytRegex);
-  
-  if (ytMatch) {
-    const videoId = ytMatch[1];
-    return {
-      id: videoId,
-      title: 'YouTube 视频',
-      platform: 'youtube',
-      playerType: 'iframe',
-      thumbnailUrl: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
-      sources: [
-        { url: `https://www.youtube.com/embed/${videoId}`, format: 'Embed', quality: 'Auto', size: 'N/A', isDownloadable: false },
-        { url: `https://youtu.be/${videoId}`, format: 'Source', quality: 'Original', size: 'External', isDownloadable: true }
-      ]
-    };
-  }
+// Re-resolves the stream URLs of the loaded part, keeping metadata and AI results
+export const refreshSources = async (data: ParsedVideoData): Promise<ParsedVideoData> => {
+  const extractor = findExtractor(data.platform);
+  if (!extractor) throw new Error(`No extractor for platform "${data.platform}"`);
+
+  const current = [...(data.parts || []), ...(data.episodes || [])]
+    .find(p => p.videoId === data.id && p.cid === data.currentCid);
+  const trace = new ParseTrace();
+  const resolved = await extractor.resolveSources({
+    id: data.id,
+    url: data.sourceUrl || '',
+    part: current?.page,
+  }, trace);
+  return { ...data, ...resolved, trace: trace.steps };
+};
 
-  // 4. Direct File URL
-  const isDirect = url.match(/\.(mp4|webm|ogg|mov)$/i);
-  if (isDirect) {
-    const fileName = url.split('/').pop() || '未命名视频';
-    return {
-      id: 'direct_file',
-      title: decodeURIComponent(fileName),
-      platform: 'direct',
-      playerType: 'native',
-      sources: [
-        { url: url, format: 'Original', quality: 'Source', size: 'Unknown', isDownloadable: true }
-      ]
-    };
-  }
+// Bullet comments for the loaded part, or null when the platform has none
+export const loadDanmaku = async (data: ParsedVideoData): Promise<Danmaku[] | null> => {
+  const extractor = findExtractor(data.platform);
+  if (!extractor?.fetchDanmaku) return null;
+  return extractor.fetchDanmaku(data);
+};
 
-  throw new Error("Format not supported");
+// Resolved URLs without a visible expiry are assumed stale after this long
+const SOURCE_TTL = 2 * 60 * 60 * 1000;
+// Query parameters CDNs use for signed-URL expiry, in unix seconds
+const EXPIRY_PARAMS = ['deadline', 'expire', 'expires', 'Expires', 'x-expires'];
+
+// Whether any playable source was resolved long enough ago that it may no longer load
+export const sourcesExpired = (data: ParsedVideoData, resolvedAt: number, now = Date.now()): boolean => {
+  // Iframe embeds and user-supplied links are permanent
+  if (data.playerType !== 'native' || data.platform === 'direct') return false;
+
+  return [...data.sources, ...(data.audio || [])].some(source => {
+    if (source.external) return false;
+    const expiry = urlExpiry(source.url);
+    if (expiry != null) return expiry - 60_000 < now;
+    return now - resolvedAt > SOURCE_TTL;
+  });
 };
 
-function formatDuration(seconds: number): string {
-  const m = Math.floor(seconds / 60);
-  const s = seconds % 60;
-  return `${m}:${s < 10 ? '0' : ''}${s}`;
-}
\ No newline at end of file
+function urlExpiry(url: string): number | null {
+  try {
+    const params = new URL(url).searchParams;
+    for (const name of EXPIRY_PARAMS) {
+      const value = Number(params.get(name));
+      if (value > 0) return value * 1000;
+    }
+  } catch {
+    // Not an absolute URL
+  }
+  return null;
+}
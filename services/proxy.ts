@@ -0,0 +1,105 @@
+import { Tracer } from "../types";
+import { ParseError } from "./errors";
+import { RelayEndpoint, getSettings } from "./settings";
+
+// Cross-origin requests the browser can't make directly go through a CORS relay.
+// Relays are tried in the order configured in settings; one that errors or returns
+// something unusable is skipped and the next one gets the request.
+
+export interface RelayResponse {
+  body: string;
+  // Where the relay ended up after redirects, if it reports it
+  finalUrl?: string;
+  relay: RelayEndpoint;
+}
+
+export interface RelayOptions {
+  signal?: AbortSignal;
+  // Rejects responses that arrived but aren't what the caller expects (HTML error pages etc.)
+  validate?: (response: RelayResponse) => boolean;
+  // Use these instead of the configured list, e.g. to test a single relay
+  relays?: RelayEndpoint[];
+  // Relays that fail are recorded here
+  tracer?: Tracer;
+}
+
+// A relay that failed is moved to the back of the queue for this long
+const FAILURE_COOLDOWN = 60_000;
+const failedAt = new Map<string, number>();
+
+export const relayUrl = (relay: RelayEndpoint, target: string): string => {
+  const url = relay.template.replace('{url}', encodeURIComponent(target));
+  return relay.cacheBust ? `${url}${url.includes('?') ? '&' : '?'}_=${Date.now()}` : url;
+};
+
+export const relayFetch = async (target: string, options: RelayOptions = {}): Promise<RelayResponse> => {
+  const relays = options.relays || getSettings().relays.filter(r => r.enabled);
+  if (relays.length === 0) throw new ParseError('proxy_failed', '没有启用的中转节点');
+
+  const now = Date.now();
+  const cooling = (r: RelayEndpoint) => now - (failedAt.get(r.id) ?? -Infinity) < FAILURE_COOLDOWN;
+  const ordered = [...relays].sort((a, b) => Number(cooling(a)) - Number(cooling(b)));
+
+  const errors: string[] = [];
+  for (const relay of ordered) {
+    options.signal?.throwIfAborted();
+    try {
+      const response = await fetchThrough(relay, target, options.signal);
+      if (options.validate && !options.validate(response)) throw new Error('返回内容无效');
+      failedAt.delete(relay.id);
+      return response;
+    } catch (e) {
+      if ((e as Error)?.name === 'AbortError') throw e;
+      failedAt.set(relay.id, Date.now());
+      errors.push(`${relay.name}: ${(e as Error).message}`);
+      options.tracer?.log('warn', `中转节点 ${relay.name} 失败`, `${(e as Error).message} · ${target}`);
+    }
+  }
+  throw new ParseError('proxy_failed', errors.join('; '));
+};
+
+export const relayJson = async <T = any>(target: string, options: Omit<RelayOptions, 'validate'> = {}): Promise<T> => {
+  const { body } = await relayFetch(target, { ...options, validate: r => isJson(r.body) });
+  return JSON.parse(body);
+};
+
+// Small JSON endpoint used to check a relay from the settings panel
+const PROBE_URL = 'https://api.bilibili.com/x/web-interface/nav';
+
+// Round-trip time in ms of one relay fetching the probe URL; throws if it fails
+export const testRelay = async (relay: RelayEndpoint): Promise<number> => {
+  const start = performance.now();
+  await relayJson(PROBE_URL, { relays: [relay] });
+  return Math.round(performance.now() - start);
+};
+
+async function fetchThrough(relay: RelayEndpoint, target: string, signal?: AbortSignal): Promise<RelayResponse> {
+  const res = await fetch(relayUrl(relay, target), { signal, cache: 'no-store' });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const text = await res.text();
+
+  if (relay.mode === 'raw') {
+    return { body: text, finalUrl: res.headers.get('x-final-url') || undefined, relay };
+  }
+
+  let wrapper: any;
+  try {
+    wrapper = JSON.parse(text);
+  } catch {
+    throw new Error('中转返回的不是 JSON');
+  }
+  if (typeof wrapper?.contents !== 'string') throw new Error('中转返回格式错误');
+  const code = wrapper.status?.http_code;
+  if (code >= 500) throw new Error(`目标服务器返回 HTTP ${code}`);
+  return { body: wrapper.contents, finalUrl: wrapper.status?.url, relay };
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
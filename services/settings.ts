@@ -0,0 +1,119 @@
+// User settings, persisted in localStorage so they are available synchronously at startup.
+
+import { CaptureSettings, DanmakuSettings } from "../types";
+
+export type RelayMode =
+  // Returns the target's body as-is
+  | 'raw'
+  // allorigins /get style: JSON wrapper `{ contents, status: { url, http_code } }`
+  | 'wrapped';
+
+export interface RelayEndpoint {
+  id: string;
+  name: string;
+  // Request URL with `{url}` where the encoded target URL goes
+  template: string;
+  mode: RelayMode;
+  enabled: boolean;
+  // Adds a timestamp parameter for relays that cache responses
+  cacheBust?: boolean;
+}
+
+// 'gemini': the real API (or canned demo data without a key); 'fake': a local client, no network
+export type AIBackend = 'gemini' | 'fake';
+
+export interface Settings {
+  // Tried in order; the first one that returns a usable response wins
+  relays: RelayEndpoint[];
+  // Third-party service that turns a Bilibili id + quality into an MP4 URL
+  bilibiliParserApi: string;
+  danmaku: DanmakuSettings;
+  // Format of captured stills, for single captures and bursts alike
+  capture: CaptureSettings;
+  aiBackend: AIBackend;
+}
+
+const STORAGE_KEY = 'vidparse-pro:settings';
+
+// The dev/preview server relay from relay/relayPlugin.ts
+export const SELF_HOSTED_RELAY: RelayEndpoint = {
+  id: 'self-hosted',
+  name: '本地中转 (Vite)',
+  template: '/relay?url={url}',
+  mode: 'raw',
+  enabled: true,
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  relays: [
+    SELF_HOSTED_RELAY,
+    {
+      id: 'allorigins-raw',
+      name: 'allorigins (raw)',
+      template: 'https://api.allorigins.win/raw?url={url}',
+      mode: 'raw',
+      enabled: true,
+      cacheBust: true,
+    },
+    {
+      id: 'allorigins-get',
+      name: 'allorigins (get)',
+      template: 'https://api.allorigins.win/get?url={url}',
+      mode: 'wrapped',
+      enabled: true,
+      cacheBust: true,
+    },
+    {
+      id: 'corsproxy',
+      name: 'corsproxy.io',
+      template: 'https://corsproxy.io/?url={url}',
+      mode: 'raw',
+      enabled: false,
+    },
+  ],
+  bilibiliParserApi: 'https://api.injahow.cn/bparse/',
+  danmaku: {
+    enabled: true,
+    opacity: 0.85,
+    density: 1,
+    fontScale: 1,
+    blocklist: [],
+  },
+  capture: {
+    format: 'png',
+    quality: 0.92,
+  },
+  aiBackend: 'gemini',
+};
+
+const load = (): Settings => {
+  try {
+    const stored = typeof localStorage !== 'undefined' && localStorage.getItem(STORAGE_KEY);
+    if (stored) return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Failed to read settings", e);
+  }
+  return DEFAULT_SETTINGS;
+};
+
+let current = load();
+const listeners = new Set<() => void>();
+
+export const getSettings = (): Settings => current;
+
+export const subscribeSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const updateSettings = (patch: Partial<Settings>) => {
+  current = { ...current, ...patch };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  } catch (e) {
+    console.warn("Failed to save settings", e);
+  }
+  listeners.forEach(l => l());
+};
+
+export const resetSettings = () => updateSettings(DEFAULT_SETTINGS);
@@ -0,0 +1,236 @@
+import { ThumbnailCue } from "../types";
+import { canvasBlob, drawFrame, loadVideo, seekTo } from "./frameService";
+import { createZip } from "./encoders/zip";
+import { parseThumbnailVtt } from "./thumbnailService";
+
+export type StoryboardMode = 'interval' | 'scenes';
+
+export interface StoryboardOptions {
+  mode: StoryboardMode;
+  interval: number; // seconds between frames in interval mode
+  // Scene-change sensitivity, 0..1; lower finds more cuts
+  threshold: number;
+  maxFrames: number;
+  thumbWidth: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number) => void; // 0..1
+}
+
+export interface StoryboardFrame {
+  time: number;
+  image: HTMLCanvasElement;
+}
+
+export interface Storyboard {
+  frames: StoryboardFrame[];
+  duration: number;
+  width: number; // source resolution
+  height: number;
+}
+
+export interface SheetOptions {
+  columns: number;
+  title: string;
+}
+
+// Scenes shorter than this are merged into the previous one
+const MIN_SCENE_LENGTH = 2;
+// Scene detection compares tiny greyscale versions of the frames
+const PROBE_WIDTH = 64;
+const MAX_PROBES = 600;
+
+// Seeks through a same-origin (cached) video and grabs thumbnails at a fixed
+// interval or at detected scene changes
+export const captureStoryboard = async (src: string, options: StoryboardOptions): Promise<Storyboard> => {
+  const video = await loadVideo(src);
+  try {
+    const duration = video.duration;
+    const times = options.mode === 'scenes'
+      ? await detectScenes(video, options, progress => options.onProgress?.(progress * 0.5))
+      : intervalTimes(duration, options.interval, options.maxFrames);
+
+    const frames: StoryboardFrame[] = [];
+    const base = options.mode === 'scenes' ? 0.5 : 0;
+    for (let i = 0; i < times.length; i++) {
+      options.signal?.throwIfAborted();
+      // A frame exactly at 0 is often black; nudge the first one in
+      await seekTo(video, Math.min(Math.max(times[i], 0.1), duration - 0.05));
+      const image = document.createElement('canvas');
+      drawFrame(video, image, options.thumbWidth);
+      frames.push({ time: times[i], image });
+      options.onProgress?.(base + (1 - base) * (i + 1) / times.length);
+    }
+    return { frames, duration, width: video.videoWidth, height: video.videoHeight };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+// Grid of thumbnails with timestamps burned in, under a header with the video's details
+export const renderContactSheet = (board: Storyboard, options: SheetOptions): HTMLCanvasElement => {
+  const { frames } = board;
+  const thumbW = frames[0]?.image.width || 160;
+  const thumbH = frames[0]?.image.height || 90;
+  const gap = Math.round(thumbW / 20) + 4;
+  const header = 76;
+  const columns = Math.min(options.columns, Math.max(1, frames.length));
+  const rows = Math.ceil(frames.length / columns);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * thumbW + (columns + 1) * gap;
+  canvas.height = header + rows * (thumbH + gap) + gap;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 22px system-ui, sans-serif';
+  ctx.fillText(fitText(ctx, options.title, canvas.width - gap * 2), gap, 16);
+  ctx.fillStyle = '#94a3b8';
+  ctx.font = '14px system-ui, sans-serif';
+  const details = [
+    `时长 ${clock(board.duration)}`,
+    `分辨率 ${board.width}×${board.height}`,
+    `${frames.length} 帧`,
+    `生成于 ${new Date().toLocaleString()}`,
+  ].join('  ·  ');
+  ctx.fillText(fitText(ctx, details, canvas.width - gap * 2), gap, 46);
+
+  const labelSize = Math.max(11, Math.round(thumbH / 9));
+  frames.forEach((frame, i) => {
+    const x = gap + (i % columns) * (thumbW + gap);
+    const y = header + Math.floor(i / columns) * (thumbH + gap);
+    ctx.drawImage(frame.image, x, y, thumbW, thumbH);
+
+    const label = clock(frame.time);
+    ctx.font = `bold ${labelSize}px ui-monospace, monospace`;
+    const w = ctx.measureText(label).width + 8;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(x + thumbW - w - 4, y + thumbH - labelSize - 10, w, labelSize + 6);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(label, x + thumbW - w, y + thumbH - labelSize - 7);
+  });
+  return canvas;
+};
+
+// Thumbnails packed edge to edge, as referenced by the WebVTT track
+export const renderSprite = (board: Storyboard, columns: number): HTMLCanvasElement => {
+  const { frames } = board;
+  const thumbW = frames[0]?.image.width || 160;
+  const thumbH = frames[0]?.image.height || 90;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.min(columns, frames.length) * thumbW;
+  canvas.height = Math.ceil(frames.length / columns) * thumbH;
+  const ctx = canvas.getContext('2d')!;
+  frames.forEach((frame, i) => ctx.drawImage(frame.image, (i % columns) * thumbW, Math.floor(i / columns) * thumbH));
+  return canvas;
+};
+
+// WebVTT thumbnail track: each frame covers the time until the next one, pointing at its sprite tile
+export const storyboardVtt = (board: Storyboard, columns: number, spriteName: string): string => {
+  const { frames } = board;
+  const thumbW = frames[0]?.image.width || 160;
+  const thumbH = frames[0]?.image.height || 90;
+  const cues = frames.map((frame, i) => {
+    const end = frames[i + 1]?.time ?? board.duration;
+    const x = (i % columns) * thumbW;
+    const y = Math.floor(i / columns) * thumbH;
+    return `${vttTime(frame.time)} --> ${vttTime(end)}\n${spriteName}#xywh=${x},${y},${thumbW},${thumbH}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+// The VTT track and its sprite, zipped together so the relative reference keeps working
+export const storyboardTrackZip = async (board: Storyboard, columns: number, baseName: string): Promise<Blob> => {
+  const spriteName = `${baseName}.jpg`;
+  const sprite = await canvasBlob(renderSprite(board, columns), 'image/jpeg', 0.85);
+  return createZip([
+    { name: `${baseName}.vtt`, data: new TextEncoder().encode(storyboardVtt(board, columns, spriteName)) },
+    { name: spriteName, data: new Uint8Array(await sprite.arrayBuffer()) },
+  ]);
+};
+
+// The same track for the player's seek bar, with the sprite held in a Blob URL
+export const storyboardThumbnails = async (board: Storyboard, columns: number): Promise<ThumbnailCue[]> => {
+  const sprite = URL.createObjectURL(await canvasBlob(renderSprite(board, columns), 'image/jpeg', 0.85));
+  return parseThumbnailVtt(storyboardVtt(board, columns, sprite));
+};
+
+function intervalTimes(duration: number, interval: number, maxFrames: number): number[] {
+  // Too many frames for the interval: spread maxFrames evenly instead
+  const step = Math.max(interval, duration / maxFrames);
+  const times: number[] = [];
+  for (let t = 0; t < duration; t += step) times.push(t);
+  return times;
+}
+
+// Start times of the scenes: sample the video at a coarse step and mark a cut wherever
+// consecutive samples differ by more than the threshold. Keeps the strongest cuts if there are too many.
+async function detectScenes(video: HTMLVideoElement, options: StoryboardOptions, onProgress: (done: number) => void): Promise<number[]> {
+  const duration = video.duration;
+  const step = Math.max(0.5, duration / MAX_PROBES);
+  const canvas = document.createElement('canvas');
+  const cuts: { time: number; score: number }[] = [];
+  let previous: Float32Array | null = null;
+  let lastCut = 0;
+
+  const probes = Math.floor(duration / step);
+  for (let i = 0; i <= probes; i++) {
+    options.signal?.throwIfAborted();
+    const time = Math.min(i * step, duration - 0.05);
+    await seekTo(video, time);
+    const ctx = drawFrame(video, canvas, PROBE_WIDTH);
+    const luma = toLuma(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+
+    if (previous) {
+      const score = difference(previous, luma);
+      if (score > options.threshold && time - lastCut >= MIN_SCENE_LENGTH) {
+        cuts.push({ time, score });
+        lastCut = time;
+      }
+    }
+    previous = luma;
+    onProgress((i + 1) / (probes + 1));
+  }
+
+  const kept = cuts.sort((a, b) => b.score - a.score).slice(0, options.maxFrames - 1);
+  return [0, ...kept.map(c => c.time).sort((a, b) => a - b)];
+}
+
+function toLuma(rgba: Uint8ClampedArray): Float32Array {
+  const luma = new Float32Array(rgba.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (rgba[i * 4] * 0.299 + rgba[i * 4 + 1] * 0.587 + rgba[i * 4 + 2] * 0.114) / 255;
+  }
+  return luma;
+}
+
+// Mean absolute difference, 0..1
+function difference(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+}
+
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let cut = text.length;
+  while (cut > 0 && ctx.measureText(`${text.slice(0, cut)}…`).width > maxWidth) cut--;
+  return `${text.slice(0, cut)}…`;
+}
+
+function clock(seconds: number): string {
+  const s = Math.floor(seconds);
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s % 60)}` : `${m}:${pad(s % 60)}`;
+}
+
+function vttTime(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+}
@@ -0,0 +1,122 @@
+import { SubtitleCue, SubtitleFormat, SubtitleTrack } from "../types";
+import { relayFetch } from "./proxy";
+
+export const SUBTITLE_FILE_TYPES: Record<SubtitleFormat, { ext: string; mime: string; label: string }> = {
+  srt: { ext: 'srt', mime: 'application/x-subrip', label: 'SRT' },
+  vtt: { ext: 'vtt', mime: 'text/vtt', label: 'WebVTT' },
+  bcc: { ext: 'json', mime: 'application/json', label: 'B站 JSON' },
+};
+
+// Cues of remote tracks, by URL, so switching languages back and forth fetches each once
+const cueCache = new Map<string, Promise<SubtitleCue[]>>();
+
+export const loadSubtitleCues = (track: SubtitleTrack): Promise<SubtitleCue[]> => {
+  if (track.cues) return Promise.resolve(track.cues);
+  if (!track.url) return Promise.resolve([]);
+
+  let pending = cueCache.get(track.url);
+  if (!pending) {
+    pending = relayFetch(track.url).then(({ body }) => parseSubtitles(body, track.format));
+    // A failed load may succeed through another relay later
+    pending.catch(() => cueCache.delete(track.url!));
+    cueCache.set(track.url, pending);
+  }
+  return pending;
+};
+
+// Reads a local .srt/.vtt/.json file into a track
+export const readSubtitleFile = async (file: File): Promise<SubtitleTrack> => {
+  const cues = parseSubtitles(await file.text(), formatFromName(file.name));
+  if (cues.length === 0) throw new Error('未在文件中找到字幕');
+  return {
+    id: `local_${Date.now()}`,
+    lang: 'local',
+    label: file.name,
+    cues,
+    local: true,
+  };
+};
+
+// Parses any supported format; without a hint the format is sniffed from the content
+export const parseSubtitles = (text: string, format?: SubtitleFormat): SubtitleCue[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const detected = format || (content.trimStart().startsWith('{') ? 'bcc' : content.trimStart().startsWith('WEBVTT') ? 'vtt' : 'srt');
+  const cues = detected === 'bcc' ? parseBcc(content) : parseTimedBlocks(content);
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+export const formatSubtitles = (cues: SubtitleCue[], format: SubtitleFormat): string => {
+  if (format === 'bcc') {
+    return JSON.stringify({
+      font_size: 0.4,
+      font_color: '#FFFFFF',
+      background_alpha: 0.5,
+      background_color: '#9C27B0',
+      Stroke: 'none',
+      body: cues.map(cue => ({ from: round3(cue.start), to: round3(cue.end), location: 2, content: cue.text })),
+    }, null, 2);
+  }
+
+  const blocks = cues.map((cue, i) => {
+    const range = `${timestamp(cue.start, format)} --> ${timestamp(cue.end, format)}`;
+    return format === 'srt' ? `${i + 1}\n${range}\n${cue.text}` : `${range}\n${cue.text}`;
+  });
+  return (format === 'vtt' ? ['WEBVTT', ...blocks] : blocks).join('\n\n') + '\n';
+};
+
+// Cue shown at `time`, if any
+export const activeCue = (cues: SubtitleCue[], time: number): SubtitleCue | undefined =>
+  cues.find(cue => cue.start <= time && time < cue.end);
+
+function parseBcc(text: string): SubtitleCue[] {
+  const json = JSON.parse(text);
+  if (!Array.isArray(json?.body)) throw new Error('不是有效的 B站字幕 JSON');
+  return json.body
+    .filter((item: any) => typeof item.content === 'string')
+    .map((item: any) => ({ start: Number(item.from) || 0, end: Number(item.to) || 0, text: item.content }));
+}
+
+// SRT and WebVTT share the shape: blocks separated by blank lines, each with a `start --> end` line
+function parseTimedBlocks(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  for (const block of text.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timing = lines.findIndex(line => line.includes('-->'));
+    if (timing < 0) continue;
+
+    const [start, end] = lines[timing].split('-->').map(part => parseTimestamp(part));
+    const body = lines.slice(timing + 1).join('\n')
+      .replace(/<[^>]+>/g, '') // VTT voice/class tags and SRT <i>/<b>/<font>
+      .trim();
+    if (start == null || end == null || !body) continue;
+    cues.push({ start, end, text: body });
+  }
+  return cues;
+}
+
+// [hh:]mm:ss(.|,)mmm; anything after the time (VTT cue settings) is ignored
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?/);
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  return Number(h || 0) * 3600 + Number(m) * 60 + Number(s) + Number((ms || '0').padEnd(3, '0')) / 1000;
+}
+
+function timestamp(seconds: number, format: 'srt' | 'vtt'): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const time = `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}`;
+  return `${time}${format === 'srt' ? ',' : '.'}${pad(ms % 1000, 3)}`;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function formatFromName(name: string): SubtitleFormat | undefined {
+  const ext = name.split('.').pop()?.toLowerCase();
+  if (ext === 'srt') return 'srt';
+  if (ext === 'vtt') return 'vtt';
+  if (ext === 'json') return 'bcc';
+  return undefined;
+}
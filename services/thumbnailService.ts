@@ -0,0 +1,97 @@
+import { ThumbnailCue } from "../types";
+import { drawFrame, loadVideo, seekTo } from "./frameService";
+import { parseSubtitles } from "./subtitleService";
+
+// Frames kept by a FramePreviewer before the oldest are dropped
+const PREVIEW_CACHE_SIZE = 300;
+
+// Cues of a WebVTT thumbnail track, whose cue text is an image reference with an optional
+// `#xywh=` sprite region. `resolve` maps references to loadable URLs, or undefined to skip the cue.
+export const parseThumbnailVtt = (text: string, resolve: (ref: string) => string | undefined = ref => ref): ThumbnailCue[] =>
+  parseSubtitles(text, 'vtt').flatMap(cue => {
+    const [ref, fragment] = cue.text.trim().split('#');
+    const url = resolve(ref);
+    if (!url) return [];
+    const xywh = fragment?.match(/xywh=(?:pixel:)?(\d+),(\d+),(\d+),(\d+)/);
+    const region = xywh ? { x: +xywh[1], y: +xywh[2], width: +xywh[3], height: +xywh[4] } : undefined;
+    return [{ start: cue.start, end: cue.end, url, region }];
+  });
+
+// A thumbnail track picked from disk: the .vtt file plus the images it references
+export const readThumbnailFiles = async (files: File[]): Promise<ThumbnailCue[]> => {
+  const vtt = files.find(f => f.name.toLowerCase().endsWith('.vtt'));
+  if (!vtt) throw new Error('请同时选择 .vtt 文件与其引用的图片');
+
+  const images = new Map<string, string>();
+  for (const file of files) {
+    if (file.type.startsWith('image/')) images.set(file.name, URL.createObjectURL(file));
+  }
+  const cues = parseThumbnailVtt(await vtt.text(), ref => images.get(ref.split('/').pop()!));
+  const used = new Set(cues.map(c => c.url));
+  images.forEach(url => { if (!used.has(url)) URL.revokeObjectURL(url); });
+  if (cues.length === 0) throw new Error('轨道中没有可用的缩略图，请确认已选择其引用的图片');
+  return cues;
+};
+
+// Frees the Blob URLs a track's images were loaded into
+export const releaseThumbnails = (cues: ThumbnailCue[]) => {
+  new Set(cues.map(c => c.url)).forEach(url => {
+    if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+  });
+};
+
+export const thumbnailAt = (cues: ThumbnailCue[], time: number): ThumbnailCue | undefined =>
+  cues.find(cue => cue.start <= time && time < cue.end);
+
+// Hover previews read straight from the cached video: an offscreen copy seeks to the
+// hovered time. Times are rounded to `step` seconds so nearby positions share a frame,
+// and while a seek runs only the latest request is kept.
+export class FramePreviewer {
+  private video: Promise<HTMLVideoElement> | null = null;
+  private canvas = document.createElement('canvas');
+  private cache = new Map<number, string>();
+  private pending: { time: number; onFrame: (url: string) => void } | null = null;
+  private busy = false;
+  private destroyed = false;
+
+  constructor(private src: string, private step: number, private width = 160) {}
+
+  request(time: number, onFrame: (url: string) => void) {
+    const bucket = Math.round(time / this.step) * this.step;
+    const cached = this.cache.get(bucket);
+    if (cached) return onFrame(cached);
+    this.pending = { time: bucket, onFrame };
+    if (!this.busy) this.drain();
+  }
+
+  destroy() {
+    this.destroyed = true;
+    this.pending = null;
+    this.video?.then(video => {
+      video.removeAttribute('src');
+      video.load();
+    }, () => {});
+  }
+
+  private async drain() {
+    this.busy = true;
+    try {
+      this.video ??= loadVideo(this.src);
+      const video = await this.video;
+      while (this.pending && !this.destroyed) {
+        const { time, onFrame } = this.pending;
+        this.pending = null;
+        await seekTo(video, Math.min(time, video.duration - 0.05));
+        drawFrame(video, this.canvas, this.width);
+        const url = this.canvas.toDataURL('image/jpeg', 0.7);
+        if (this.cache.size >= PREVIEW_CACHE_SIZE) this.cache.delete(this.cache.keys().next().value!);
+        this.cache.set(time, url);
+        if (!this.destroyed) onFrame(url);
+      }
+    } catch (e) {
+      console.warn("Preview frame unavailable", e);
+    } finally {
+      this.busy = false;
+    }
+  }
+}
@@ -1,27 +1,413 @@
 export interface VideoSource {
   url: string;
   format: string;
-  quality: string;
-  size?: string;
+  // Short display name, e.g. '1080P 高清' or 'Auto'
+  label: string;
+  width?: number;
+  height?: number;
+  bitrate?: number; // bits per second
+  codec?: string;
+  mime?: string;
+  bytes?: number;
   isDownloadable?: boolean; // Some streams (like iframes) might not be directly downloadable
+  external?: boolean; // Links to the original page rather than a media file
+  // Adaptive streams: the manifest this source plays from, and the rendition it is pinned to
+  // (no rendition means adaptive selection)
+  manifest?: { kind: ManifestKind; url: string; renditionId?: string };
+}
+
+export type ManifestKind = 'hls' | 'dash';
+
+export interface SegmentRef {
+  url: string;
+  // Inclusive byte range within `url`, when segments are slices of a single file
+  range?: [number, number];
+}
+
+export interface MediaSegment extends SegmentRef {
+  start: number; // seconds
+  duration: number;
+}
+
+export interface Rendition {
+  id: string;
+  // 'muxed' carries both audio and video in one stream
+  type: 'video' | 'audio' | 'muxed';
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  codecs?: string;
+  mimeType: string;
+  container?: 'fmp4' | 'ts' | 'webm';
+  // HLS media playlists are only fetched once the rendition is needed
+  playlistUrl?: string;
+  // HLS alternate audio group the variant should be paired with
+  audioGroup?: string;
+  init?: SegmentRef;
+  segments?: MediaSegment[];
+}
+
+export interface StreamManifest {
+  kind: ManifestKind;
+  url: string;
+  duration?: number;
+  live: boolean;
+  // Video and muxed renditions
+  video: Rendition[];
+  // Separate audio-only renditions
+  audio: Rendition[];
 }
 
 export interface AISummary {
   tags: string[];
   summary: string;
   sentiment: string;
+  // Canned demo data used when no Gemini API key is configured
+  isMock?: boolean;
+}
+
+// Known platforms are listed for autocompletion, but any extractor may register its own id
+export type Platform = 'youtube' | 'bilibili' | 'direct' | 'local' | 'unknown' | (string & {});
+
+export type PlayerType = 'native' | 'iframe';
+
+// One part (分P) of a multi-part video, or one episode of a collection (合集)
+export interface VideoPart {
+  kind: 'page' | 'episode';
+  // Video the part belongs to; episodes of a collection are separate videos
+  videoId: string;
+  // 1-based page number within `videoId`
+  page: number;
+  cid: number;
+  title: string;
+  duration?: string;
+}
+
+// A still taken from the video at `time` seconds
+export interface CapturedFrame {
+  time: number;
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface SceneDescription {
+  time: number; // seconds
+  title: string;
+  description: string;
+}
+
+export interface FrameAnalysis {
+  overview: string;
+  scenes: SceneDescription[];
+  // Canned demo data used when no Gemini API key is configured
+  isMock?: boolean;
 }
 
 export interface ParsedVideoData {
   id: string;
   title: string;
-  platform: 'youtube' | 'bilibili' | 'direct' | 'unknown';
-  playerType: 'native' | 'iframe';
+  platform: Platform;
+  playerType: PlayerType;
   thumbnailUrl?: string;
   duration?: string;
   sources: VideoSource[];
   description?: string;
+  // Uploader or channel name
+  author?: string;
   aiSummary?: AISummary;
+  // URL the extractor worked from (short links already resolved)
+  sourceUrl?: string;
+  parts?: VideoPart[];
+  episodes?: VideoPart[];
+  collectionTitle?: string;
+  // cid of the part/episode currently loaded into `sources`
+  currentCid?: number;
+  // What the parser tried on the way to this result
+  trace?: TraceStep[];
+  // Audio-only streams of the loaded part
+  audio?: VideoSource[];
+  // Caption tracks of the loaded part
+  subtitles?: SubtitleTrack[];
+  // Chapters the platform defines for the loaded part
+  chapters?: Chapter[];
+}
+
+// A video an extractor has recognised: its platform id plus the (possibly resolved) URL
+export interface VideoTarget {
+  id: string;
+  url: string;
+  // 1-based part to start from, for platforms with multi-part videos
+  part?: number;
+}
+
+export interface VideoMetadata {
+  title: string;
+  thumbnailUrl?: string;
+  duration?: string;
+  description?: string;
+  author?: string;
+  parts?: VideoPart[];
+  episodes?: VideoPart[];
+  collectionTitle?: string;
+  currentCid?: number;
+  // For platforms whose chapters come with the video page rather than per part
+  chapters?: Chapter[];
+}
+
+export interface ResolvedSources {
+  playerType: PlayerType;
+  sources: VideoSource[];
+  // Separate audio-only streams, best first, where the platform offers them
+  audio?: VideoSource[];
+  subtitles?: SubtitleTrack[];
+  chapters?: Chapter[];
+}
+
+// Metadata written into extracted audio files
+export interface AudioTags {
+  title?: string;
+  comment?: string;
+  cover?: { bytes: Uint8Array; mime: 'image/jpeg' | 'image/png' };
+  // Loudness correction for players to apply, when the samples themselves aren't changed
+  replayGain?: { gain: number; peak: number }; // dB, linear
+}
+
+export type SubtitleFormat = 'bcc' | 'srt' | 'vtt'; // bcc: Bilibili's JSON caption format
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+export interface SubtitleTrack {
+  id: string;
+  lang: string;
+  label: string;
+  // Remote file the cues are loaded from on first use
+  url?: string;
+  format?: SubtitleFormat;
+  // Already loaded cues, e.g. from a local file
+  cues?: SubtitleCue[];
+  // Machine-generated captions
+  auto?: boolean;
+  local?: boolean;
+}
+
+export type ChapterSource = 'platform' | 'description' | 'bookmark';
+
+export interface Chapter {
+  id: string;
+  start: number; // seconds
+  title: string;
+  source: ChapterSource;
+}
+
+// One cue of a WebVTT thumbnail track: an image, or a region of a sprite sheet
+export interface ThumbnailCue {
+  start: number; // seconds
+  end: number;
+  url: string;
+  region?: { x: number; y: number; width: number; height: number };
+}
+
+export type CaptureFormat = 'png' | 'jpeg' | 'webp';
+
+export interface CaptureSettings {
+  format: CaptureFormat;
+  quality: number; // 0..1, ignored for PNG
+}
+
+// An observation tied to a moment of a video
+export interface VideoNote {
+  id: string;
+  time: number; // seconds
+  text: string;
+  // JPEG data URL of the frame the note refers to
+  frame?: string;
+  createdAt: number;
+}
+
+export type MediaTrackKind = 'video' | 'audio' | 'subtitle' | 'other';
+
+// One track of a media file, as read from its container
+export interface MediaTrackInfo {
+  id: number;
+  kind: MediaTrackKind;
+  // Sample entry or codec string, e.g. 'avc1.64001f', 'mp4a.40.2', 'V_VP9'
+  codec: string;
+  duration?: number; // seconds
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  sampleRate?: number;
+  channels?: number;
+  bitrate?: number; // bits per second, from the track's total sample size
+  samples?: number;
+  language?: string;
+}
+
+// What the media inspector read from a file's container
+export interface MediaInfo {
+  container: string; // 'MP4', 'QuickTime', 'WebM', 'Matroska'
+  // MP4 major brand or Matroska DocType
+  brand?: string;
+  duration?: number; // seconds
+  bytes: number;
+  bitrate?: number; // bits per second, over the whole file
+  createdAt?: string; // ISO 8601
+  muxer?: string;
+  tracks: MediaTrackInfo[];
+  // Presentation times (seconds) of the first video track's keyframes, ascending
+  keyframes: number[];
+  // What could not be read, e.g. keyframes of fragmented files
+  warnings: string[];
+}
+
+export type DanmakuMode = 'scroll' | 'top' | 'bottom';
+
+// One bullet comment (弹幕)
+export interface Danmaku {
+  time: number; // seconds into the video
+  mode: DanmakuMode;
+  // Font size as sent by the platform; 25 is Bilibili's normal size
+  size: number;
+  color: number; // 0xRRGGBB
+  text: string;
+}
+
+export interface DanmakuSettings {
+  enabled: boolean;
+  opacity: number; // 0..1
+  // Share of comments shown, 0..1
+  density: number;
+  fontScale: number;
+  // Substrings, or /regex/ patterns, of comments to hide
+  blocklist: string[];
+}
+
+export type ParseErrorCode =
+  | 'unsupported_url'
+  | 'short_link_failed'
+  | 'metadata_api'
+  | 'parser_api'
+  | 'proxy_failed'
+  | 'restricted'
+  | 'video_deleted'
+  | 'unsupported_file'
+  | 'unknown';
+
+export type TraceLevel = 'info' | 'ok' | 'warn' | 'error';
+
+// One thing the parser tried, shown in the diagnostics panel
+export interface TraceStep {
+  // ms since the parse started
+  at: number;
+  level: TraceLevel;
+  label: string;
+  detail?: string;
+  // Set when the step hit one of the known failure kinds, even if the parse recovered
+  code?: ParseErrorCode;
+}
+
+// Collects trace steps during a parse; handed down to extractors and relays
+export interface Tracer {
+  log: (level: TraceLevel, label: string, detail?: string, code?: ParseErrorCode) => void;
+}
+
+// One video of a list (uploads, a favourites folder, a playlist); enough to show it and parse it later
+export interface VideoListEntry {
+  id: string;
+  // Link that parses as a single video
+  input: string;
+  title: string;
+  thumbnailUrl?: string;
+  duration?: string;
+  author?: string;
+  publishedAt?: number; // unix ms
+  // Deleted or hidden videos stay in favourites and playlists but can't be parsed
+  unavailable?: boolean;
+}
+
+export interface VideoList {
+  title: string;
+  // What the list is on its platform, e.g. '投稿', '收藏夹', '合集'
+  kind: string;
+  // Count the platform reports; more than `entries` when paging stopped at the limit
+  total?: number;
+  entries: VideoListEntry[];
+}
+
+export interface ListFetchOptions {
+  signal?: AbortSignal;
+  tracer?: Tracer;
+  // Called after every page with the entries so far
+  onPage?: (entries: VideoListEntry[], total?: number) => void;
+}
+
+export interface VideoExtractor {
+  platform: Platform;
+  // Cheap, offline check on the raw input
+  matches: (url: string) => boolean;
+  // May hit the network (e.g. short links). Returns null when no id can be found.
+  extractId: (url: string, tracer?: Tracer) => Promise<VideoTarget | null>;
+  fetchMetadata: (target: VideoTarget, tracer?: Tracer) => Promise<VideoMetadata>;
+  resolveSources: (target: VideoTarget, tracer?: Tracer) => Promise<ResolvedSources>;
+  // Bullet comments of the loaded part, for platforms that have them
+  fetchDanmaku?: (video: Pick<ParsedVideoData, 'id' | 'currentCid'>) => Promise<Danmaku[]>;
+  // Links to a list of videos (a channel, favourites, a playlist) rather than to one video
+  matchesList?: (url: string) => boolean;
+  fetchList?: (url: string, options?: ListFetchOptions) => Promise<VideoList>;
+  // List link for a video link that was opened from within a list, e.g. a watch URL with `list=`
+  containingList?: (url: string) => string | null;
+}
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'assembling' | 'completed' | 'error';
+
+// A download split into chunks that are fetched in parallel and persisted one by one.
+// Chunks are either byte ranges of `url` or, for HLS/DASH, the rendition's segments.
+export interface DownloadJob {
+  id: string;
+  // File URL, or for segment downloads a key naming the manifest and rendition
+  url: string;
+  filename: string;
+  mime: string;
+  status: DownloadStatus;
+  createdAt: number;
+  totalBytes?: number;
+  receivedBytes: number;
+  chunkSize: number;
+  chunkCount: number;
+  completedChunks: number[];
+  // The server ignores Range requests, so the file can only be fetched in one go
+  singleStream?: boolean;
+  segments?: SegmentRef[];
+  error?: string;
+}
+
+// A parse result kept in the local library so it can be reopened without parsing again
+export interface HistoryEntry {
+  // `${platform}:${id}` of the first parse; stays the same when switching parts
+  key: string;
+  // What was typed into the search box
+  input: string;
+  data: ParsedVideoData;
+  parsedAt: number;
+  // When `data.sources` were last resolved; stream URLs may be signed and expire
+  resolvedAt: number;
+  favourite: boolean;
+}
+
+export type BatchStatus = 'pending' | 'parsing' | 'done' | 'error';
+
+// One link of a batch parse
+export interface BatchItem {
+  input: string;
+  status: BatchStatus;
+  data?: ParsedVideoData;
+  error?: string;
 }
 
 export enum AppStatus {